@@ -6,11 +6,10 @@ import { build as esbuild } from "esbuild";
 const srcPath = path.join(process.cwd(), "src");
 const buildPath = path.join(process.cwd(), "build");
 
-async function bundleCjs() {
-  const filePath = "index.ts";
+async function bundleCjs(filePath: string) {
   await esbuild({
     platform: "node",
-    target: "node18",
+    target: "node20",
     format: "cjs",
     outExtension: { ".js": ".cjs" },
     nodePaths: [srcPath],
@@ -25,7 +24,7 @@ async function bundleCjs() {
 async function buildFileEsm(filePath: string) {
   await esbuild({
     platform: "node",
-    target: "node18",
+    target: "node20",
     format: "esm",
     outExtension: { ".js": ".js" },
     nodePaths: [srcPath],
@@ -51,7 +50,11 @@ async function build({ includeTests = false }: { includeTests?: boolean }) {
     await buildFileEsm(filePath);
   }
 
-  await bundleCjs();
+  // The React bindings, the mock backend and the Node adapters are separate entry points,
+  // exported as openai-gpt-assistants/react, openai-gpt-assistants/mock and openai-gpt-assistants/node
+  for (const filePath of ["index.ts", "mock.ts", "node.ts", "react.ts"]) {
+    await bundleCjs(filePath);
+  }
 }
 
 if (import.meta.url.startsWith("file:")) {
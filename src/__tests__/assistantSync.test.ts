@@ -0,0 +1,134 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { OpenAI } from "openai";
+
+import {
+  AssistantDefinition,
+  Context,
+  formatAssistantPlan,
+  syncAssistants,
+} from "../index.js";
+
+const assistant = (id: string, key: string | null, instructions: string) => ({
+  id,
+  object: "assistant",
+  created_at: 0,
+  name: null,
+  description: null,
+  model: "gpt-4",
+  instructions,
+  tools: [],
+  file_ids: ["file_2", "file_1"],
+  metadata: key ? { assistant_key: key } : {},
+});
+
+const createClient = () => {
+  const calls: unknown[][] = [];
+  const client = {
+    beta: {
+      assistants: {
+        list: () =>
+          Promise.resolve({
+            data: [
+              assistant("asst_1", "support", "Be kind"),
+              assistant("asst_2", "sales", "Sell"),
+              assistant("asst_3", "legacy", "Old"),
+              assistant("asst_4", null, "Unmanaged"),
+            ],
+            hasNextPage: () => false,
+          }),
+        create: (params: { name: string }) => {
+          calls.push(["create", params]);
+          return Promise.resolve({ ...params, id: "asst_5" });
+        },
+        update: (id: string, params: unknown) => {
+          calls.push(["update", id, params]);
+          return Promise.resolve({ id });
+        },
+        del: (id: string) => {
+          calls.push(["delete", id]);
+          return Promise.resolve({ id, deleted: true });
+        },
+      },
+    },
+  } as unknown as OpenAI;
+  return { client, calls };
+};
+
+const definitions: AssistantDefinition[] = [
+  {
+    key: "support",
+    model: "gpt-4",
+    instructions: "Be kind",
+    files: ["file_1", "file_2"],
+  },
+  { key: "sales", model: "gpt-4-turbo", instructions: "Sell" },
+  { key: "billing", model: "gpt-4", name: "Billing" },
+];
+
+describe("syncAssistants", () => {
+  it("plans field-level changes without applying them in dry runs", async () => {
+    const { client, calls } = createClient();
+    const ctx = new Context(client);
+    const { plan, applied } = await syncAssistants(ctx, definitions, {
+      dryRun: true,
+      prune: true,
+    });
+
+    assert.equal(applied, false);
+    assert.deepEqual(calls, []);
+    assert.deepEqual(
+      plan.map(({ action, key }) => [action, key]),
+      [
+        ["unchanged", "support"],
+        ["update", "sales"],
+        ["create", "billing"],
+        ["delete", "legacy"],
+      ],
+    );
+    assert.equal(
+      formatAssistantPlan(plan.slice(1, 2)),
+      [
+        "~ sales (asst_2)",
+        '    model: "gpt-4" -> "gpt-4-turbo"',
+        '    file_ids: ["file_2","file_1"] -> []',
+      ].join("\n"),
+    );
+  });
+
+  it("creates, updates and prunes to match the definitions", async () => {
+    const { client, calls } = createClient();
+    const ctx = new Context(client);
+    const { applied, assistants } = await syncAssistants(ctx, definitions, {
+      prune: true,
+    });
+
+    assert.equal(applied, true);
+    assert.equal(assistants.get("billing")?.id, "asst_5");
+    assert.deepEqual(calls, [
+      ["update", "asst_2", { model: "gpt-4-turbo", file_ids: [] }],
+      [
+        "create",
+        {
+          name: "Billing",
+          description: null,
+          model: "gpt-4",
+          instructions: null,
+          tools: [],
+          file_ids: [],
+          metadata: { assistant_key: "billing" },
+        },
+      ],
+      ["delete", "asst_3"],
+    ]);
+  });
+
+  it("rejects duplicate keys", async () => {
+    const { client } = createClient();
+    await assert.rejects(
+      syncAssistants(new Context(client), [definitions[0]!, definitions[0]!]),
+      /Duplicate assistant key support/,
+    );
+  });
+});
@@ -0,0 +1,194 @@
+import * as assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, describe, it } from "node:test";
+
+import { OpenAI } from "openai";
+
+import { Context, MemoryCacheStorage, Thread, VirtualClock } from "../index.js";
+import { JsonFileCacheStorage } from "../node.js";
+
+const thread = {
+  id: "thread_1",
+  object: "thread",
+  created_at: 1700000000,
+  metadata: {},
+} satisfies OpenAI.Beta.Thread;
+
+// Any API call fails, so values can only come from the storage
+const offlineClient = new Proxy({} as OpenAI, {
+  get() {
+    throw new Error("Unexpected API call");
+  },
+});
+
+describe("Cache storage", async () => {
+  const dir = await mkdtemp(path.join(tmpdir(), "cache-test-"));
+  after(() => rm(dir, { recursive: true, force: true }));
+
+  it("hydrates entries from a JSON file after a restart", async () => {
+    const filePath = path.join(dir, "cache.json");
+    const first = new Context(
+      offlineClient,
+      {},
+      {
+        cacheStorage: new JsonFileCacheStorage(filePath),
+      },
+    );
+    first.cache.set("thread", thread.id, thread);
+    await first.cache.flush();
+
+    const second = new Context(
+      offlineClient,
+      {},
+      {
+        cacheStorage: new JsonFileCacheStorage(filePath),
+      },
+    );
+    const inserted: string[] = [];
+    second.cache.emitter().on("cacheInserted", (_, id) => inserted.push(id));
+    const loaded = await Thread.load(second, thread.id);
+    assert.deepEqual(loaded.wrappedValue, thread);
+    assert.deepEqual(inserted, [thread.id]);
+  });
+
+  it("removes entries from the storage", async () => {
+    const storage = new JsonFileCacheStorage(path.join(dir, "remove.json"));
+    const ctx = new Context(offlineClient, {}, { cacheStorage: storage });
+    ctx.cache.set("thread", thread.id, thread);
+    ctx.cache.remove("thread", thread.id);
+    await ctx.cache.flush();
+    assert.equal(await storage.get("thread", thread.id), undefined);
+  });
+
+  it("reads the JSON file again after a failed read", async () => {
+    const filePath = path.join(dir, "corrupt.json");
+    await writeFile(filePath, "{", "utf8");
+    const storage = new JsonFileCacheStorage(filePath);
+    await assert.rejects(() => storage.get("thread", thread.id), SyntaxError);
+    await writeFile(filePath, JSON.stringify({ version: 1, entries: {} }));
+    await storage.set("thread", thread.id, thread);
+    assert.deepEqual(await storage.get("thread", thread.id), thread);
+  });
+});
+
+describe("Cache policies", () => {
+  const threadWithId = (id: string) => ({ ...thread, id });
+
+  it("evicts the least recently used entries above max entries", () => {
+    const ctx = new Context(
+      offlineClient,
+      {},
+      {
+        cachePolicies: { thread: { maxEntries: 2 } },
+      },
+    );
+    const removed: string[] = [];
+    ctx.cache.emitter("thread").on("cacheRemoved", (id) => removed.push(id));
+    ctx.cache.set("thread", "a", threadWithId("a"));
+    ctx.cache.set("thread", "b", threadWithId("b"));
+    ctx.cache.get("thread", "a");
+    ctx.cache.set("thread", "c", threadWithId("c"));
+    assert.deepEqual(removed, ["b"]);
+    assert.ok(ctx.cache.get("thread", "a"));
+  });
+
+  it("refetches expired entries in getOrFetch", async () => {
+    let retrieved = 0;
+    const client = {
+      beta: {
+        threads: {
+          retrieve: (id: string) => {
+            retrieved++;
+            return Promise.resolve(threadWithId(id));
+          },
+        },
+      },
+    } as unknown as OpenAI;
+    const clock = new VirtualClock();
+    const ctx = new Context(
+      client,
+      {},
+      {
+        clock,
+        cachePolicies: { thread: { ttlMs: 0 } },
+      },
+    );
+    ctx.cache.set("thread", "a", threadWithId("a"));
+    await clock.advance(5);
+    const value = await ctx.cache.getOrFetch("thread", "a");
+    assert.deepEqual(value, threadWithId("a"));
+    assert.equal(retrieved, 1);
+  });
+
+  it("applies the TTL to entries hydrated from the storage", async () => {
+    const server = { ...thread, metadata: { name: "old" } };
+    const client = {
+      beta: {
+        threads: { retrieve: () => Promise.resolve(structuredClone(server)) },
+      },
+    } as unknown as OpenAI;
+    const clock = new VirtualClock();
+    const storage = new MemoryCacheStorage();
+    const options = {
+      clock,
+      cacheStorage: storage,
+      cachePolicies: { thread: { ttlMs: 10 } },
+    };
+    const first = new Context(client, {}, options);
+    await first.cache.getOrFetch("thread", thread.id);
+    await first.cache.flush();
+
+    // Hydrated entries keep the time they were set
+    const second = new Context(client, {}, options);
+    server.metadata.name = "new";
+    await clock.advance(5);
+    const hydrated = await second.cache.getOrFetch<OpenAI.Beta.Thread>(
+      "thread",
+      thread.id,
+    );
+    assert.deepEqual(hydrated.metadata, { name: "old" });
+    await clock.advance(50);
+    for (const ctx of [first, second]) {
+      const value = await ctx.cache.getOrFetch<OpenAI.Beta.Thread>(
+        "thread",
+        thread.id,
+      );
+      assert.deepEqual(value.metadata, { name: "new" });
+    }
+  });
+
+  it("keeps pinned assistants and active runs", () => {
+    const ctx = new Context(
+      offlineClient,
+      {},
+      {
+        cachePolicies: {
+          assistant: { maxEntries: 0 },
+          run: { maxEntries: 1 },
+        },
+      },
+    );
+    ctx.cache.set("assistant", "asst_1", { id: "asst_1" });
+    ctx.cache.set("run", "run_1", { id: "run_1", status: "in_progress" });
+    ctx.cache.set("run", "run_2", { id: "run_2", status: "completed" });
+    assert.ok(ctx.cache.get("assistant", "asst_1"));
+    assert.ok(ctx.cache.get("run", "run_1"));
+    // The entry just inserted is kept, even though no other entry can be evicted
+    assert.ok(ctx.cache.get("run", "run_2"));
+
+    ctx.cache.set("run", "run_3", { id: "run_3", status: "completed" });
+    assert.ok(ctx.cache.get("run", "run_1"));
+    assert.equal(ctx.cache.get("run", "run_2"), undefined);
+    assert.ok(ctx.cache.get("run", "run_3"));
+  });
+
+  it("fails clearly when accessing an evicted entry", () => {
+    const ctx = new Context(offlineClient);
+    const loaded = new Thread(ctx, thread.id);
+    ctx.cache.set("thread", thread.id, thread);
+    ctx.cache.evict("thread", thread.id);
+    assert.throws(() => loaded.wrappedValue, /evicted from the cache/);
+  });
+});
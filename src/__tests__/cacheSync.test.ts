@@ -0,0 +1,194 @@
+import * as assert from "node:assert/strict";
+import { EventEmitter } from "node:events";
+import { describe, it } from "node:test";
+
+import {
+  Assistant,
+  CacheSync,
+  CacheSyncMessage,
+  Context,
+  IpcCacheSyncTransport,
+  LocalCacheSyncBus,
+  RedisCacheSyncTransport,
+  RedisPubSubClient,
+  relayIpcCacheSync,
+  VirtualClock,
+} from "../index.js";
+import { MockBackend } from "../mock.js";
+
+/** Two contexts ("workers") on the same backend, with caches synced through the transports */
+const setup = async (transports: CacheSync["transport"][]) => {
+  const mock = new MockBackend();
+  const workers = await Promise.all(
+    transports.map(async (transport) => {
+      const clock = new VirtualClock(1000);
+      const ctx = new Context(mock.client, {}, { clock });
+      const sync = new CacheSync(ctx, transport);
+      await sync.start();
+      return { ctx, sync, clock };
+    }),
+  );
+  const created = await Assistant.create(workers[0]!.ctx, { model: "gpt-4" });
+  for (const { ctx } of workers) await Assistant.load(ctx, created.id);
+  return { workers, id: created.id };
+};
+
+/** Resolves once the sync has applied or rejected a message */
+const received = (sync: CacheSync) =>
+  new Promise<string>((resolve) => {
+    sync.once("applied", () => resolve("applied"));
+    sync.once("rejected", () => resolve("rejected"));
+  });
+
+describe("CacheSync", () => {
+  it("applies updates and deletes from other contexts without echoing them", async () => {
+    const bus = new LocalCacheSyncBus();
+    const { workers, id } = await setup([bus.transport(), bus.transport()]);
+    const [a, b] = workers;
+    const published = { a: 0, b: 0 };
+    a!.sync.on("published", () => published.a++);
+    b!.sync.on("published", () => published.b++);
+
+    const updated: string[] = [];
+    const remote = new Assistant(b!.ctx, id);
+    remote.on("updated", (assistant) => updated.push(assistant.name ?? ""));
+    await new Assistant(a!.ctx, id).update({ name: "Renamed" });
+    await new Promise((resolve) => setImmediate(resolve));
+    assert.deepEqual(updated, ["Renamed"]);
+    assert.deepEqual(published, { a: 1, b: 0 });
+
+    await new Assistant(a!.ctx, id).delete();
+    await new Promise((resolve) => setImmediate(resolve));
+    assert.equal(b!.ctx.cache.get("assistant", id), undefined);
+    assert.equal(published.b, 0);
+  });
+
+  it("publishes only settled messages and keeps evictions local", async () => {
+    const bus = new LocalCacheSyncBus();
+    const { workers, id } = await setup([bus.transport(), bus.transport()]);
+    const [a, b] = workers;
+    const published: CacheSyncMessage[] = [];
+    a!.sync.on("published", (message) => published.push(message));
+
+    const message = (status: string, text: string) => ({
+      id: "msg_1",
+      object: "thread.message",
+      status,
+      content: [{ type: "text", text: { value: text, annotations: [] } }],
+    });
+    a!.ctx.cache.set("message", "msg_1", message("in_progress", ""));
+    a!.ctx.cache.set("message", "msg_1", message("in_progress", "Hel"));
+    a!.ctx.cache.set("message", "msg_1", message("completed", "Hello"));
+    a!.ctx.cache.evict("assistant", id);
+    await new Promise((resolve) => setImmediate(resolve));
+    assert.deepEqual(
+      published.map(({ event, object }) => [event, object]),
+      [["updated", "message"]],
+    );
+    assert.deepEqual(published[0]!.value, message("completed", "Hello"));
+    assert.notEqual(b!.ctx.cache.get("assistant", id), undefined);
+  });
+
+  it("publishes only values that changed", async () => {
+    const bus = new LocalCacheSyncBus();
+    const { workers } = await setup([bus.transport(), bus.transport()]);
+    const [a, b] = workers;
+    const published: CacheSyncMessage[] = [];
+    a!.sync.on("published", (message) => published.push(message));
+    b!.sync.on("published", (message) => published.push(message));
+
+    // Every poll sets a fresh copy of the run
+    const run = (status: string) => ({
+      id: "run_1",
+      object: "thread.run",
+      status,
+    });
+    b!.ctx.cache.set("run", "run_1", run("queued"));
+    a!.ctx.cache.set("run", "run_1", run("queued"));
+    a!.ctx.cache.set("run", "run_1", run("queued"));
+    a!.ctx.cache.set("run", "run_1", run("in_progress"));
+    await new Promise((resolve) => setImmediate(resolve));
+    // b applied the change, so its own poll returning the same run isn't published again
+    b!.ctx.cache.set("run", "run_1", run("in_progress"));
+    await new Promise((resolve) => setImmediate(resolve));
+    assert.deepEqual(
+      published.map(({ origin, value }) => [
+        origin,
+        (value as { status: string }).status,
+      ]),
+      [[a!.sync.origin, "in_progress"]],
+    );
+  });
+
+  it("rejects changes older than the local value", async () => {
+    const bus = new LocalCacheSyncBus();
+    const transport = bus.transport();
+    const { workers, id } = await setup([transport]);
+    const [a] = workers;
+    await a!.clock.advance(5000);
+    await new Assistant(a!.ctx, id).update({ name: "Newer" });
+
+    const stale: CacheSyncMessage = {
+      origin: "other",
+      event: "updated",
+      object: "assistant",
+      id,
+      value: {
+        ...(a!.ctx.cache.get("assistant", id) as object),
+        name: "Older",
+      },
+      timestamp: 2000,
+    };
+    const result = received(a!.sync);
+    await transport.publish(stale);
+    assert.equal(await result, "rejected");
+    assert.equal(new Assistant(a!.ctx, id).name, "Newer");
+
+    const next = received(a!.sync);
+    await transport.publish({ ...stale, timestamp: 9000 });
+    assert.equal(await next, "applied");
+    assert.equal(new Assistant(a!.ctx, id).name, "Older");
+  });
+
+  it("syncs through Redis and IPC transports", async () => {
+    // Minimal in-memory Redis pub/sub
+    const channels = new EventEmitter();
+    const redis: RedisPubSubClient = {
+      publish: (channel, message) => channels.emit(channel, message, channel),
+      subscribe: (channel, listener) => channels.on(channel, listener),
+      unsubscribe: (channel, listener) => channels.off(channel, listener!),
+    };
+    // Worker IPC channels, relayed by the "primary"
+    const toWorker = [new EventEmitter(), new EventEmitter()];
+    const toPrimary = [new EventEmitter(), new EventEmitter()];
+    const ipc = (i: number) => ({
+      send: (message: unknown) => toPrimary[i]!.emit("message", message),
+      on: toWorker[i]!.on.bind(toWorker[i]!),
+      off: toWorker[i]!.off.bind(toWorker[i]!),
+    });
+    const stopRelay = relayIpcCacheSync(
+      [0, 1].map((i) => ({
+        send: (message: unknown) => toWorker[i]!.emit("message", message),
+        on: toPrimary[i]!.on.bind(toPrimary[i]!),
+        off: toPrimary[i]!.off.bind(toPrimary[i]!),
+      })),
+    );
+
+    for (const transports of [
+      [
+        new RedisCacheSyncTransport(redis, redis),
+        new RedisCacheSyncTransport(redis, redis),
+      ],
+      [new IpcCacheSyncTransport(ipc(0)), new IpcCacheSyncTransport(ipc(1))],
+    ]) {
+      const { workers, id } = await setup(transports);
+      const [a, b] = workers;
+      const applied = received(b!.sync);
+      await new Assistant(a!.ctx, id).update({ name: "Synced" });
+      assert.equal(await applied, "applied");
+      assert.equal(new Assistant(b!.ctx, id).name, "Synced");
+      await Promise.all(workers.map(({ sync }) => sync.stop()));
+    }
+    stopRelay();
+  });
+});
@@ -0,0 +1,169 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { OpenAI } from "openai";
+
+import {
+  Assistant,
+  ChatSession,
+  Context,
+  fixedPolling,
+  noopLogger,
+} from "../index.js";
+
+const text = (value: string, annotations: unknown[] = []) => [
+  { type: "text", text: { value, annotations } },
+];
+
+/** Runs complete on their first poll, replying with the assistant's text and a citation */
+const createClient = () => {
+  const log: string[] = [];
+  const threads = new Map<string, Record<string, unknown>[]>();
+  let ids = 0;
+  let active: string | null = null;
+  const client = {
+    files: {
+      retrieve: (id: string) =>
+        Promise.resolve({ id, filename: "handbook.pdf", bytes: 10 }),
+    },
+    beta: {
+      threads: {
+        create: () => {
+          const id = `thread_${++ids}`;
+          threads.set(id, []);
+          log.push(`create ${id}`);
+          return Promise.resolve({ id, created_at: 0, metadata: null });
+        },
+        retrieve: (id: string) =>
+          Promise.resolve({ id, created_at: 0, metadata: null }),
+        messages: {
+          create: (threadId: string, params: { content: string }) => {
+            const message = {
+              id: `msg_${++ids}`,
+              thread_id: threadId,
+              role: "user",
+              run_id: null,
+              content: text(params.content),
+            };
+            threads.get(threadId)!.push(message);
+            return Promise.resolve(message);
+          },
+          // Newest first unless ascending, one message per page
+          list: (threadId: string, query: { order?: string }) => {
+            const messages = [...threads.get(threadId)!];
+            if (query.order !== "asc") messages.reverse();
+            const page = (i: number): unknown => ({
+              data: [messages[i]],
+              hasNextPage: () => i + 1 < messages.length,
+              getNextPage: () => Promise.resolve(page(i + 1)),
+            });
+            return Promise.resolve(
+              messages.length
+                ? page(0)
+                : { data: [], hasNextPage: () => false },
+            );
+          },
+        },
+        runs: {
+          create: (threadId: string) => {
+            assert.equal(active, null, "a run is already active");
+            active = `run_${++ids}`;
+            log.push(`run ${active}`);
+            return Promise.resolve({
+              id: active,
+              thread_id: threadId,
+              status: "queued",
+            });
+          },
+          retrieve: (threadId: string, id: string) => {
+            const messages = threads.get(threadId)!;
+            const question = messages[messages.length - 1]!
+              .content as ReturnType<typeof text>;
+            messages.push({
+              id: `msg_${++ids}`,
+              thread_id: threadId,
+              role: "assistant",
+              run_id: id,
+              content: text(`Re: ${question[0]!.text.value}【0†source】`, [
+                {
+                  type: "file_citation",
+                  text: "【0†source】",
+                  start_index: 4 + question[0]!.text.value.length,
+                  end_index: 14 + question[0]!.text.value.length,
+                  file_citation: { file_id: "file_1", quote: "Be kind" },
+                },
+              ]),
+            });
+            active = null;
+            return Promise.resolve({
+              id,
+              thread_id: threadId,
+              status: "completed",
+            });
+          },
+        },
+      },
+    },
+  } as unknown as OpenAI;
+  return { client, log };
+};
+
+describe("ChatSession", () => {
+  it("serializes sends and resolves replies with citations", async () => {
+    const { client, log } = createClient();
+    const ctx = new Context(
+      client,
+      {},
+      { polling: { strategy: fixedPolling(1) } },
+    );
+    const chat = new ChatSession(ctx, new Assistant(ctx, "asst_1"));
+
+    const [first, second] = await Promise.all([
+      chat.send("Hi"),
+      chat.send("Be brief"),
+    ]);
+    assert.equal(chat.pending, 0);
+    assert.equal(first.text, "Re: Hi[1]");
+    assert.equal(second.text, "Re: Be brief[1]");
+    assert.equal(second.messages.length, 1);
+    assert.equal(second.citations[0]?.file?.filename, "handbook.pdf");
+    assert.equal(second.citations[0]?.quote, "Be kind");
+
+    const history = await chat.history();
+    assert.deepEqual(
+      history.map((message) => message.role),
+      ["user", "assistant", "user", "assistant"],
+    );
+
+    await chat.reset();
+    assert.equal(chat.thread, null);
+    await chat.send("Again");
+    assert.deepEqual(log, [
+      "create thread_1",
+      "run run_3",
+      "run run_6",
+      "create thread_8",
+      "run run_10",
+    ]);
+  });
+
+  it("falls back to the file id when a cited file can't be loaded", async () => {
+    const { client } = createClient();
+    client.files.retrieve = () =>
+      Promise.reject(
+        OpenAI.APIError.generate(404, {}, "Not found", {}),
+      ) as never;
+    const ctx = new Context(
+      client,
+      {},
+      { logger: noopLogger, polling: { strategy: fixedPolling(1) } },
+    );
+    const chat = new ChatSession(ctx, new Assistant(ctx, "asst_1"));
+
+    const reply = await chat.send("Hi");
+    assert.equal(reply.text, "Re: Hi[1]");
+    assert.deepEqual(reply.citations, [
+      { index: 1, fileId: "file_1", file: null, quote: "Be kind" },
+    ]);
+  });
+});
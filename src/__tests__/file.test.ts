@@ -0,0 +1,100 @@
+import * as assert from "node:assert/strict";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+
+import { OpenAI } from "openai";
+
+import { Context, File, Message, Thread } from "../index.js";
+import { downloadFile, fileFromPath } from "../node.js";
+
+const fileObject = (id: string, filename: string) => ({
+  id,
+  object: "file",
+  bytes: 5,
+  created_at: 0,
+  filename,
+  purpose: "assistants",
+  status: "processed",
+});
+
+const createClient = () => {
+  const uploads: { name: string; purpose: string }[] = [];
+  const client = {
+    files: {
+      create: ({ file, purpose }: OpenAI.FileCreateParams) => {
+        const { name } = file as { name: string };
+        uploads.push({ name, purpose });
+        return Promise.resolve(fileObject("file_1", name));
+      },
+      retrieve: (id: string) => Promise.resolve(fileObject(id, `${id}.png`)),
+      content: () => Promise.resolve(new Response("hello")),
+    },
+  } as unknown as OpenAI;
+  return { client, uploads };
+};
+
+describe("File", () => {
+  it("uploads a Buffer and caches the file", async () => {
+    const { client, uploads } = createClient();
+    const ctx = new Context(client);
+    const created: string[] = [];
+    ctx.cache.emitter("file").on("created", (id) => created.push(id));
+
+    const file = await File.upload(ctx, Buffer.from("hello"), {
+      filename: "hello.txt",
+    });
+    assert.equal(file.filename, "hello.txt");
+    assert.deepEqual(uploads, [{ name: "hello.txt", purpose: "assistants" }]);
+    assert.deepEqual(created, ["file_1"]);
+  });
+
+  it("uploads a file from disk", async () => {
+    const { client, uploads } = createClient();
+    const ctx = new Context(client);
+    const dir = await mkdtemp(join(tmpdir(), "files-"));
+    try {
+      await writeFile(join(dir, "report.csv"), "a,b");
+      await File.upload(ctx, await fileFromPath(join(dir, "report.csv")));
+      assert.deepEqual(uploads, [
+        { name: "report.csv", purpose: "assistants" },
+      ]);
+    } finally {
+      await rm(dir, { recursive: true });
+    }
+  });
+
+  it("downloads the content to disk", async () => {
+    const { client } = createClient();
+    const ctx = new Context(client);
+    const dir = await mkdtemp(join(tmpdir(), "files-"));
+    try {
+      const file = await File.load(ctx, "file_1");
+      const path = await downloadFile(file, join(dir, file.filename));
+      assert.equal(await readFile(path, "utf8"), "hello");
+    } finally {
+      await rm(dir, { recursive: true });
+    }
+  });
+
+  it("resolves the image files of a message", async () => {
+    const { client } = createClient();
+    const ctx = new Context(client);
+    const thread = new Thread(ctx, "thread_1");
+    ctx.cache.set("message", "msg_1", {
+      id: "msg_1",
+      thread_id: "thread_1",
+      file_ids: [],
+      content: [
+        { type: "text", text: { value: "Here's the chart", annotations: [] } },
+        { type: "image_file", image_file: { file_id: "file_chart" } },
+      ],
+    });
+    const message = new Message(ctx, thread, "msg_1");
+
+    const [image] = await message.imageFiles();
+    assert.equal(image?.filename, "file_chart.png");
+    assert.ok(ctx.cache.get("file", "file_chart"));
+  });
+});
@@ -0,0 +1,262 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import {
+  Assistant,
+  Context,
+  fixedPolling,
+  httpHandler,
+  Message,
+  Run,
+  Thread,
+  VirtualClock,
+} from "../index.js";
+import { MockBackend } from "../mock.js";
+
+const setup = async () => {
+  const clock = new VirtualClock();
+  const mock = new MockBackend({ clock });
+  const ctx = new Context(
+    mock.client,
+    {},
+    { clock, polling: { strategy: fixedPolling(1000) } },
+  );
+  const support = await Assistant.create(ctx, { model: "gpt-4" });
+  const handler = httpHandler(ctx, {
+    assistants: { support },
+    basePath: "/api",
+    auth: (request) => {
+      const tenant = request.headers.get("x-tenant");
+      return tenant ? { metadata: { tenant } } : null;
+    },
+  });
+  const send = async (
+    method: string,
+    path: string,
+    body?: unknown,
+    tenant = "acme",
+  ) => {
+    const response = await handler(
+      new Request(`http://localhost/api${path}`, {
+        method,
+        headers: { "x-tenant": tenant, "content-type": "application/json" },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      }),
+    );
+    return response;
+  };
+  return { clock, mock, ctx, send, handler, support };
+};
+
+describe("httpHandler", () => {
+  it("creates threads and messages restricted to the tenant", async () => {
+    const { mock, send, handler } = await setup();
+    const created = await send("POST", "/threads", {
+      metadata: { topic: "billing", tenant: "other" },
+    });
+    assert.equal(created.status, 201);
+    const thread = (await created.json()) as {
+      id: string;
+      metadata: unknown;
+    };
+    assert.deepEqual(thread.metadata, { topic: "billing", tenant: "acme" });
+
+    const posted = await send("POST", `/threads/${thread.id}/messages`, {
+      content: "Where is my invoice?",
+    });
+    assert.equal(posted.status, 201);
+    assert.equal(
+      (await send("POST", `/threads/${thread.id}/messages`, {})).status,
+      400,
+    );
+    const list = await send("GET", `/threads/${thread.id}/messages?order=asc`);
+    const { data } = (await list.json()) as { data: { role: string }[] };
+    assert.deepEqual(
+      data.map((message) => message.role),
+      ["user"],
+    );
+
+    const other = await send(
+      "GET",
+      `/threads/${thread.id}`,
+      undefined,
+      "globex",
+    );
+    assert.equal(other.status, 404);
+    assert.equal((await send("GET", "/threads/thread_missing")).status, 404);
+    assert.equal((await send("DELETE", `/threads/${thread.id}`)).status, 405);
+    assert.equal((await send("GET", "/nothing")).status, 404);
+    const anonymous = await handler(
+      new Request(`http://localhost/api/threads/${thread.id}`),
+    );
+    assert.equal(anonymous.status, 401);
+    assert.equal(mock.messages.get(thread.id)?.length, 1);
+  });
+
+  it("starts runs and streams their events", async () => {
+    const { clock, mock, send } = await setup();
+    const { id } = (await (await send("POST", "/threads")).json()) as {
+      id: string;
+    };
+    await send("POST", `/threads/${id}/messages`, { content: "Hi" });
+    assert.equal(
+      (await send("POST", `/threads/${id}/runs`, { assistant: "nope" })).status,
+      400,
+    );
+
+    mock.scriptRun(
+      { type: "status", status: "in_progress", polls: 1 },
+      { type: "reply", text: "Hello!" },
+    );
+    const started = await send("POST", `/threads/${id}/runs`, {
+      assistant: "support",
+    });
+    assert.equal(started.status, 201);
+    const run = (await started.json()) as { id: string; metadata: unknown };
+    assert.deepEqual(run.metadata, { tenant: "acme" });
+
+    const events = await send("GET", `/threads/${id}/runs/${run.id}/events`);
+    assert.equal(events.headers.get("content-type"), "text/event-stream");
+    const text = await clock.runUntil(events.text());
+    const received = text
+      .trim()
+      .split("\n\n")
+      .map((event) => {
+        const [name, data] = event.split("\n");
+        return {
+          event: name!.slice("event: ".length),
+          data: JSON.parse(data!.slice("data: ".length)) as Record<
+            string,
+            unknown
+          >,
+        };
+      });
+    assert.deepEqual(
+      received.map(
+        ({ event, data }) => `${event} ${String(data.status ?? data.role)}`,
+      ),
+      [
+        "run queued",
+        "run in_progress",
+        "run completed",
+        "message assistant",
+        "done completed",
+      ],
+    );
+
+    const finished = await send("GET", `/threads/${id}/runs/${run.id}/events`);
+    assert.equal(
+      await finished.text(),
+      [
+        `event: run\ndata: ${JSON.stringify(mock.getRun(run.id))}`,
+        'event: done\ndata: {"status":"completed"}',
+        "",
+      ].join("\n\n"),
+    );
+  });
+
+  it("answers 404 for runs of another thread", async () => {
+    const { ctx, mock, send, support } = await setup();
+    const thread = await Thread.create(ctx, { metadata: { tenant: "acme" } });
+    await Message.create(ctx, thread, { role: "user", content: "Hi" });
+    mock.scriptRun({ type: "status", status: "in_progress", polls: 100 });
+    const run = await Run.create(ctx, thread, { assistant: support });
+    const { id } = (await (
+      await send("POST", "/threads", undefined, "evil")
+    ).json()) as { id: string };
+
+    for (const [method, path] of [
+      ["GET", ""],
+      ["POST", "/cancel"],
+      ["GET", "/events"],
+    ] as const) {
+      const response = await send(
+        method,
+        `/threads/${id}/runs/${run.id}${path}`,
+        undefined,
+        "evil",
+      );
+      assert.equal(response.status, 404, `${method} ${path}`);
+    }
+    assert.equal(mock.getRun(run.id).status, "queued");
+    run.endPolling();
+  });
+
+  it("polls runs started elsewhere once, until their streams are closed", async () => {
+    const { clock, mock, send, handler, support } = await setup();
+    const { id } = (await (await send("POST", "/threads")).json()) as {
+      id: string;
+    };
+    await send("POST", `/threads/${id}/messages`, { content: "Hi" });
+    mock.scriptRun({ type: "status", status: "in_progress", polls: 100 });
+    // Started by another process, so nothing polls it
+    const run = await mock.client.beta.threads.runs.create(id, {
+      assistant_id: support.id,
+    });
+
+    const open = async () => {
+      const controller = new AbortController();
+      const response = await handler(
+        new Request(
+          `http://localhost/api/threads/${id}/runs/${run.id}/events`,
+          {
+            headers: { "x-tenant": "acme" },
+            signal: controller.signal,
+          },
+        ),
+      );
+      assert.equal(response.status, 200);
+      return controller;
+    };
+    const retrieves = () =>
+      mock.calls.filter((call) => call === "beta.threads.runs.retrieve").length;
+    const streams = [await open(), await open()];
+    const before = retrieves();
+    await clock.advance(3000);
+    assert.equal(retrieves() - before, 3);
+
+    for (const controller of streams) controller.abort();
+    const after = retrieves();
+    await clock.advance(3000);
+    assert.equal(retrieves(), after);
+  });
+
+  it("streams runs of the Context without dispatching their tool calls again", async () => {
+    const { clock, mock, ctx, send, handler, support } = await setup();
+    let calls = 0;
+    ctx.tools.register({
+      name: "lookup",
+      parameters: { type: "object" },
+      handler: () => {
+        calls++;
+        return "found";
+      },
+    });
+    const { id } = (await (await send("POST", "/threads")).json()) as {
+      id: string;
+    };
+    mock.scriptRun(
+      { type: "status", status: "in_progress", polls: 1 },
+      { type: "tool_calls", calls: [{ name: "lookup", arguments: {} }] },
+      { type: "reply", text: "Found it" },
+    );
+    const run = await Run.create(ctx, await Thread.load(ctx, id), {
+      assistant: support,
+    });
+
+    const response = await handler(
+      new Request(`http://localhost/api/threads/${id}/runs/${run.id}/events`, {
+        headers: { "x-tenant": "acme" },
+      }),
+    );
+    const body = await clock.runUntil(response.text());
+    assert.ok(body.includes("event: done"));
+    assert.equal(calls, 1);
+    assert.equal(
+      mock.calls.filter(
+        (call) => call === "beta.threads.runs.submitToolOutputs",
+      ).length,
+      1,
+    );
+  });
+});
@@ -0,0 +1,132 @@
+import * as assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+
+import {
+  Assistant,
+  Context,
+  fixedPolling,
+  MemoryRunJournalStorage,
+  Run,
+  RunJournalStorage,
+  Thread,
+  VirtualClock,
+} from "../index.js";
+import { MockBackend } from "../mock.js";
+import { JsonFileRunJournalStorage } from "../node.js";
+
+/** A backend, and "processes" that share it and the journal storage */
+const setup = () => {
+  const clock = new VirtualClock();
+  const mock = new MockBackend({ clock });
+  const start = (journal: RunJournalStorage, handler: () => string) => {
+    const ctx = new Context(
+      mock.client,
+      {},
+      { clock, journal, polling: { strategy: fixedPolling(1000) } },
+    );
+    ctx.tools.register({
+      name: "charge",
+      parameters: { type: "object" },
+      handler,
+    });
+    return ctx;
+  };
+  const submissions = () =>
+    mock.calls.filter((call) => call === "beta.threads.runs.submitToolOutputs")
+      .length;
+  return { clock, mock, start, submissions };
+};
+
+describe("RunJournal", () => {
+  it("resumes runs and submits journaled outputs without calling handlers again", async () => {
+    const { clock, mock, start, submissions } = setup();
+    const journal = new MemoryRunJournalStorage();
+    const first = start(journal, () => "charged once");
+    const assistant = await Assistant.create(first, { model: "gpt-4" });
+    const thread = await Thread.create(first, {});
+    mock.scriptRun(
+      { type: "tool_calls", calls: [{ name: "charge", arguments: {} }] },
+      { type: "reply", text: "Done" },
+    );
+
+    // The process dies while submitting the outputs
+    const runs = mock.client.beta.threads.runs;
+    const submit = runs.submitToolOutputs;
+    runs.submitToolOutputs = (() =>
+      Promise.reject(new Error("Crashed"))) as unknown as typeof submit;
+    const run = await Run.create(first, thread, { assistant });
+    await assert.rejects(clock.runUntil(run.waitUntilFinished()), /Crashed/);
+    runs.submitToolOutputs = submit;
+    assert.deepEqual(
+      Object.values((await first.journal.get(run.id))!.outputs),
+      ["charged once"],
+    );
+
+    let calls = 0;
+    const second = start(journal, () => `charged ${++calls} times`);
+    const [resumed] = await second.resumeActiveRuns();
+    assert.equal(resumed?.id, run.id);
+    assert.equal(
+      await clock.runUntil(resumed.waitUntilFinished()),
+      "completed",
+    );
+    assert.equal(calls, 0);
+    assert.equal(submissions(), 1);
+    const [step] = (await resumed.listSteps({}, { order: "asc" })).data;
+    assert.equal(step?.functionCalls[0]?.function.output, "charged once");
+    await new Promise((resolve) => setImmediate(resolve));
+    assert.deepEqual(await second.journal.entries(), []);
+
+    // Nothing is left to resume
+    assert.deepEqual(await start(journal, () => "").resumeActiveRuns(), []);
+  });
+
+  it("doesn't submit again when the outputs were submitted before the restart", async () => {
+    const { clock, mock, start, submissions } = setup();
+    const dir = await mkdtemp(join(tmpdir(), "journal-"));
+    try {
+      const journal = new JsonFileRunJournalStorage(join(dir, "runs.json"));
+      const first = start(journal, () => "charged");
+      const assistant = await Assistant.create(first, { model: "gpt-4" });
+      const thread = await Thread.create(first, {});
+      mock.scriptRun(
+        { type: "status", status: "in_progress", polls: 3 },
+        { type: "tool_calls", calls: [{ name: "charge", arguments: {} }] },
+      );
+      const run = await Run.create(first, thread, { assistant });
+      // The outputs are submitted, then the process dies before the journal is updated
+      run.on("toolOutputsSubmitted", () => run.endPolling());
+      await clock.advance(10_000);
+      await first.journal.recordOutputs(run, [
+        { tool_call_id: "call_old", output: "charged" },
+      ]);
+      assert.equal(submissions(), 1);
+
+      const second = start(journal, () => "charged again");
+      assert.deepEqual(await second.resumeActiveRuns(), []);
+      assert.equal(submissions(), 1);
+      assert.deepEqual(await second.journal.entries(), []);
+    } finally {
+      await rm(dir, { recursive: true });
+    }
+  });
+
+  it("reads the storage again after a failed read", async () => {
+    const storage = new MemoryRunJournalStorage();
+    let reads = 0;
+    const flaky: RunJournalStorage = {
+      read: () => {
+        if (++reads === 1) throw new Error("Storage unavailable");
+        return storage.read();
+      },
+      write: (entries) => storage.write(entries),
+    };
+    const ctx = new Context(setup().mock.client, {}, { journal: flaky });
+    await assert.rejects(() => ctx.journal.entries(), /Storage unavailable/);
+    assert.deepEqual(await ctx.journal.entries(), []);
+    assert.equal(reads, 2);
+  });
+});
@@ -0,0 +1,103 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import {
+  Assistant,
+  Context,
+  fixedPolling,
+  Message,
+  Run,
+  Thread,
+  VirtualClock,
+} from "../index.js";
+import { MockBackend } from "../mock.js";
+
+const setup = () => {
+  const clock = new VirtualClock();
+  const mock = new MockBackend({ clock });
+  const ctx = new Context(
+    mock.client,
+    {},
+    { clock, polling: { strategy: fixedPolling(1000) } },
+  );
+  return { clock, mock, ctx };
+};
+
+describe("MockBackend", () => {
+  it("runs scripted lifecycles on a virtual clock", async () => {
+    const { clock, mock, ctx } = setup();
+    ctx.tools.register<{ city: string }>({
+      name: "getWeather",
+      parameters: {
+        type: "object",
+        properties: { city: { type: "string" } },
+        required: ["city"],
+      },
+      handler: ({ city }) => `Sunny in ${city}`,
+    });
+    const assistant = await Assistant.create(ctx, { model: "gpt-4" });
+    mock.scriptRun(
+      { type: "status", status: "in_progress", polls: 2 },
+      {
+        type: "tool_calls",
+        calls: [{ name: "getWeather", arguments: { city: "Oslo" } }],
+      },
+      { type: "reply", text: "It's sunny in Oslo" },
+    );
+
+    const run = await Thread.createAndRun(ctx, {
+      assistant,
+      thread: { messages: [{ role: "user", content: "Weather?" }] },
+    });
+    const statuses: string[] = [];
+    run.on("statusChanged", (status) => statuses.push(status));
+
+    assert.equal(await clock.runUntil(run.waitUntilFinished()), "completed");
+    assert.deepEqual(statuses, ["in_progress", "requires_action", "completed"]);
+    // Two polls in progress, one requiring action, one after submitting the outputs
+    assert.equal(clock.now(), 4000);
+
+    const [reply] = (await run.thread.messages()).data;
+    assert.equal(reply?.role, "assistant");
+    assert.equal(reply?.wrappedValue.run_id, run.id);
+    const steps = (await run.listSteps({}, { order: "asc" })).data;
+    assert.deepEqual(
+      steps.map((step) => step.functionCalls[0]?.function.output ?? step.type),
+      ["Sunny in Oslo", "message_creation"],
+    );
+  });
+
+  it("paginates, fails runs and rejects concurrent runs", async () => {
+    const { clock, mock, ctx } = setup();
+    const assistant = await Assistant.create(ctx, { model: "gpt-4" });
+    const thread = await Thread.create(ctx, {});
+    for (const content of ["one", "two", "three"]) {
+      await Message.create(ctx, thread, { role: "user", content });
+    }
+    assert.equal((await thread.messages()).data.length, 3);
+    const first = await mock.client.beta.threads.messages.list(thread.id, {
+      limit: 2,
+      order: "asc",
+    });
+    assert.ok(first.hasNextPage());
+    const second = await first.getNextPage();
+    assert.deepEqual(
+      [...first.data, ...second.data].map((m) =>
+        m.content[0]?.type === "text" ? m.content[0].text.value : null,
+      ),
+      ["one", "two", "three"],
+    );
+    assert.ok(!second.hasNextPage());
+
+    mock.scriptRun({ type: "fail", message: "Boom" });
+    const run = await Run.create(ctx, thread, { assistant });
+    await assert.rejects(
+      mock.client.beta.threads.runs.create(thread.id, {
+        assistant_id: assistant.id,
+      }),
+      /already has an active run/,
+    );
+    assert.equal(await clock.runUntil(run.waitUntilFinished()), "failed");
+    assert.equal(run.wrappedValue.last_error?.message, "Boom");
+  });
+});
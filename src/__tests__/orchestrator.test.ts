@@ -0,0 +1,123 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import {
+  Assistant,
+  Context,
+  fixedPolling,
+  MaxHopsExceededError,
+  Orchestrator,
+  Thread,
+  VirtualClock,
+} from "../index.js";
+import { MockBackend } from "../mock.js";
+
+const setup = async () => {
+  const clock = new VirtualClock();
+  const mock = new MockBackend({ clock });
+  const ctx = new Context(
+    mock.client,
+    {},
+    { clock, polling: { strategy: fixedPolling(1000) } },
+  );
+  const triage = await Assistant.create(ctx, {
+    model: "gpt-4",
+    description: "Routes questions",
+  });
+  const billing = await Assistant.create(ctx, {
+    model: "gpt-4",
+    instructions: "Answer billing questions",
+    description: "Invoices and refunds",
+  });
+  const thread = await Thread.create(ctx, {
+    messages: [{ role: "user", content: "Where is my refund?" }],
+  });
+  return { clock, mock, ctx, triage, billing, thread };
+};
+
+describe("Orchestrator", () => {
+  it("hands off with the handoff tool and traces the messages", async () => {
+    const { clock, mock, ctx, triage, billing, thread } = await setup();
+    mock.scriptRun(
+      { type: "reply", text: "Let me get billing." },
+      {
+        type: "tool_calls",
+        calls: [
+          {
+            name: "handoff",
+            arguments: { to: "billing", context: "Refund for order 42" },
+          },
+        ],
+      },
+      { type: "complete" },
+    );
+    mock.scriptRun({ type: "reply", text: "Your refund is on its way." });
+
+    const orchestrator = new Orchestrator(ctx, {
+      assistants: { triage, billing },
+    });
+    const handoffs: string[] = [];
+    orchestrator.on("handoff", ({ from, to }) =>
+      handoffs.push(`${from}->${to}`),
+    );
+    const result = await clock.runUntil(orchestrator.run(thread, "triage"));
+
+    assert.deepEqual(handoffs, ["triage->billing"]);
+    assert.deepEqual(
+      result.trace.map((hop) => [hop.key, hop.messages.map((m) => m.text)]),
+      [
+        ["triage", ["Let me get billing."]],
+        ["billing", ["Your refund is on its way."]],
+      ],
+    );
+    const [first, second] = result.trace;
+    assert.deepEqual(first?.handoff, {
+      to: "billing",
+      context: "Refund for order 42",
+      from: "triage",
+      via: "tool",
+    });
+    assert.equal(second?.from, first?.handoff);
+    assert.equal(result.last, second);
+
+    const tool = mock.getRun(first.run.id).tools[0];
+    assert.equal(tool?.type === "function" && tool.function.name, "handoff");
+    assert.match(
+      (tool?.type === "function" && tool.function.description) || "",
+      /billing: Invoices and refunds/,
+    );
+    assert.equal(
+      mock.getRun(second.run.id).instructions,
+      "Answer billing questions\n\nThe triage assistant handed this conversation off to you.\nContext: Refund for order 42",
+    );
+  });
+
+  it("routes with a router function and caps the hops", async () => {
+    const { clock, mock, ctx, triage, billing, thread } = await setup();
+    for (let i = 0; i < 3; i++) mock.scriptRun({ type: "reply", text: "Hi" });
+
+    const router = new Orchestrator(ctx, {
+      assistants: { triage, billing },
+      router: (hop, trace) =>
+        trace.length < 2 ? { to: "billing", context: "Refund" } : null,
+    });
+    const result = await clock.runUntil(router.run(thread, "triage"));
+    assert.deepEqual(
+      result.trace.map((hop) => hop.key),
+      ["triage", "billing"],
+    );
+    assert.equal(result.trace[0]?.handoff?.via, "router");
+    assert.equal(mock.getRun(result.trace[0]!.run.id).tools.length, 0);
+    assert.equal(result.messages.length, 2);
+
+    const pingPong = new Orchestrator(ctx, {
+      assistants: { triage, billing },
+      router: (hop) => ({ to: hop.key === "triage" ? "billing" : "triage" }),
+      maxHops: 1,
+    });
+    await assert.rejects(
+      clock.runUntil(pingPong.run(thread, "triage")),
+      (err) => err instanceof MaxHopsExceededError && err.trace.length === 1,
+    );
+  });
+});
@@ -0,0 +1,179 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { OpenAI } from "openai";
+
+import {
+  Context,
+  fixedPolling,
+  noopLogger,
+  Run,
+  Thread,
+  VirtualClock,
+} from "../index.js";
+
+const run = (status: OpenAI.Beta.Threads.Run["status"]) => ({
+  id: "run_1",
+  object: "thread.run",
+  thread_id: "thread_1",
+  status,
+});
+
+/** Client whose runs.retrieve returns (or throws) the given responses in order */
+const createClient = (responses: unknown[]) => {
+  const calls = { retrieve: 0, cancel: 0 };
+  const client = {
+    beta: {
+      threads: {
+        retrieve: () => Promise.resolve({ id: "thread_1" }),
+        runs: {
+          retrieve: () => {
+            const response = responses[calls.retrieve++] ?? run("in_progress");
+            return response instanceof Error
+              ? Promise.reject(response)
+              : Promise.resolve(response);
+          },
+          cancel: () => {
+            calls.cancel++;
+            return Promise.resolve(run("cancelling"));
+          },
+        },
+      },
+    },
+  } as unknown as OpenAI;
+  return { client, calls };
+};
+
+const setup = (responses: unknown[]) => {
+  const { client, calls } = createClient(responses);
+  const ctx = new Context(
+    client,
+    {},
+    { polling: { strategy: fixedPolling(1) }, logger: noopLogger },
+  );
+  ctx.cache.set("run", "run_1", run("queued"));
+  const created = new Run(ctx, new Thread(ctx, "thread_1"), "run_1");
+  return { client, ctx, created, calls };
+};
+
+describe("Run polling", () => {
+  it("retries transient errors", async () => {
+    const rateLimited = OpenAI.APIError.generate(429, {}, "Rate limited", {});
+    const { created, calls } = setup([
+      rateLimited,
+      run("in_progress"),
+      rateLimited,
+      run("completed"),
+    ]);
+    assert.equal(await created.waitUntilFinished(), "completed");
+    assert.equal(calls.retrieve, 4);
+  });
+
+  it("fails on other errors", async () => {
+    const notFound = OpenAI.APIError.generate(404, {}, "Not found", {});
+    const { created } = setup([notFound]);
+    await assert.rejects(created.waitUntilFinished(), notFound);
+  });
+
+  it("keeps the terminal status when the thread can't be refreshed", async () => {
+    const { client, ctx, created } = setup([run("completed")]);
+    const logged: string[] = [];
+    ctx.logger = { ...noopLogger, error: (message) => logged.push(message) };
+    const notFound = OpenAI.APIError.generate(404, {}, "Not found", {});
+    client.beta.threads.retrieve = () => Promise.reject(notFound) as never;
+    assert.equal(await created.waitUntilFinished(), "completed");
+    assert.ok(!created.polling);
+    assert.deepEqual(logged, [
+      "Failed to refresh Thread id thread_1 after Run id run_1 has finished",
+    ]);
+  });
+
+  it("times out", async () => {
+    const { created } = setup([]);
+    created.pollingOptions = { timeoutMs: 10 };
+    await assert.rejects(created.waitUntilFinished(), /timed out/);
+  });
+
+  it("stops polling and cancels the run when aborted", async () => {
+    const { created, calls } = setup([]);
+    const controller = new AbortController();
+    created.beginPolling(
+      {},
+      { signal: controller.signal, cancelOnAbort: true },
+    );
+    const finished = created.waitUntilFinished();
+    controller.abort(new Error("Aborted"));
+    await assert.rejects(finished, /Aborted/);
+    assert.equal(calls.cancel, 1);
+    assert.ok(!created.polling);
+  });
+});
+
+describe("RunScheduler", () => {
+  it("batches runs of the same thread into one list request", async () => {
+    const calls = { retrieve: 0, list: 0 };
+    const client = {
+      beta: {
+        threads: {
+          retrieve: () => Promise.resolve({ id: "thread_1" }),
+          runs: {
+            retrieve: () => {
+              calls.retrieve++;
+              return Promise.resolve(run("completed"));
+            },
+            list: () => {
+              calls.list++;
+              return Promise.resolve({
+                data: [
+                  { ...run("completed"), id: "run_1" },
+                  { ...run("completed"), id: "run_2" },
+                ],
+              });
+            },
+          },
+        },
+      },
+    } as unknown as OpenAI;
+    const ctx = new Context(
+      client,
+      {},
+      {
+        polling: { strategy: fixedPolling(1) },
+      },
+    );
+    const thread = new Thread(ctx, "thread_1");
+    const runs = ["run_1", "run_2"].map((id) => {
+      ctx.cache.set("run", id, { ...run("queued"), id });
+      return new Run(ctx, thread, id);
+    });
+    const statuses = await Promise.all(
+      runs.map((run) => run.waitUntilFinished()),
+    );
+    assert.deepEqual(statuses, ["completed", "completed"]);
+    assert.deepEqual(calls, { retrieve: 0, list: 1 });
+  });
+
+  it("limits the request rate across runs", async () => {
+    const { client, calls } = createClient([]);
+    const clock = new VirtualClock();
+    const ctx = new Context(
+      client,
+      {},
+      {
+        clock,
+        polling: { strategy: fixedPolling(0) },
+        scheduler: { maxRequestsPerSecond: 5, batchThreshold: Infinity },
+      },
+    );
+    const runs = ["thread_1", "thread_2", "thread_3"].map((threadId) => {
+      ctx.cache.set("run", `run_${threadId}`, run("queued"));
+      const polled = new Run(ctx, new Thread(ctx, threadId), `run_${threadId}`);
+      polled.beginPolling();
+      return polled;
+    });
+    await clock.advance(1000);
+    runs.forEach((run) => run.endPolling());
+    // 5 requests of burst capacity, then 5 per second
+    assert.equal(calls.retrieve, 10);
+  });
+});
@@ -0,0 +1,110 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { OpenAI } from "openai";
+
+import { Context, File, Message, Thread } from "../index.js";
+
+const setup = () => {
+  const client = { baseURL: "https://api.test/v1" } as unknown as OpenAI;
+  const ctx = new Context(client);
+  const files = {
+    file_policy: "policy.pdf",
+    file_report: "report.csv",
+    file_chart: "chart.png",
+  };
+  for (const [id, filename] of Object.entries(files)) {
+    ctx.cache.set(File.object, id, { id, filename, bytes: 1 });
+  }
+
+  const value =
+    "Vacation is 25 days【1†source】.\nDownload [the report](sandbox:/mnt/data/report.csv).";
+  const marker = "【1†source】";
+  const path = "sandbox:/mnt/data/report.csv";
+  ctx.cache.set(Message.object, "msg_1", {
+    id: "msg_1",
+    thread_id: "thread_1",
+    role: "assistant",
+    content: [
+      {
+        type: "text",
+        text: {
+          value,
+          annotations: [
+            {
+              type: "file_path",
+              text: path,
+              start_index: value.indexOf(path),
+              end_index: value.indexOf(path) + path.length,
+              file_path: { file_id: "file_report" },
+            },
+            {
+              type: "file_citation",
+              text: marker,
+              start_index: value.indexOf(marker),
+              end_index: value.indexOf(marker) + marker.length,
+              file_citation: {
+                file_id: "file_policy",
+                quote: "25 days of <paid> leave",
+              },
+            },
+          ],
+        },
+      },
+      { type: "image_file", image_file: { file_id: "file_chart" } },
+    ],
+  });
+  return new Message(ctx, new Thread(ctx, "thread_1"), "msg_1");
+};
+
+describe("Message content", () => {
+  it("returns the text, images and citations", async () => {
+    const message = setup();
+    assert.match(message.text, /^Vacation is 25 days【1†source】\./);
+    assert.deepEqual(message.images, ["file_chart"]);
+    const [citation, ...rest] = await message.citations();
+    assert.equal(rest.length, 0);
+    assert.equal(citation?.index, 1);
+    assert.equal(citation?.file.filename, "policy.pdf");
+    assert.equal(citation?.quote, "25 days of <paid> leave");
+  });
+
+  it("renders Markdown, HTML and plain text", async () => {
+    const message = setup();
+    assert.equal(
+      await message.render(),
+      [
+        "Vacation is 25 days[^1].",
+        "Download [the report](https://api.test/v1/files/file_report/content).",
+        "",
+        "![chart.png](https://api.test/v1/files/file_chart/content)",
+        "",
+        '[^1]: [policy.pdf](https://api.test/v1/files/file_policy/content): "25 days of <paid> leave"',
+      ].join("\n"),
+    );
+
+    const fileUrl = (file: File) => `/downloads/${file.id}?a=1&b=2`;
+    assert.equal(
+      await message.render({ format: "html", citationStyle: "links", fileUrl }),
+      [
+        '<p>Vacation is 25 days<a href="/downloads/file_policy?a=1&amp;b=2">policy.pdf</a>.<br>' +
+          'Download <a href="/downloads/file_report?a=1&amp;b=2" download>the report</a>.</p>',
+        '<img src="/downloads/file_chart?a=1&amp;b=2" alt="chart.png">',
+      ].join("\n"),
+    );
+    assert.match(
+      await message.render({ format: "html", fileUrl }),
+      /25 days<sup><a href="#citation-1">\[1\]<\/a><\/sup>.*<li id="citation-1"><a href="[^"]+">policy\.pdf<\/a>: <q>25 days of &lt;paid&gt; leave<\/q><\/li>/s,
+    );
+
+    assert.equal(
+      await message.render({ format: "plain", citationStyle: "none", fileUrl }),
+      [
+        "Vacation is 25 days.",
+        "Download the report (/downloads/file_report?a=1&b=2).",
+        "",
+        "[Image: chart.png]",
+      ].join("\n"),
+    );
+  });
+});
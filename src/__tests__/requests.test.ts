@@ -0,0 +1,151 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { OpenAI } from "openai";
+
+import {
+  Context,
+  parseResetDuration,
+  rateLimiter,
+  RequestPipeline,
+  retry,
+  VirtualClock,
+} from "../index.js";
+
+/** Resolves like an APIPromise, with response headers */
+const respond = <T>(data: T, headers: Record<string, string> = {}) =>
+  Object.assign(Promise.resolve(data), {
+    withResponse: () =>
+      Promise.resolve({ data, response: { headers: new Headers(headers) } }),
+  });
+
+describe("RequestPipeline", () => {
+  it("limits concurrency per object type", async () => {
+    const clock = new VirtualClock();
+    const pipeline = new RequestPipeline(clock).use(
+      rateLimiter({ objects: { run: { maxConcurrency: 1 } } }),
+    );
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const send = async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise<void>((resolve) => clock.setTimeout(resolve, 5));
+      inFlight--;
+      return "ok";
+    };
+    let throttled = 0;
+    pipeline.on("throttled", () => throttled++);
+
+    await clock.runUntil(
+      Promise.all([
+        pipeline.send({ object: "run", operation: "retrieve" }, send),
+        pipeline.send({ object: "run", operation: "retrieve" }, send),
+        pipeline.send({ object: "run", operation: "retrieve" }, send),
+      ]),
+    );
+    assert.equal(maxInFlight, 1);
+    assert.equal(throttled, 2);
+
+    // Messages have their own (unlimited) budget
+    maxInFlight = 0;
+    await clock.runUntil(
+      Promise.all([
+        pipeline.send({ object: "run", operation: "retrieve" }, send),
+        pipeline.send({ object: "message", operation: "create" }, send),
+      ]),
+    );
+    assert.equal(maxInFlight, 2);
+  });
+
+  it("pauses when the remaining requests run out", async () => {
+    const clock = new VirtualClock();
+    const pipeline = new RequestPipeline(clock).use(rateLimiter());
+    const resets: number[] = [];
+    pipeline.on("rateLimited", (resetMs) => resets.push(resetMs));
+
+    await pipeline.send({ object: "thread", operation: "create" }, () =>
+      respond("first", {
+        "x-ratelimit-remaining-requests": "0",
+        "x-ratelimit-reset-requests": "50ms",
+      }),
+    );
+    const result = await clock.runUntil(
+      pipeline.send({ object: "thread", operation: "create" }, () =>
+        respond("second"),
+      ),
+    );
+    assert.equal(result, "second");
+    assert.deepEqual(resets, [50]);
+    assert.equal(clock.now(), 50);
+  });
+
+  it("retries 429 responses after retry-after, then with backoff", async () => {
+    const clock = new VirtualClock();
+    const pipeline = new RequestPipeline(clock).use(
+      retry({ maxRetries: 2, initialDelayMs: 1000 }),
+    );
+    const delays: number[] = [];
+    pipeline.on("retrying", (_request, _err, delayMs) => delays.push(delayMs));
+    let attempts = 0;
+    const result = await clock.runUntil(
+      pipeline.send({ object: "assistant", operation: "retrieve" }, () => {
+        attempts++;
+        if (attempts === 1) {
+          return Promise.reject(
+            OpenAI.APIError.generate(429, {}, "Rate limited", {
+              "retry-after-ms": "5",
+            }),
+          );
+        }
+        if (attempts === 2) {
+          return Promise.reject(
+            OpenAI.APIError.generate(503, {}, "Unavailable", {}),
+          );
+        }
+        return Promise.resolve("ok");
+      }),
+    );
+    assert.equal(result, "ok");
+    assert.deepEqual(delays, [5, 2000]);
+    assert.equal(clock.now(), 2005);
+  });
+
+  it("doesn't retry client errors", async () => {
+    const pipeline = new RequestPipeline().use(retry());
+    let attempts = 0;
+    await assert.rejects(
+      pipeline.send({ object: "assistant", operation: "retrieve" }, () => {
+        attempts++;
+        return Promise.reject(
+          OpenAI.APIError.generate(404, {}, "Not found", {}),
+        );
+      }),
+    );
+    assert.equal(attempts, 1);
+  });
+
+  it("covers cache fetches made through the Context", async () => {
+    const client = {
+      beta: {
+        threads: { retrieve: () => respond({ id: "thread_1" }) },
+      },
+    } as unknown as OpenAI;
+    const ctx = new Context(client);
+    const operations: string[] = [];
+    ctx.requests.on("request", (request) =>
+      operations.push(`${request.object}.${request.operation}`),
+    );
+    await ctx.cache.fetch("thread", "thread_1");
+    assert.deepEqual(operations, ["thread.retrieve"]);
+  });
+});
+
+describe("parseResetDuration", () => {
+  it("parses durations", () => {
+    assert.equal(parseResetDuration("6m0s"), 360_000);
+    assert.equal(parseResetDuration("1.5s"), 1500);
+    assert.equal(parseResetDuration("20ms"), 20);
+    assert.equal(parseResetDuration(null), null);
+  });
+});
@@ -0,0 +1,121 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { OpenAI } from "openai";
+
+import { Context, fixedPolling, Run, RunStep, Thread } from "../index.js";
+
+type RawRunStep = OpenAI.Beta.Threads.Runs.RunStep;
+
+const run = (status: OpenAI.Beta.Threads.Run["status"]) => ({
+  id: "run_1",
+  object: "thread.run",
+  thread_id: "thread_1",
+  status,
+});
+
+const codeStep = (status: RawRunStep["status"]) =>
+  ({
+    id: "step_1",
+    object: "thread.run.step",
+    run_id: "run_1",
+    thread_id: "thread_1",
+    type: "tool_calls",
+    status,
+    created_at: 0,
+    completed_at: null,
+    last_error: null,
+    metadata: null,
+    step_details: {
+      type: "tool_calls",
+      tool_calls: [
+        {
+          id: "call_1",
+          type: "code_interpreter",
+          code_interpreter: {
+            input: "print(1 + 1)",
+            outputs: [{ type: "logs", logs: "2" }],
+          },
+        },
+      ],
+    },
+  }) as RawRunStep;
+
+const messageStep = {
+  ...codeStep("completed"),
+  id: "step_2",
+  type: "message_creation",
+  step_details: {
+    type: "message_creation",
+    message_creation: { message_id: "msg_1" },
+  },
+} as RawRunStep;
+
+/** Each poll returns the next run and list of steps (newest first, like the API) */
+const createClient = (polls: [ReturnType<typeof run>, RawRunStep[]][]) => {
+  let retrieved = 0;
+  let listed = 0;
+  return {
+    beta: {
+      threads: {
+        retrieve: () => Promise.resolve({ id: "thread_1" }),
+        runs: {
+          retrieve: () => Promise.resolve(polls[retrieved++]![0]),
+          steps: {
+            list: () =>
+              Promise.resolve({
+                data: polls[listed++]![1],
+                hasNextPage: () => false,
+              }),
+          },
+        },
+      },
+    },
+  } as unknown as OpenAI;
+};
+
+describe("RunStep", () => {
+  it("tracks steps while polling and emits step events", async () => {
+    const client = createClient([
+      [run("in_progress"), [codeStep("in_progress")]],
+      [run("in_progress"), [codeStep("completed")]],
+      [run("completed"), [messageStep, codeStep("completed")]],
+    ]);
+    const ctx = new Context(
+      client,
+      {},
+      { polling: { strategy: fixedPolling(1) } },
+    );
+    ctx.cache.set("run", "run_1", run("queued"));
+    const created = new Run(ctx, new Thread(ctx, "thread_1"), "run_1");
+
+    const events: string[] = [];
+    const steps: RunStep[] = [];
+    created.on("stepCreated", (step) => {
+      events.push(`created ${step.id}`);
+      steps.push(step);
+    });
+    created.on("stepCompleted", (step) => events.push(`completed ${step.id}`));
+    created.beginPolling();
+
+    assert.equal(await created.waitUntilFinished(), "completed");
+    assert.deepEqual(events, [
+      "created step_1",
+      "completed step_1",
+      "created step_2",
+      "completed step_2",
+    ]);
+
+    const [code, message] = steps;
+    assert.equal(code?.isToolCalls, true);
+    assert.equal(
+      code?.codeInterpreterCalls[0]?.code_interpreter.input,
+      "print(1 + 1)",
+    );
+    assert.deepEqual(code?.codeInterpreterLogs, ["2"]);
+    assert.deepEqual(code?.functionCalls, []);
+    assert.equal(message?.isMessageCreation, true);
+    assert.equal(message?.message?.id, "msg_1");
+    assert.ok(ctx.cache.get("step", "step_2"));
+  });
+});
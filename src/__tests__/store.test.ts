@@ -0,0 +1,111 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import {
+  Assistant,
+  Context,
+  fixedPolling,
+  Message,
+  observeAssistant,
+  observeRun,
+  observeThreadMessages,
+  Run,
+  Thread,
+  VirtualClock,
+} from "../index.js";
+import { MockBackend } from "../mock.js";
+import { createHooks } from "../react.js";
+
+const setup = async () => {
+  const clock = new VirtualClock();
+  const mock = new MockBackend({ clock });
+  const ctx = new Context(
+    mock.client,
+    {},
+    { clock, polling: { strategy: fixedPolling(1000) } },
+  );
+  const assistant = await Assistant.create(ctx, { model: "gpt-4" });
+  const thread = await Thread.create(ctx, {});
+  return { clock, mock, ctx, assistant, thread };
+};
+
+describe("stores", () => {
+  it("observes the messages of a thread with immutable snapshots", async () => {
+    const { clock, mock, ctx, assistant, thread } = await setup();
+    const store = observeThreadMessages(ctx, thread);
+    assert.deepEqual(store.get(), []);
+    const snapshots: (typeof store extends { get(): infer T } ? T : never)[] =
+      [];
+    const unsubscribe = store.subscribe((snapshot) => snapshots.push(snapshot));
+
+    await Message.create(ctx, thread, { role: "user", content: "One" });
+    await Message.create(ctx, thread, { role: "user", content: "Two" });
+    await Message.create(ctx, await Thread.create(ctx, {}), {
+      role: "user",
+      content: "Elsewhere",
+    });
+    assert.equal(snapshots.length, 2);
+    const [first, second] = snapshots;
+    assert.equal(second?.[0], first?.[0]);
+    assert.equal(store.get(), second);
+    assert.ok(Object.isFrozen(second) && Object.isFrozen(second?.[0]));
+    assert.throws(() => {
+      (second![0]!.content as unknown[]).push("changed");
+    }, TypeError);
+
+    mock.scriptRun({ type: "reply", text: "Three" });
+    const run = await Run.create(ctx, thread, { assistant });
+    await clock.runUntil(run.waitUntilFinished());
+    await thread.messages();
+    assert.deepEqual(
+      store.get().map((message) => message.role),
+      ["user", "user", "assistant"],
+    );
+    assert.equal(snapshots.length, 3);
+
+    unsubscribe();
+    await Message.create(ctx, thread, { role: "user", content: "Four" });
+    assert.equal(snapshots.length, 3);
+    assert.equal(store.get().length, 4);
+  });
+
+  it("observes runs and assistants, also through hooks", async () => {
+    const { clock, mock, ctx, assistant, thread } = await setup();
+    const missing = observeAssistant(ctx, "asst_missing");
+    assert.equal(missing.get(), null);
+    const store = observeAssistant(ctx, assistant.id);
+    const before = store.get();
+    assert.equal(before?.name, null);
+    await assistant.update({ name: "Helper" });
+    assert.equal(store.get()?.name, "Helper");
+    assert.notEqual(store.get(), before);
+
+    mock.scriptRun({ type: "status", status: "in_progress", polls: 1 });
+    const run = await Run.create(ctx, thread, { assistant });
+    const statuses: string[] = [];
+    observeRun(ctx, run).subscribe((snapshot) =>
+      statuses.push(snapshot!.status),
+    );
+    await clock.runUntil(run.waitUntilFinished());
+    assert.deepEqual(statuses, ["in_progress", "completed"]);
+
+    const { useRun, useAssistant } = createHooks({
+      useSyncExternalStore: (_subscribe, getSnapshot) => getSnapshot(),
+      useMemo: (factory) => factory(),
+    });
+    assert.equal(useRun(ctx, run)?.status, "completed");
+    assert.equal(useAssistant(ctx, assistant.id)?.name, "Helper");
+  });
+
+  it("keeps the snapshot of objects fetched again unchanged", async () => {
+    const { ctx, assistant } = await setup();
+    await assistant.update({ metadata: { tags: "a" } });
+    const store = observeAssistant(ctx, assistant.id);
+    const before = store.get();
+    await assistant.fetch();
+    assert.equal(store.get(), before);
+    await assistant.update({ metadata: { tags: "b" } });
+    assert.notEqual(store.get(), before);
+    assert.deepEqual(store.get()?.metadata, { tags: "b" });
+  });
+});
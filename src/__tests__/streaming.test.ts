@@ -0,0 +1,229 @@
+import * as assert from "node:assert/strict";
+import { createServer } from "node:http";
+import { AddressInfo } from "node:net";
+import { after, before, describe, it } from "node:test";
+
+import { OpenAI } from "openai";
+
+import { Assistant, Context, noopLogger, Run, Thread } from "../index.js";
+
+const thread = {
+  id: "thread_1",
+  object: "thread",
+  created_at: 1700000000,
+  metadata: {},
+} satisfies OpenAI.Beta.Thread;
+
+const run = (
+  status: OpenAI.Beta.Threads.Run["status"],
+  id = "run_1",
+  threadId = thread.id,
+) => ({
+  id,
+  object: "thread.run",
+  thread_id: threadId,
+  assistant_id: "asst_1",
+  status,
+});
+
+const requiresAction = {
+  ...run("requires_action", "run_2"),
+  required_action: {
+    type: "submit_tool_outputs",
+    submit_tool_outputs: {
+      tool_calls: [
+        {
+          id: "call_1",
+          type: "function",
+          function: { name: "lookup", arguments: "{}" },
+        },
+      ],
+    },
+  },
+};
+
+const message = {
+  id: "msg_1",
+  object: "thread.message",
+  thread_id: thread.id,
+  role: "assistant",
+  content: [],
+  file_ids: [],
+  assistant_id: "asst_1",
+  run_id: "run_1",
+  created_at: 1700000000,
+  metadata: {},
+};
+
+const textDelta = (value: string) => ({
+  id: "msg_1",
+  object: "thread.message.delta",
+  delta: { content: [{ index: 0, type: "text", text: { value } }] },
+});
+
+const events: [string, unknown][] = [
+  ["thread.created", thread],
+  ["thread.run.created", run("queued")],
+  ["thread.run.in_progress", run("in_progress")],
+  ["thread.message.created", message],
+  ["thread.message.delta", textDelta("Ahoy")],
+  ["thread.message.delta", textDelta(", matey!")],
+  [
+    "thread.message.completed",
+    {
+      ...message,
+      content: [
+        { type: "text", text: { value: "Ahoy, matey!", annotations: [] } },
+      ],
+    },
+  ],
+  ["thread.run.completed", run("completed")],
+];
+
+/** Event streams by request path */
+const streams: Record<string, [string, unknown][]> = {
+  "/v1/threads/runs": events,
+  [`/v1/threads/${thread.id}/runs`]: [
+    ["thread.run.created", run("queued", "run_2")],
+    ["thread.run.requires_action", requiresAction],
+  ],
+  [`/v1/threads/${thread.id}/runs/run_2/submit_tool_outputs`]: [
+    ["thread.run.in_progress", run("in_progress", "run_2")],
+    ["thread.message.created", { ...message, id: "msg_2", run_id: "run_2" }],
+    ["thread.message.delta", { ...textDelta("It's 42"), id: "msg_2" }],
+    ["thread.run.completed", run("completed", "run_2")],
+  ],
+  // The thread can't be fetched once the run has completed
+  "/v1/threads/thread_gone/runs": [
+    ["thread.run.created", run("queued", "run_3", "thread_gone")],
+    ["thread.run.completed", run("completed", "run_3", "thread_gone")],
+  ],
+  "/v1/threads/thread_broken/runs": [
+    ["thread.run.created", run("queued", "run_4", "thread_broken")],
+    ["error", { error: { message: "Server overloaded" } }],
+  ],
+};
+
+describe("Streaming runs", () => {
+  const bodies: Record<string, unknown> = {};
+  const server = createServer((req, res) => {
+    const url = req.url ?? "";
+    const json = (value: unknown) => {
+      res.writeHead(200, { "content-type": "application/json" });
+      res.end(JSON.stringify(value));
+    };
+    if (req.method === "GET" && url === `/v1/threads/${thread.id}`) {
+      json(thread);
+      return;
+    }
+    if (req.method === "GET" && url === `/v1/threads/${thread.id}/runs/run_2`) {
+      json(requiresAction);
+      return;
+    }
+    const stream = streams[url];
+    if (req.method === "POST" && stream) {
+      let body = "";
+      req.on("data", (chunk: Buffer) => (body += chunk.toString()));
+      req.on("end", () => {
+        bodies[url] = JSON.parse(body);
+        res.writeHead(200, { "content-type": "text/event-stream" });
+        for (const [event, data] of stream) {
+          res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+        }
+        res.end("event: done\ndata: [DONE]\n\n");
+      });
+      return;
+    }
+    res.writeHead(404, { "content-type": "application/json" });
+    res.end(JSON.stringify({ error: { message: "Not found" } }));
+  });
+  let ctx: Context;
+
+  before(async () => {
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+    ctx = new Context(
+      new OpenAI({
+        apiKey: "test",
+        baseURL: `http://127.0.0.1:${port}/v1`,
+        maxRetries: 0,
+      }),
+      {},
+      { logger: noopLogger },
+    );
+    ctx.tools.register({
+      name: "lookup",
+      parameters: { type: "object" },
+      handler: () => "42",
+    });
+  });
+  after(() => server.close());
+
+  it("emits events and text chunks from the event stream", async () => {
+    const statuses: string[] = [];
+    const updated: string[] = [];
+    ctx.cache.emitter("message").on("updated", (_, value) => {
+      updated.push(value.content[0]?.text.value);
+    });
+
+    const created = await Thread.createAndRun(ctx, {
+      assistant: new Assistant(ctx, "asst_1"),
+      stream: true,
+    });
+    created.on("statusChanged", (status) => statuses.push(status));
+    assert.equal(created.thread.id, thread.id);
+    assert.ok(created.streaming);
+
+    const chunks: string[] = [];
+    for await (const chunk of created.textStream()) chunks.push(chunk);
+
+    assert.deepEqual(chunks, ["Ahoy", ", matey!"]);
+    assert.equal(created.status, "completed");
+    assert.ok(statuses.includes("completed"));
+    assert.deepEqual(updated.slice(0, 2), ["Ahoy", "Ahoy, matey!"]);
+    assert.equal(await created.waitUntilFinished(), "completed");
+  });
+
+  it("streams runs created on a thread and their tool outputs", async () => {
+    const created = await Run.create(ctx, new Thread(ctx, thread.id), {
+      assistant: new Assistant(ctx, "asst_1"),
+      stream: true,
+    });
+    assert.ok(created.streaming);
+    const chunks: string[] = [];
+    for await (const chunk of created.textStream()) chunks.push(chunk);
+
+    assert.deepEqual(chunks, ["It's 42"]);
+    assert.equal(await created.waitUntilFinished(), "completed");
+    assert.deepEqual(
+      bodies[`/v1/threads/${thread.id}/runs/run_2/submit_tool_outputs`],
+      {
+        tool_outputs: [{ tool_call_id: "call_1", output: "42" }],
+        stream: true,
+      },
+    );
+  });
+
+  it("ends the run with an error when the stream fails", async () => {
+    const created = await Run.create(ctx, new Thread(ctx, "thread_broken"), {
+      assistant: new Assistant(ctx, "asst_1"),
+      stream: true,
+    });
+    const error = await new Promise((resolve) =>
+      created.once("finished", (err) => resolve(err)),
+    );
+    assert.ok(error instanceof OpenAI.APIError);
+    assert.equal(created.streaming, false);
+  });
+
+  it("keeps the terminal status when the thread can't be refreshed", async () => {
+    const created = await Run.create(ctx, new Thread(ctx, "thread_gone"), {
+      assistant: new Assistant(ctx, "asst_1"),
+      stream: true,
+    });
+    const finished = await new Promise((resolve) =>
+      created.once("finished", (err, status) => resolve([err, status])),
+    );
+    assert.deepEqual(finished, [null, "completed"]);
+  });
+});
@@ -0,0 +1,114 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import {
+  Assistant,
+  Context,
+  fixedPolling,
+  JSONSchema,
+  Message,
+  StructuredOutputError,
+  Thread,
+  VirtualClock,
+} from "../index.js";
+import { MockBackend } from "../mock.js";
+
+const setup = async () => {
+  const clock = new VirtualClock();
+  const mock = new MockBackend({ clock });
+  const ctx = new Context(
+    mock.client,
+    {},
+    { clock, polling: { strategy: fixedPolling(1000) } },
+  );
+  const assistant = await Assistant.create(ctx, { model: "gpt-4" });
+  const thread = await Thread.create(ctx, {
+    messages: [{ role: "user", content: "Extract the city" }],
+  });
+  return { clock, mock, ctx, assistant, thread };
+};
+
+const text = (message: Message | null) => {
+  const part = message?.content[0];
+  return part?.type === "text" ? part.text.value : null;
+};
+
+const citySchema: JSONSchema = {
+  type: "object",
+  properties: { city: { type: "string" } },
+  required: ["city"],
+};
+
+describe("Thread.runForObject", () => {
+  it("answers invalid function calls with the errors until the result is valid", async () => {
+    const { clock, mock, assistant, thread } = await setup();
+    mock.scriptRun(
+      { type: "tool_calls", calls: [{ name: "submit_result", arguments: {} }] },
+      {
+        type: "tool_calls",
+        calls: [{ name: "submit_result", arguments: { city: "Oslo" } }],
+      },
+      { type: "reply", text: "Done" },
+    );
+
+    const result = await clock.runUntil(
+      thread.runForObject<{ city: string }>(assistant, citySchema),
+    );
+    assert.deepEqual(result.object, { city: "Oslo" });
+    assert.equal(result.attempts, 2);
+    assert.equal(result.runs.length, 1);
+    assert.equal(result.toolCall?.function.name, "submit_result");
+    assert.equal(text(result.message), "Done");
+
+    const run = mock.getRun(result.run.id);
+    assert.deepEqual(
+      run.tools.map((tool) => tool.type === "function" && tool.function.name),
+      ["submit_result"],
+    );
+    const steps = (await result.run.listSteps({}, { order: "asc" })).data;
+    const [invalid] = steps[0]!.functionCalls;
+    assert.match(invalid!.function.output!, /missing required property/);
+  });
+
+  it("parses replies with validators and re-prompts the thread", async () => {
+    const { clock, mock, assistant, thread } = await setup();
+    mock.scriptRun({ type: "reply", text: '{"n": "three"}' });
+    mock.scriptRun({ type: "reply", text: '```json\n{"n": 3}\n```' });
+    const validator = {
+      parse: (value: unknown) => {
+        const { n } = value as { n: unknown };
+        if (typeof n !== "number") throw new Error("n must be a number");
+        return { n };
+      },
+    };
+
+    const result = await clock.runUntil(
+      thread.runForObject(assistant, validator),
+    );
+    assert.deepEqual(result.object, { n: 3 });
+    assert.equal(result.attempts, 2);
+    assert.equal(result.runs.length, 2);
+    assert.equal(result.toolCall, null);
+    assert.equal(result.message?.wrappedValue.run_id, result.run.id);
+
+    const messages = await (
+      await thread.messages({}, { order: "asc" })
+    ).map((message) => text(message) ?? "");
+    assert.match(messages[2]!, /n must be a number\nCall submit_result/);
+  });
+
+  it("cancels the run when the retries are used up", async () => {
+    const { clock, mock, assistant, thread } = await setup();
+    mock.scriptRun({
+      type: "tool_calls",
+      calls: [{ name: "submit_result", arguments: { city: 1 } }],
+    });
+
+    const error = await clock
+      .runUntil(thread.runForObject(assistant, citySchema, { maxRetries: 0 }))
+      .catch((err: unknown) => err);
+    assert.ok(error instanceof StructuredOutputError);
+    assert.deepEqual(error.errors, ["$.city: expected string, got integer"]);
+    assert.equal(error.runs[0]?.status, "cancelled");
+  });
+});
@@ -0,0 +1,117 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import {
+  Assistant,
+  Context,
+  fixedPolling,
+  InMemoryExporter,
+  Logger,
+  Run,
+  Thread,
+  VirtualClock,
+} from "../index.js";
+import { MockBackend } from "../mock.js";
+
+const setup = () => {
+  const clock = new VirtualClock();
+  const mock = new MockBackend({ clock });
+  const exporter = new InMemoryExporter();
+  const logs: [string, string][] = [];
+  const log =
+    (level: string) =>
+    (message: string): void => {
+      logs.push([level, message]);
+    };
+  const logger: Logger = {
+    debug: log("debug"),
+    info: log("info"),
+    warn: log("warn"),
+    error: log("error"),
+  };
+  const ctx = new Context(
+    mock.client,
+    {},
+    {
+      clock,
+      polling: { strategy: fixedPolling(1000) },
+      telemetry: exporter,
+      logger,
+    },
+  );
+  return { clock, mock, exporter, logs, ctx };
+};
+
+describe("Telemetry", () => {
+  it("traces requests and run lifecycles", async () => {
+    const { clock, mock, exporter, ctx } = setup();
+    ctx.tools.register({
+      name: "lookup",
+      parameters: { type: "object" },
+      handler: () => "found",
+    });
+    const assistant = await Assistant.create(ctx, { model: "gpt-4" });
+    const thread = await Thread.create(ctx, {});
+    mock.scriptRun(
+      { type: "status", status: "in_progress" },
+      { type: "tool_calls", calls: [{ name: "lookup", arguments: {} }] },
+      { type: "reply", text: "Done" },
+    );
+    const run = await Run.create(ctx, thread, { assistant });
+    assert.equal(await clock.runUntil(run.waitUntilFinished()), "completed");
+
+    const names = exporter.spans.map((span) => span.name);
+    assert.ok(names.includes("openai.assistant.create"));
+    assert.ok(names.includes("openai.run.submitToolOutputs"));
+    const runSpan = exporter.spans.find((span) => span.name === "openai.run")!;
+    assert.equal(runSpan.status, "ok");
+    assert.equal(runSpan.attributes["run.id"], run.id);
+    assert.deepEqual(
+      runSpan.events.map((event) => event.name),
+      ["in_progress", "requires_action", "completed"],
+    );
+    const toolSpan = exporter.spans.find(
+      (span) => span.name === "openai.run.tool_calls",
+    )!;
+    assert.equal(toolSpan.parentSpanId, runSpan.spanId);
+    assert.equal(toolSpan.traceId, runSpan.traceId);
+
+    assert.equal(exporter.sum("openai.run.polls"), 3);
+    assert.equal(exporter.sum("openai.run.duration"), clock.now());
+    const create = exporter.metrics.find(
+      (metric) =>
+        metric.name === "openai.request.duration" &&
+        metric.attributes.operation === "create",
+    );
+    assert.deepEqual(create?.attributes, {
+      object: "assistant",
+      operation: "create",
+      outcome: "ok",
+    });
+  });
+
+  it("records failures and logs polling errors", async () => {
+    const { clock, mock, exporter, logs, ctx } = setup();
+    const assistant = await Assistant.create(ctx, { model: "gpt-4" });
+    const thread = await Thread.create(ctx, {});
+    mock.scriptRun({ type: "fail", code: "rate_limit_exceeded" });
+    const failed = await Run.create(ctx, thread, { assistant });
+    assert.equal(await clock.runUntil(failed.waitUntilFinished()), "failed");
+    assert.equal(
+      exporter.sum("openai.run.failures", { failure: "rate_limit_exceeded" }),
+      1,
+    );
+    const runSpan = exporter.spans.find((span) => span.name === "openai.run")!;
+    assert.equal(runSpan.status, "error");
+
+    const missing = new Run(ctx, thread, "run_missing");
+    await assert.rejects(clock.runUntil(missing.waitUntilFinished()));
+    assert.deepEqual(logs, [
+      ["error", "Error fetching Run id run_missing during polling"],
+    ]);
+    const retrieve = exporter.spans.at(-1)!;
+    assert.equal(retrieve.name, "openai.run.retrieve");
+    assert.equal(retrieve.status, "error");
+    assert.equal(retrieve.attributes["http.status_code"], 404);
+  });
+});
@@ -0,0 +1,199 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { OpenAI } from "openai";
+
+import {
+  ActiveRunPolicy,
+  Assistant,
+  Context,
+  fixedPolling,
+  Message,
+  noopLogger,
+  Run,
+  Thread,
+  ThreadBusyError,
+  VirtualClock,
+} from "../index.js";
+import { MockBackend } from "../mock.js";
+
+const setup = async (activeRun?: ActiveRunPolicy) => {
+  const clock = new VirtualClock();
+  const mock = new MockBackend({ clock });
+  const ctx = new Context(
+    mock.client,
+    {},
+    {
+      clock,
+      polling: { strategy: fixedPolling(1000) },
+      activeRun,
+      logger: noopLogger,
+    },
+  );
+  const assistant = await Assistant.create(ctx, { model: "gpt-4" });
+  const thread = await Thread.create(ctx, {});
+  return { clock, mock, ctx, assistant, thread };
+};
+
+describe("ThreadQueue", () => {
+  it("queues messages and runs until the active run has finished", async () => {
+    const { clock, mock, ctx, assistant, thread } = await setup();
+    const events: string[] = [];
+    ctx.threadQueue.on("locked", (_, runId) => events.push(`locked ${runId}`));
+    ctx.threadQueue.on("unlocked", (_, runId) =>
+      events.push(`unlocked ${runId}`),
+    );
+    ctx.threadQueue.on("queued", (_, pending) =>
+      events.push(`queued ${pending}`),
+    );
+    mock.scriptRun(
+      { type: "status", status: "in_progress", polls: 2 },
+      { type: "reply", text: "First" },
+    );
+
+    const first = await Run.create(ctx, thread, { assistant });
+    assert.equal(thread.activeRunId, first.id);
+    const message = Message.create(ctx, thread, {
+      role: "user",
+      content: "Next",
+    });
+    const second = thread.createMessageAndRun(
+      { role: "user", content: "And then" },
+      { assistant },
+    );
+    assert.equal(thread.pending, 2);
+
+    const [, [, run]] = await clock.runUntil(Promise.all([message, second]));
+    assert.equal(first.status, "completed");
+    assert.equal(thread.activeRunId, run.id);
+    assert.deepEqual(events, [
+      "queued 1",
+      `locked ${first.id}`,
+      "queued 1",
+      "queued 2",
+      `unlocked ${first.id}`,
+      `locked ${run.id}`,
+    ]);
+    assert.deepEqual(
+      mock.messages.get(thread.id)!.map((m) => m.role),
+      ["assistant", "user", "user"],
+    );
+    await clock.runUntil(run.waitUntilFinished());
+    assert.equal(thread.pending, 0);
+    assert.equal(thread.activeRunId, null);
+  });
+
+  it("cancels the active run or fails fast", async () => {
+    const { clock, mock, ctx, assistant, thread } = await setup("fail");
+    mock.scriptRun({ type: "status", status: "in_progress", polls: 100 });
+    const first = await Run.create(ctx, thread, { assistant });
+
+    await assert.rejects(
+      Message.create(ctx, thread, { role: "user", content: "Hi" }),
+      (err) => err instanceof ThreadBusyError && err.runId === first.id,
+    );
+
+    const cancelled: string[] = [];
+    ctx.threadQueue.on("cancelled", (_, runId) => cancelled.push(runId));
+    const [, run] = await clock.runUntil(
+      thread.createMessageAndRun(
+        { role: "user", content: "Hi" },
+        { assistant, onActiveRun: "cancel" },
+      ),
+    );
+    assert.deepEqual(cancelled, [first.id]);
+    assert.equal(first.status, "cancelled");
+    assert.equal(thread.activeRunId, run.id);
+  });
+
+  it("waits for runs started outside of the Context", async () => {
+    const { clock, mock, ctx, assistant, thread } = await setup();
+    mock.scriptRun({ type: "status", status: "in_progress", polls: 2 });
+    const raw = await mock.client.beta.threads.runs.create(thread.id, {
+      assistant_id: assistant.id,
+    });
+    // Listing the runs caches the active run
+    await thread.runs();
+    assert.equal(thread.activeRunId, raw.id);
+
+    await clock.runUntil(
+      Message.create(ctx, thread, { role: "user", content: "Hi" }),
+    );
+    assert.equal(mock.getRun(raw.id).status, "completed");
+    assert.equal(thread.activeRunId, null);
+  });
+
+  it("doesn't call tools for runs started outside of the Context", async () => {
+    const { clock, mock, ctx, assistant, thread } = await setup();
+    let calls = 0;
+    ctx.tools.register({
+      name: "lookup",
+      parameters: { type: "object" },
+      handler: () => {
+        calls++;
+        return "found";
+      },
+    });
+    mock.scriptRun({
+      type: "tool_calls",
+      calls: [{ name: "lookup", arguments: {} }],
+    });
+    const raw = await mock.client.beta.threads.runs.create(thread.id, {
+      assistant_id: assistant.id,
+    });
+    await thread.runs();
+
+    let created = false;
+    const message = Message.create(ctx, thread, {
+      role: "user",
+      content: "Hi",
+    }).then((message) => {
+      created = true;
+      return message;
+    });
+    await clock.advance(5000);
+    assert.equal(mock.getRun(raw.id).status, "requires_action");
+    assert.equal(created, false);
+    assert.equal(calls, 0);
+
+    // The owner of the run submits the outputs
+    const [call] = mock.getRun(raw.id).required_action!.submit_tool_outputs
+      .tool_calls;
+    await mock.client.beta.threads.runs.submitToolOutputs(thread.id, raw.id, {
+      tool_outputs: [{ tool_call_id: call!.id, output: "found elsewhere" }],
+    });
+    await clock.runUntil(message);
+    assert.equal(calls, 0);
+    assert.equal(thread.activeRunId, null);
+  });
+
+  it("keeps waiting when a run started outside of the Context can't be polled", async () => {
+    const { clock, mock, ctx, assistant, thread } = await setup();
+    mock.scriptRun({ type: "status", status: "in_progress", polls: 100 });
+    const raw = await mock.client.beta.threads.runs.create(thread.id, {
+      assistant_id: assistant.id,
+    });
+    await thread.runs();
+    const retrieve = mock.client.beta.threads.runs.retrieve;
+    mock.client.beta.threads.runs.retrieve = () =>
+      Promise.reject(
+        OpenAI.APIError.generate(403, {}, "Forbidden", {}),
+      ) as never;
+
+    let settled = false;
+    const message = Message.create(ctx, thread, {
+      role: "user",
+      content: "Hi",
+    }).finally(() => (settled = true));
+    await clock.advance(5000);
+    assert.equal(settled, false);
+    assert.equal(thread.activeRunId, raw.id);
+
+    // Another code path sees the run finish
+    mock.client.beta.threads.runs.retrieve = retrieve;
+    await mock.client.beta.threads.runs.cancel(thread.id, raw.id);
+    await new Run(ctx, thread, raw.id).fetch();
+    await clock.runUntil(message);
+    assert.equal(thread.activeRunId, null);
+  });
+});
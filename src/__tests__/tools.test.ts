@@ -0,0 +1,131 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { Assistant, Context, VirtualClock } from "../index.js";
+import { MockBackend } from "../mock.js";
+import { FunctionToolCall, ToolRegistry } from "../tools.js";
+
+const call = (name: string, args: string, id = "call_1"): FunctionToolCall => ({
+  id,
+  type: "function",
+  function: { name, arguments: args },
+});
+
+const weather = new ToolRegistry({ timeoutMs: 50 }).register<{
+  location: string;
+}>({
+  name: "get_current_weather",
+  description: "Get the current weather in a given location",
+  parameters: {
+    type: "object",
+    properties: { location: { type: "string" } },
+    required: ["location"],
+  },
+  handler: ({ location }) => ({ location, temperature: 10 }),
+});
+
+describe("ToolRegistry", () => {
+  it("produces function tool definitions", () => {
+    assert.deepEqual(weather.definitions(), [
+      {
+        type: "function",
+        function: {
+          name: "get_current_weather",
+          description: "Get the current weather in a given location",
+          parameters: {
+            type: "object",
+            properties: { location: { type: "string" } },
+            required: ["location"],
+          },
+        },
+      },
+    ]);
+  });
+
+  it("merges definitions into assistant tools", async () => {
+    const ctx = new Context(new MockBackend().client);
+    const assistant = await Assistant.create(ctx, {
+      model: "gpt-4",
+      tools: [
+        { type: "code_interpreter" },
+        {
+          type: "function",
+          function: { name: "get_current_weather", parameters: {} },
+        },
+      ],
+      toolRegistry: weather,
+    });
+    const expected = [{ type: "code_interpreter" }, ...weather.definitions()];
+    assert.deepEqual(assistant.tools, expected);
+
+    await assistant.update({ instructions: "Be brief", toolRegistry: weather });
+    assert.deepEqual(assistant.tools, expected);
+  });
+
+  it("only dispatches when every call has a handler", () => {
+    assert.ok(weather.canDispatch([call("get_current_weather", "{}")]));
+    assert.ok(
+      !weather.canDispatch([
+        call("get_current_weather", "{}"),
+        call("unknown", "{}", "call_2"),
+      ]),
+    );
+  });
+
+  it("dispatches calls and stringifies results", async () => {
+    const outputs = await weather.dispatch([
+      call("get_current_weather", '{"location":"Tokyo"}'),
+    ]);
+    assert.deepEqual(outputs, [
+      {
+        tool_call_id: "call_1",
+        output: '{"location":"Tokyo","temperature":10}',
+      },
+    ]);
+  });
+
+  it("turns invalid arguments into structured errors", async () => {
+    const [invalidJson, invalidSchema] = await weather.dispatch([
+      call("get_current_weather", "{", "call_1"),
+      call("get_current_weather", '{"location":1}', "call_2"),
+    ]);
+    assert.equal(
+      JSON.parse(invalidJson!.output!).error.type,
+      "invalid_arguments",
+    );
+    assert.deepEqual(JSON.parse(invalidSchema!.output!).error.details, [
+      { path: "$.location", message: "expected string, got integer" },
+    ]);
+  });
+
+  it("turns thrown errors and timeouts into structured errors", async () => {
+    const clock = new VirtualClock();
+    const registry = new ToolRegistry({ timeoutMs: 30_000 })
+      .register({
+        name: "throws",
+        parameters: { type: "object" },
+        handler: () => {
+          throw new Error("boom");
+        },
+      })
+      .register({
+        name: "hangs",
+        parameters: { type: "object" },
+        handler: (_, { signal }) =>
+          new Promise((resolve) => signal.addEventListener("abort", resolve)),
+      });
+    const [thrown, hung] = await clock.runUntil(
+      registry.dispatch(
+        [call("throws", "{}", "call_1"), call("hangs", "{}", "call_2")],
+        null,
+        clock,
+      ),
+    );
+    assert.deepEqual(JSON.parse(thrown!.output!).error, {
+      type: "handler_error",
+      message: "boom",
+    });
+    assert.equal(JSON.parse(hung!.output!).error.type, "timeout");
+    assert.equal(clock.now(), 30_000);
+  });
+});
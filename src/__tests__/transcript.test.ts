@@ -0,0 +1,230 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { OpenAI } from "openai";
+
+import {
+  Assistant,
+  Context,
+  formatTranscript,
+  parseTranscript,
+  Thread,
+} from "../index.js";
+
+const message = (
+  id: string,
+  role: "user" | "assistant",
+  text: string,
+  createdAt: number,
+) => ({
+  id,
+  object: "thread.message",
+  thread_id: "thread_1",
+  role,
+  created_at: createdAt,
+  assistant_id: role === "assistant" ? "asst_1" : null,
+  run_id: role === "assistant" ? "run_1" : null,
+  file_ids: [],
+  metadata: { n: String(createdAt) },
+  content: [{ type: "text", text: { value: text, annotations: [] } }],
+});
+
+const cited = {
+  ...message("msg_3", "assistant", "See the handbook【0†source】.", 3),
+  file_ids: ["file_1"],
+  content: [
+    {
+      type: "text",
+      text: {
+        value: "See the handbook【0†source】.",
+        annotations: [
+          {
+            type: "file_citation",
+            text: "【0†source】",
+            start_index: 16,
+            end_index: 26,
+            file_citation: { file_id: "file_1", quote: "Be kind" },
+          },
+        ],
+      },
+    },
+  ],
+};
+
+/** A page that isn't the last one if `next` is given */
+const page = (data: unknown[], next?: () => unknown) => ({
+  data,
+  hasNextPage: () => next !== undefined,
+  getNextPage: () => Promise.resolve(next!()),
+});
+
+interface CreatedMessage {
+  role: string;
+  content: string;
+  metadata: unknown;
+  file_ids?: string[];
+  attachments?: unknown[];
+}
+
+const createClient = () => {
+  const created: CreatedMessage[] = [];
+  const client = {
+    // Assistant messages are created with the raw client, for v2 of the Assistants API
+    post: (
+      path: string,
+      opts: { body: CreatedMessage; headers: Record<string, string> },
+    ) => {
+      assert.equal(path, "/threads/thread_2/messages");
+      assert.equal(opts.headers["OpenAI-Beta"], "assistants=v2");
+      created.push(opts.body);
+      return Promise.resolve({ id: `new_${created.length}` });
+    },
+    files: {
+      retrieve: (id: string) =>
+        Promise.resolve({ id, filename: "handbook.pdf", bytes: 10 }),
+    },
+    beta: {
+      threads: {
+        create: (params: { metadata: unknown }) =>
+          Promise.resolve({ id: "thread_2", created_at: 9, ...params }),
+        retrieve: (id: string) =>
+          Promise.resolve({ id, created_at: 0, metadata: { topic: "hr" } }),
+        messages: {
+          // Oldest first, as requested by exports, two pages
+          list: () =>
+            Promise.resolve(
+              page(
+                [
+                  message("msg_1", "user", "Hi", 1),
+                  message("msg_2", "user", "Be brief", 2),
+                ],
+                () => page([cited]),
+              ),
+            ),
+          create: (_threadId: string, params: CreatedMessage) => {
+            created.push(params);
+            return Promise.resolve({ id: `new_${created.length}` });
+          },
+        },
+        runs: {
+          list: () =>
+            Promise.resolve(
+              page([
+                {
+                  id: "run_1",
+                  thread_id: "thread_1",
+                  assistant_id: "asst_1",
+                  status: "completed",
+                  model: "gpt-4",
+                  instructions: "Be helpful",
+                  created_at: 2,
+                  completed_at: 3,
+                  metadata: {},
+                },
+              ]),
+            ),
+          steps: {
+            list: () =>
+              Promise.resolve(
+                page([
+                  {
+                    id: "step_1",
+                    type: "message_creation",
+                    status: "completed",
+                    created_at: 3,
+                    step_details: {
+                      type: "message_creation",
+                      message_creation: { message_id: "msg_3" },
+                    },
+                  },
+                ]),
+              ),
+          },
+        },
+      },
+    },
+  } as unknown as OpenAI;
+  return { client, created };
+};
+
+describe("Thread transcripts", () => {
+  it("exports every page in order with resolved files", async () => {
+    const { client } = createClient();
+    const ctx = new Context(client);
+    const transcript = await new Thread(ctx, "thread_1").export();
+
+    assert.equal(transcript.version, 1);
+    assert.deepEqual(transcript.thread.metadata, { topic: "hr" });
+    assert.deepEqual(
+      transcript.messages.map((m) => m.id),
+      ["msg_1", "msg_2", "msg_3"],
+    );
+    const content = transcript.messages[2]!.content[0]!;
+    assert.equal(content.type, "text");
+    assert.deepEqual(content.type === "text" && content.annotations[0], {
+      type: "file_citation",
+      text: "【0†source】",
+      startIndex: 16,
+      endIndex: 26,
+      file: { id: "file_1", filename: "handbook.pdf", bytes: 10 },
+      quote: "Be kind",
+    });
+    assert.equal(transcript.runs[0]?.steps[0]?.id, "step_1");
+
+    const markdown = formatTranscript(transcript, "markdown");
+    assert.match(markdown, /See the handbook\[\^1\]\./);
+    assert.match(markdown, /\[\^1\]: handbook\.pdf \(file_1\) "Be kind"/);
+
+    for (const format of ["json", "jsonl"] as const) {
+      assert.deepEqual(
+        parseTranscript(formatTranscript(transcript, format)),
+        transcript,
+      );
+    }
+  });
+
+  it("imports a transcript keeping roles, order and metadata", async () => {
+    const { client, created } = createClient();
+    const ctx = new Context(client);
+    const transcript = await new Thread(ctx, "thread_1").export();
+    const assistant = new Assistant(ctx, "asst_2");
+
+    const thread = await Thread.import(
+      ctx,
+      formatTranscript(transcript, "jsonl"),
+      assistant,
+      { keepFiles: true },
+    );
+    assert.equal(thread.id, "thread_2");
+    assert.deepEqual(thread.metadata, { topic: "hr" });
+    // v2 replaces file_ids with attachments
+    assert.ok(!("file_ids" in created[2]!));
+    assert.deepEqual(
+      created.map((params) => params.attachments),
+      [
+        undefined,
+        undefined,
+        [{ file_id: "file_1", tools: [{ type: "file_search" }] }],
+      ],
+    );
+    assert.deepEqual(
+      created.map(({ role, content, metadata }) => [role, content, metadata]),
+      [
+        ["user", "Hi", { n: "1" }],
+        ["user", "Be brief", { n: "2" }],
+        [
+          "assistant",
+          "See the handbook【0†source】.",
+          { n: "3", assistant_id: "asst_2" },
+        ],
+      ],
+    );
+  });
+
+  it("rejects unsupported versions", () => {
+    assert.throws(
+      () => parseTranscript(JSON.stringify({ version: 99 })),
+      /Unsupported transcript version 99/,
+    );
+  });
+});
@@ -0,0 +1,163 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import {
+  Assistant,
+  BudgetExceededError,
+  Context,
+  fixedPolling,
+  Run,
+  Thread,
+  UsageBudget,
+  UsageRecord,
+  VirtualClock,
+} from "../index.js";
+import { MockBackend } from "../mock.js";
+
+const setup = async (budgets: UsageBudget[] = []) => {
+  const clock = new VirtualClock();
+  const mock = new MockBackend({ clock });
+  const ctx = new Context(
+    mock.client,
+    {},
+    {
+      clock,
+      polling: { strategy: fixedPolling(1000) },
+      usage: {
+        prices: { "gpt-4": { prompt: 30, completion: 60 } },
+        budgets,
+      },
+    },
+  );
+  const assistant = await Assistant.create(ctx, { model: "gpt-4-0613" });
+  /** Starts a run on a new thread, tagged with the tenant */
+  const start = async (tenant: string) => {
+    const thread = await Thread.create(ctx, {});
+    return await Run.create(ctx, thread, {
+      assistant,
+      metadata: { tenant },
+    });
+  };
+  return { clock, mock, ctx, assistant, start };
+};
+
+describe("UsageTracker", () => {
+  it("records and aggregates the usage of finished runs", async () => {
+    const { clock, mock, ctx, assistant, start } = await setup();
+    const recorded: UsageRecord[] = [];
+    ctx.usage.on("recorded", (record) => recorded.push(record));
+
+    mock.scriptRun({
+      type: "usage",
+      promptTokens: 1000,
+      completionTokens: 500,
+    });
+    mock.scriptRun({ type: "usage", promptTokens: 200, completionTokens: 100 });
+    mock.scriptRun({ type: "usage", promptTokens: 10, completionTokens: 0 });
+    const runs = [await start("a"), await start("a"), await start("b")];
+    for (const run of runs) {
+      assert.equal(await clock.runUntil(run.waitUntilFinished()), "completed");
+    }
+    // A run loaded again isn't recorded twice
+    await clock.runUntil(
+      (await Run.load(ctx, runs[0]!.thread, runs[0]!.id)).waitUntilFinished(),
+    );
+
+    assert.equal(recorded.length, 3);
+    assert.deepEqual(runs[0]!.usage, {
+      promptTokens: 1000,
+      completionTokens: 500,
+      totalTokens: 1500,
+    });
+    assert.equal(recorded[0]!.cost, (1000 * 30 + 500 * 60) / 1_000_000);
+    assert.deepEqual(ctx.usage.totals({ tags: { tenant: "a" } }), {
+      runs: 2,
+      promptTokens: 1200,
+      completionTokens: 600,
+      totalTokens: 1800,
+      cost: 0.072,
+    });
+    assert.deepEqual(
+      [...ctx.usage.byTag("tenant")].map(([tag, { totalTokens }]) => [
+        tag,
+        totalTokens,
+      ]),
+      [
+        ["a", 1800],
+        ["b", 10],
+      ],
+    );
+    assert.equal(ctx.usage.byAssistant().get(assistant.id)?.runs, 3);
+    assert.equal(ctx.usage.byThread().size, 3);
+    assert.equal(ctx.usage.byRun().get(runs[2]!.id)?.totalTokens, 10);
+  });
+
+  it("refuses new runs and cancels active ones once a budget is exceeded", async () => {
+    const { clock, mock, ctx, start } = await setup([
+      {
+        name: "tenant-a",
+        scope: { tags: { tenant: "a" } },
+        maxTokens: 1000,
+        action: "cancel",
+      },
+    ]);
+    const exceeded: string[] = [];
+    ctx.usage.on("budgetExceeded", (budget) => exceeded.push(budget.name));
+
+    mock.scriptRun({ type: "status", status: "in_progress", polls: 100 });
+    mock.scriptRun({ type: "complete" });
+    mock.scriptRun({ type: "usage", promptTokens: 900, completionTokens: 200 });
+    const active = await start("a");
+    const other = await start("b");
+    const finished = await start("a");
+
+    assert.equal(
+      await clock.runUntil(finished.waitUntilFinished()),
+      "completed",
+    );
+    assert.deepEqual(exceeded, ["tenant-a"]);
+    assert.equal(await clock.runUntil(active.waitUntilFinished()), "cancelled");
+    assert.equal(await clock.runUntil(other.waitUntilFinished()), "completed");
+
+    await assert.rejects(start("a"), BudgetExceededError);
+    await start("b");
+  });
+
+  it("forgets runs that end with an error and keeps the scope of evicted runs", async () => {
+    const { clock, mock, ctx, start } = await setup([
+      {
+        name: "tenant-a",
+        scope: { tags: { tenant: "a" } },
+        maxTokens: 1000,
+        action: "cancel",
+      },
+    ]);
+    mock.scriptRun({ type: "status", status: "in_progress", polls: 100 });
+    mock.scriptRun({ type: "status", status: "in_progress", polls: 100 });
+    mock.scriptRun({ type: "usage", promptTokens: 900, completionTokens: 200 });
+    const aborted = await start("a");
+    const evicted = await start("a");
+
+    const controller = new AbortController();
+    aborted.beginPolling({}, { signal: controller.signal });
+    const ended = aborted.waitUntilFinished();
+    controller.abort(new Error("Aborted"));
+    await assert.rejects(ended, /Aborted/);
+    evicted.endPolling();
+    ctx.cache.evict("run", evicted.id);
+
+    const cancelled = new Promise<Run>((resolve) =>
+      ctx.usage.once("runCancelled", resolve),
+    );
+    const finished = await start("a");
+    assert.equal(
+      await clock.runUntil(finished.waitUntilFinished()),
+      "completed",
+    );
+    assert.equal(await cancelled, evicted);
+    assert.equal(
+      mock.calls.filter((call) => call === "beta.threads.runs.cancel").length,
+      1,
+    );
+  });
+});
@@ -0,0 +1,64 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { Context, Message, Thread } from "../index.js";
+import { MockBackend } from "../mock.js";
+
+const setup = async () => {
+  const mock = new MockBackend();
+  const ctx = new Context(mock.client);
+  const thread = await Thread.create(ctx, {});
+  for (const content of ["a", "b", "c", "d", "e"]) {
+    await Message.create(ctx, thread, { role: "user", content });
+  }
+  const text = (message: Message) => {
+    const part = message.content[0];
+    return part?.type === "text" ? part.text.value : "";
+  };
+  const lists = () =>
+    mock.calls.filter((call) => call === "beta.threads.messages.list").length;
+  return { thread, text, lists };
+};
+
+describe("WrappedPage", () => {
+  it("iterates the items of every page", async () => {
+    const { thread, text } = await setup();
+    const page = await thread.messages({}, { order: "asc", limit: 2 });
+
+    const items: string[] = [];
+    for await (const message of page) items.push(text(message));
+    assert.deepEqual(items, ["a", "b", "c", "d", "e"]);
+
+    const sizes: number[] = [];
+    for await (const each of page.iterPages()) sizes.push(each.data.length);
+    assert.deepEqual(sizes, [2, 2, 1]);
+  });
+
+  it("fetches only as many pages as the helpers need", async () => {
+    const { thread, text, lists } = await setup();
+    const page = await thread.messages({}, { limit: 2 });
+    assert.equal(lists(), 1);
+
+    assert.deepEqual((await page.toArray({ limit: 3 })).map(text), [
+      "e",
+      "d",
+      "c",
+    ]);
+    assert.equal(lists(), 2);
+
+    const found = await page.find((message) => text(message) === "b");
+    assert.equal(found && text(found), "b");
+    assert.equal(
+      await page.find((message) => text(message) === "z"),
+      undefined,
+    );
+    assert.deepEqual(
+      (await page.filter((_message, index) => index % 2 === 0)).map(text),
+      ["e", "c", "a"],
+    );
+    assert.deepEqual(
+      await page.map((message) => Promise.resolve(text(message))),
+      ["e", "d", "c", "b", "a"],
+    );
+  });
+});
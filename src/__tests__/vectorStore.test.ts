@@ -0,0 +1,155 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { OpenAI, toFile } from "openai";
+
+import {
+  Context,
+  fixedPolling,
+  noopLogger,
+  OpenAIVectorStoreFileBatch,
+  VectorStore,
+  VectorStoreFileBatch,
+} from "../index.js";
+
+const counts = (completed: number, inProgress: number) => ({
+  in_progress: inProgress,
+  completed,
+  failed: 0,
+  cancelled: 0,
+  total: completed + inProgress,
+});
+
+const batch = (
+  status: OpenAIVectorStoreFileBatch["status"],
+  completed: number,
+): OpenAIVectorStoreFileBatch => ({
+  id: "vsfb_1",
+  object: "vector_store.files_batch",
+  created_at: 0,
+  vector_store_id: "vs_1",
+  status,
+  file_counts: counts(completed, 2 - completed),
+});
+
+/** Client that answers the raw vector store requests and records them */
+const createClient = (batchResponses: OpenAIVectorStoreFileBatch[]) => {
+  const requests: { method: string; path: string; body?: unknown }[] = [];
+  const vectorStore = {
+    id: "vs_1",
+    object: "vector_store",
+    created_at: 0,
+    name: "Docs",
+    usage_bytes: 0,
+    file_counts: counts(0, 0),
+    status: "completed",
+    expires_at: null,
+    last_active_at: null,
+    metadata: {},
+  };
+  const handle =
+    (method: string) =>
+    (path: string, opts: OpenAI.RequestOptions & { body?: unknown }) => {
+      requests.push({ method, path, body: opts.body });
+      assert.equal(
+        (opts.headers as Record<string, string>)["OpenAI-Beta"],
+        "assistants=v2",
+      );
+      if (path === "/vector_stores" || path === "/vector_stores/vs_1") {
+        return Promise.resolve(vectorStore);
+      }
+      if (path === "/vector_stores/vs_1/file_batches") {
+        return Promise.resolve(batch("in_progress", 0));
+      }
+      if (path === "/vector_stores/vs_1/file_batches/vsfb_1") {
+        return Promise.resolve(batchResponses.shift() ?? batch("completed", 2));
+      }
+      return Promise.reject(new Error(`Unexpected request ${path}`));
+    };
+  let uploads = 0;
+  const client = {
+    get: handle("get"),
+    post: handle("post"),
+    delete: handle("delete"),
+    files: {
+      create: () => Promise.resolve({ id: `file_${++uploads}` }),
+    },
+  } as unknown as OpenAI;
+  return { client, requests };
+};
+
+describe("VectorStore", () => {
+  it("creates a vector store and emits cache events", async () => {
+    const { client, requests } = createClient([]);
+    const ctx = new Context(client);
+    const created: string[] = [];
+    ctx.cache.emitter("vector_store").on("created", (id) => created.push(id));
+
+    const vectorStore = await VectorStore.create(ctx, { name: "Docs" });
+    assert.equal(vectorStore.name, "Docs");
+    assert.deepEqual(created, ["vs_1"]);
+    assert.deepEqual(requests[0], {
+      method: "post",
+      path: "/vector_stores",
+      body: { name: "Docs" },
+    });
+  });
+
+  it("uploads files and polls the batch until it has finished", async () => {
+    const { client, requests } = createClient([
+      batch("in_progress", 0),
+      batch("in_progress", 1),
+      batch("completed", 2),
+    ]);
+    const ctx = new Context(
+      client,
+      {},
+      { polling: { strategy: fixedPolling(1) } },
+    );
+    const vectorStore = await VectorStore.load(ctx, "vs_1");
+
+    const fileBatch = await vectorStore.uploadAndPoll({
+      files: [
+        await toFile(Buffer.from("a"), "a.txt"),
+        await toFile(Buffer.from("b"), "b.txt"),
+      ],
+      file_ids: ["file_0"],
+    });
+    const progress: number[] = [];
+    fileBatch.on("progress", (fileCounts) =>
+      progress.push(fileCounts.completed),
+    );
+
+    assert.equal(await fileBatch.waitUntilFinished(), "completed");
+    assert.deepEqual(progress, [1, 2]);
+    assert.deepEqual(
+      requests.find((r) => r.path === "/vector_stores/vs_1/file_batches")?.body,
+      { file_ids: ["file_0", "file_1", "file_2"] },
+    );
+    assert.equal(fileBatch.polling, false);
+  });
+
+  it("ends polling with an error when the vector store can't be refreshed", async () => {
+    const { client } = createClient([batch("completed", 2)]);
+    const ctx = new Context(
+      client,
+      {},
+      { logger: noopLogger, polling: { strategy: fixedPolling(1) } },
+    );
+    const vectorStore = await VectorStore.load(ctx, "vs_1");
+    const fileBatch = await VectorStoreFileBatch.create(ctx, vectorStore, {
+      file_ids: ["file_1", "file_2"],
+    });
+    const get = client.get.bind(client);
+    client.get = ((path: string, opts: OpenAI.RequestOptions) =>
+      path === "/vector_stores/vs_1"
+        ? Promise.reject(new Error("Vector store unavailable"))
+        : get(path, opts)) as typeof client.get;
+
+    await assert.rejects(
+      () => fileBatch.waitUntilFinished(),
+      /Vector store unavailable/,
+    );
+    assert.equal(fileBatch.polling, false);
+  });
+});
@@ -1,6 +1,8 @@
 import { OpenAI } from "openai/index.mjs";
 
+import { File } from "./file.js";
 import { Context } from "./index.js";
+import { ToolRegistry } from "./tools.js";
 import { createWrappedPage, StatefulObject } from "./utils.js";
 
 export interface AssistantEvents {}
@@ -46,12 +48,17 @@ export class Assistant extends StatefulObject<
    */
   static async create(
     ctx: Context,
-    params: OpenAI.Beta.AssistantCreateParams,
+    params: AssistantCreateParams,
     options: OpenAI.RequestOptions = {},
   ) {
-    const assistant = await ctx.client.beta.assistants.create(
-      params,
-      ctx._opts(options),
+    const { toolRegistry, ...rest } = params;
+    const assistant = await ctx.requests.send(
+      { object: this.object, operation: "create" },
+      () =>
+        ctx.client.beta.assistants.create(
+          withRegistryTools(rest, toolRegistry),
+          ctx._opts(options),
+        ),
     );
     ctx.cache.set(this.object, assistant.id, assistant);
     ctx.cache._emit("created", this.object, assistant.id, assistant);
@@ -70,9 +77,13 @@ export class Assistant extends StatefulObject<
    * Deletes this assistant.
    */
   async delete(options: OpenAI.RequestOptions = {}) {
-    const deleted = await this._ctx.client.beta.assistants.del(
-      this.wrappedValue.id,
-      this._ctx._opts(options),
+    const deleted = await this._ctx.requests.send(
+      { object: this.object, operation: "delete" },
+      () =>
+        this._ctx.client.beta.assistants.del(
+          this.wrappedValue.id,
+          this._ctx._opts(options),
+        ),
     );
     if (deleted.deleted) {
       this._cache._emit("deleted", this.object, this.wrappedValue.id);
@@ -82,10 +93,17 @@ export class Assistant extends StatefulObject<
   }
 
   /**
-   * Returns a list of assistants.
+   * Returns a list of assistants, newest first unless `query.order` is "asc".
    */
-  static async list(ctx: Context, options: OpenAI.RequestOptions = {}) {
-    const page = await ctx.client.beta.assistants.list(ctx._opts(options));
+  static async list(
+    ctx: Context,
+    options: OpenAI.RequestOptions = {},
+    query: OpenAI.Beta.AssistantListParams = {},
+  ) {
+    const page = await ctx.requests.send(
+      { object: this.object, operation: "list" },
+      () => ctx.client.beta.assistants.list(query, ctx._opts(options)),
+    );
     const wrapped = createWrappedPage(
       ctx,
       page,
@@ -98,15 +116,63 @@ export class Assistant extends StatefulObject<
    * Modifies this assistant.
    */
   async update(
-    params: OpenAI.Beta.AssistantUpdateParams,
+    params: AssistantUpdateParams,
     options: OpenAI.RequestOptions = {},
   ) {
-    const assistant = await this._ctx.client.beta.assistants.update(
-      this.wrappedValue.id,
-      params,
-      this._ctx._opts(options),
+    const { toolRegistry, ...rest } = params;
+    // Without `tools`, the registry's functions are merged into the current tools instead of replacing them
+    const current =
+      toolRegistry && !rest.tools
+        ? (await this.getValue(options)).tools
+        : undefined;
+    const assistant = await this._ctx.requests.send(
+      { object: this.object, operation: "update" },
+      () =>
+        this._ctx.client.beta.assistants.update(
+          this.id,
+          withRegistryTools(rest, toolRegistry, current),
+          this._ctx._opts(options),
+        ),
     );
     this._cache.set(this.object, assistant.id, assistant);
     return this;
   }
+
+  /**
+   * Returns the files attached to this assistant, loaded into the cache.
+   */
+  async files(options?: OpenAI.RequestOptions) {
+    return await File.loadAll(this._ctx, this.fileIds, options);
+  }
 }
+
+export interface AssistantCreateParams
+  extends OpenAI.Beta.AssistantCreateParams {
+  /** Function tools from this registry are appended to `tools`, replacing functions with the same name */
+  toolRegistry?: ToolRegistry;
+}
+
+export interface AssistantUpdateParams
+  extends OpenAI.Beta.AssistantUpdateParams {
+  /**
+   * Function tools from this registry are appended to `tools`, replacing functions with the same name.
+   * Without `tools`, they're merged into the assistant's current tools.
+   */
+  toolRegistry?: ToolRegistry;
+}
+
+const withRegistryTools = <
+  T extends
+    | OpenAI.Beta.AssistantCreateParams
+    | OpenAI.Beta.AssistantUpdateParams,
+>(
+  params: T,
+  registry: ToolRegistry | undefined,
+  current: OpenAI.Beta.Assistant["tools"] = [],
+): T => {
+  if (!registry) return params;
+  return {
+    ...params,
+    tools: registry.mergeDefinitions(params.tools ?? current),
+  };
+};
@@ -0,0 +1,260 @@
+import { OpenAI } from "openai";
+
+import { File } from "./file.js";
+import { Assistant, Context } from "./index.js";
+import { ToolRegistry } from "./tools.js";
+
+type AssistantTool = OpenAI.Beta.AssistantCreateParams["tools"] extends
+  | (infer T)[]
+  | undefined
+  ? T
+  : never;
+
+/** Desired state of an assistant. Plain definitions (without `toolRegistry`) can be kept in a JSON config file. */
+export interface AssistantDefinition {
+  /** Stable logical key, stored in the assistant's metadata to find it again */
+  key: string;
+  model: string;
+  name?: string | null;
+  description?: string | null;
+  instructions?: string | null;
+  tools?: AssistantTool[];
+  /** Function tools from this registry are appended to `tools` */
+  toolRegistry?: ToolRegistry;
+  /** Files to attach, as File objects or ids */
+  files?: (File | string)[];
+  /** Metadata besides the logical key. Metadata not listed here is removed. */
+  metadata?: Record<string, string>;
+}
+
+export interface SyncAssistantsOptions {
+  /** Only compute the plan, without creating, updating or deleting anything */
+  dryRun?: boolean;
+  /** Delete assistants with a logical key that isn't defined. Assistants without a key are never touched. */
+  prune?: boolean;
+  /** Metadata field holding the logical key. Defaults to "assistant_key". */
+  keyField?: string;
+}
+
+export type AssistantField =
+  | "name"
+  | "description"
+  | "model"
+  | "instructions"
+  | "tools"
+  | "file_ids"
+  | "metadata";
+
+export interface AssistantFieldChange {
+  field: AssistantField;
+  /** Current value. Undefined for created assistants. */
+  from: unknown;
+  to: unknown;
+}
+
+export type AssistantPlanItem =
+  | {
+      action: "create";
+      key: string;
+      assistant: null;
+      changes: AssistantFieldChange[];
+    }
+  | {
+      action: "update";
+      key: string;
+      assistant: Assistant;
+      changes: AssistantFieldChange[];
+    }
+  | { action: "delete"; key: string; assistant: Assistant; changes: [] }
+  | { action: "unchanged"; key: string; assistant: Assistant; changes: [] };
+
+export interface AssistantSyncResult {
+  /** One item for each definition, then the deleted assistants */
+  plan: AssistantPlanItem[];
+  /** False for dry runs */
+  applied: boolean;
+  /** The synced assistant of each definition, by key. Created assistants are missing from dry runs. */
+  assistants: Map<string, Assistant>;
+}
+
+type DesiredAssistant = Required<
+  Pick<OpenAI.Beta.AssistantCreateParams, AssistantField>
+>;
+
+const DEFAULT_KEY_FIELD = "assistant_key";
+
+/** JSON with sorted object keys and without undefined values, to compare values */
+const canonical = (value: unknown): string =>
+  JSON.stringify(value, (_key, v: unknown) =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(
+          Object.entries(v).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)),
+        )
+      : v,
+  );
+
+const desiredState = (
+  definition: AssistantDefinition,
+  keyField: string,
+): DesiredAssistant => ({
+  name: definition.name ?? null,
+  description: definition.description ?? null,
+  model: definition.model,
+  instructions: definition.instructions ?? null,
+  tools:
+    definition.toolRegistry?.mergeDefinitions(definition.tools) ??
+    definition.tools ??
+    [],
+  file_ids: (definition.files ?? []).map((file) =>
+    typeof file === "string" ? file : file.id,
+  ),
+  metadata: { ...definition.metadata, [keyField]: definition.key },
+});
+
+const diff = (
+  current: OpenAI.Beta.Assistant | null,
+  desired: DesiredAssistant,
+) => {
+  const changes: AssistantFieldChange[] = [];
+  for (const field of Object.keys(desired) as AssistantField[]) {
+    const from = current?.[field] ?? undefined;
+    let equal = canonical(from ?? null) === canonical(desired[field]);
+    // File order doesn't matter
+    if (field === "file_ids" && current) {
+      equal =
+        canonical([...current.file_ids].sort()) ===
+        canonical([...desired.file_ids].sort());
+    }
+    if (!equal) changes.push({ field, from, to: desired[field] });
+  }
+  return changes;
+};
+
+/**
+ * Creates, updates and deletes assistants to match the definitions, like infrastructure as code.
+ * Existing assistants are matched by the logical key in their metadata.
+ * Changes are applied one by one; if one fails, the earlier ones are kept.
+ * @throws If two definitions have the same key
+ */
+export const syncAssistants = async (
+  ctx: Context,
+  definitions: AssistantDefinition[],
+  syncOptions: SyncAssistantsOptions = {},
+  options: OpenAI.RequestOptions = {},
+): Promise<AssistantSyncResult> => {
+  const {
+    dryRun = false,
+    prune = false,
+    keyField = DEFAULT_KEY_FIELD,
+  } = syncOptions;
+
+  const keys = new Set<string>();
+  for (const { key } of definitions) {
+    if (keys.has(key)) throw new Error(`Duplicate assistant key ${key}`);
+    keys.add(key);
+  }
+
+  // Newest first; older duplicates of a key are only deleted when pruning
+  const existing = new Map<string, Assistant>();
+  const extra: [string, Assistant][] = [];
+  for await (const assistant of await Assistant.list(ctx, options, {
+    limit: 100,
+  })) {
+    const key = (assistant.metadata as Record<string, unknown> | null)?.[
+      keyField
+    ];
+    if (typeof key !== "string") continue;
+    if (keys.has(key) && !existing.has(key)) existing.set(key, assistant);
+    else extra.push([key, assistant]);
+  }
+
+  const plan: AssistantPlanItem[] = [];
+  const desired = new Map<string, DesiredAssistant>();
+  for (const definition of definitions) {
+    const { key } = definition;
+    const state = desiredState(definition, keyField);
+    desired.set(key, state);
+    const assistant = existing.get(key);
+    if (!assistant) {
+      plan.push({
+        action: "create",
+        key,
+        assistant: null,
+        changes: diff(null, state),
+      });
+      continue;
+    }
+    const changes = diff(assistant.wrappedValue, state);
+    plan.push(
+      changes.length
+        ? { action: "update", key, assistant, changes }
+        : { action: "unchanged", key, assistant, changes: [] },
+    );
+  }
+  if (prune) {
+    for (const [key, assistant] of extra) {
+      plan.push({ action: "delete", key, assistant, changes: [] });
+    }
+  }
+
+  const assistants = new Map(existing);
+  if (dryRun) return { plan, applied: false, assistants };
+
+  for (const item of plan) {
+    switch (item.action) {
+      case "create":
+        assistants.set(
+          item.key,
+          await Assistant.create(ctx, desired.get(item.key)!, options),
+        );
+        break;
+      case "update": {
+        const state = desired.get(item.key)!;
+        await item.assistant.update(
+          Object.fromEntries(
+            item.changes.map(({ field }) => [field, state[field]]),
+          ),
+          options,
+        );
+        break;
+      }
+      case "delete":
+        await item.assistant.delete(options);
+        break;
+    }
+  }
+  return { plan, applied: true, assistants };
+};
+
+const formatValue = (value: unknown) =>
+  value === undefined ? "(none)" : canonical(value);
+
+/**
+ * Formats a sync plan for reading, one line per change:
+ * `+` for created assistants, `~` for updated fields and `-` for deleted assistants.
+ */
+export const formatAssistantPlan = (plan: AssistantPlanItem[]) => {
+  const lines: string[] = [];
+  for (const { action, key, assistant, changes } of plan) {
+    switch (action) {
+      case "create":
+        lines.push(`+ ${key}`);
+        break;
+      case "update":
+        lines.push(`~ ${key} (${assistant.id})`);
+        for (const { field, from, to } of changes) {
+          lines.push(
+            `    ${field}: ${formatValue(from)} -> ${formatValue(to)}`,
+          );
+        }
+        break;
+      case "delete":
+        lines.push(`- ${key} (${assistant.id})`);
+        break;
+      case "unchanged":
+        lines.push(`  ${key} (${assistant.id})`);
+        break;
+    }
+  }
+  return lines.join("\n");
+};
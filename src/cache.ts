@@ -2,9 +2,30 @@ import { OpenAI } from "openai";
 import { TypedEmitter } from "tiny-typed-emitter";
 
 import { Context } from "./index.js";
+import { CacheStorage } from "./storage.js";
+import { assistantsV2Request } from "./vectorStore.js";
 
-export type ObjectType = "assistant" | "thread" | "message" | "run";
+export type ObjectType =
+  | "assistant"
+  | "file"
+  | "thread"
+  | "message"
+  | "run"
+  | "step"
+  | "vector_store"
+  | "vector_store_file"
+  | "vector_store_file_batch";
 export type Id = string;
+/**
+ * Id used to fetch an object. For 'message' and 'run' objects, this is an object with a threadId and id property.
+ * For 'step' objects, it also has a runId property.
+ * For 'vector_store_file' and 'vector_store_file_batch' objects, it has a vectorStoreId and id property.
+ */
+export type FetchId =
+  | Id
+  | { threadId: Id; id: Id }
+  | { threadId: Id; runId: Id; id: Id }
+  | { vectorStoreId: Id; id: Id };
 interface CacheEvents<T> {
   cacheInserted: (object: ObjectType, id: Id, value: T) => void;
   updated: (object: ObjectType, id: Id, value: T) => void;
@@ -24,34 +45,137 @@ export interface CacheItemEvents<T> {
 interface ObjectCacheItem<T> {
   value: T;
   emitter: TypedEmitter<CacheItemEvents<T>>;
+  /** Timestamp (ms) of the last time the value was set */
+  setAt: number;
+}
+/** An entry as written to the storage. Keeps the time it was set, so TTLs apply to hydrated entries. */
+export interface StoredCacheEntry<T = any> {
+  value: T;
+  /** Timestamp (ms) of the last time the value was set */
+  setAt: number;
 }
 interface ObjectCache<T> {
-  data: Record<Id, ObjectCacheItem<T>>;
+  /** Ordered from least to most recently used */
+  data: Map<Id, ObjectCacheItem<T>>;
   emitter: TypedEmitter<CacheItemEvents<T>>;
 }
+
+/** Eviction policy for an object type */
+export interface CachePolicy<T = any> {
+  /** Maximum number of entries. The least recently used evictable entries are evicted first. */
+  maxEntries?: number;
+  /** Entries expire this many milliseconds after they were last set, and are refetched by getOrFetch() */
+  ttlMs?: number;
+  /** Pinned entries are never evicted */
+  pinned?: boolean;
+  /** Returns false for entries that must not be evicted yet */
+  evictable?: (value: T) => boolean;
+}
+
+export type CachePolicies = Partial<Record<ObjectType, CachePolicy>>;
+
+const terminalRunStatuses: OpenAI.Beta.Threads.Runs.Run["status"][] = [
+  "cancelled",
+  "expired",
+  "completed",
+  "failed",
+];
+
+/**
+ * Default policies: nothing is evicted without limits, assistants are pinned,
+ * and runs and file batches can only be evicted once they reached a terminal status.
+ */
+export const defaultCachePolicies: CachePolicies = {
+  assistant: { pinned: true },
+  run: {
+    evictable: (run: OpenAI.Beta.Threads.Runs.Run) =>
+      terminalRunStatuses.includes(run.status),
+  },
+  vector_store_file_batch: {
+    evictable: (batch: { status: string }) => batch.status !== "in_progress",
+  },
+};
+
+export interface CacheOptions {
+  /** Persistence layer. Entries are written through to it and hydrated from it lazily in getOrFetch(). */
+  storage?: CacheStorage;
+  /** Eviction policies per object type, merged into the default policies */
+  policies?: CachePolicies;
+}
+
 export class Cache {
   private _emitter = new TypedEmitter<CacheEvents<any>>();
 
   private _cache: Record<ObjectType, ObjectCache<any>> = {
     assistant: {
-      data: {},
+      data: new Map(),
+      emitter: new TypedEmitter<CacheItemEvents<any>>(),
+    },
+    file: {
+      data: new Map(),
       emitter: new TypedEmitter<CacheItemEvents<any>>(),
     },
     thread: {
-      data: {},
+      data: new Map(),
       emitter: new TypedEmitter<CacheItemEvents<any>>(),
     },
     message: {
-      data: {},
+      data: new Map(),
       emitter: new TypedEmitter<CacheItemEvents<any>>(),
     },
     run: {
-      data: {},
+      data: new Map(),
+      emitter: new TypedEmitter<CacheItemEvents<any>>(),
+    },
+    step: {
+      data: new Map(),
+      emitter: new TypedEmitter<CacheItemEvents<any>>(),
+    },
+    vector_store: {
+      data: new Map(),
+      emitter: new TypedEmitter<CacheItemEvents<any>>(),
+    },
+    vector_store_file: {
+      data: new Map(),
+      emitter: new TypedEmitter<CacheItemEvents<any>>(),
+    },
+    vector_store_file_batch: {
+      data: new Map(),
       emitter: new TypedEmitter<CacheItemEvents<any>>(),
     },
   };
 
-  constructor(private ctx: Context) {}
+  public readonly storage: CacheStorage | null;
+  private _policies: CachePolicies;
+  private _writes: Promise<void> = Promise.resolve();
+  private _writeError: unknown = null;
+
+  constructor(
+    private ctx: Context,
+    options: CacheOptions = {},
+  ) {
+    this.storage = options.storage ?? null;
+    this._policies = { ...defaultCachePolicies };
+    for (const [object, policy] of Object.entries(options.policies ?? {})) {
+      this.setPolicy(object as ObjectType, policy);
+    }
+  }
+
+  /** Returns the eviction policy for an object type */
+  policy(object: ObjectType): CachePolicy {
+    return this._policies[object] ?? {};
+  }
+
+  /**
+   * Sets the eviction policy for an object type, merged into the existing policy. Evicts entries that exceed it.
+   * @throws If the object type is invalid
+   */
+  setPolicy(object: ObjectType, policy: CachePolicy) {
+    if (!this._cache[object])
+      throw new Error(`Invalid object type ${object} to set policy`);
+    this._policies[object] = { ...this._policies[object], ...policy };
+    this.prune(object);
+  }
 
   /**
    * Returns the emitter for the entire cache; emits events for all objects.
@@ -81,7 +205,7 @@ export class Cache {
 
     if (!id) return cache.emitter as TypedEmitter<CacheItemEvents<T>>;
 
-    const item = cache.data[id];
+    const item = cache.data.get(id);
     if (!item)
       throw new Error(`Cannot get emitter when cache is empty for id ${id}`);
 
@@ -102,87 +226,207 @@ export class Cache {
    * First emits either 'cacheInserted' or 'updated' events, then emits a 'fetched' event.
    * @param object ObjectType to fetch
    * @param id Id of the object to fetch. For 'message' and 'run' objects, this is an object with a threadId and id property.
+   * For vector store files and file batches, it's an object with a vectorStoreId and id property.
    * @param options OpenAI.OpenAI.RequestOptions to pass to the fetch
    * @throws If the object type is invalid
    * @returns The fetched object
    */
   async fetch<T>(
     object: ObjectType,
-    id: Id | { threadId: Id; id: Id },
+    id: FetchId,
     options: OpenAI.RequestOptions = {},
   ): Promise<T> {
     let result: T;
     const opts = this.ctx._opts(options);
+    const request = { object, operation: "retrieve" };
     switch (object) {
       case "assistant":
         if (typeof id !== "string")
           throw new Error(`Invalid id type ${typeof id} to fetch an ${object}`);
-        result = (await this.ctx.client.beta.assistants.retrieve(
-          id,
-          opts,
+        result = (await this.ctx.requests.send(request, () =>
+          this.ctx.client.beta.assistants.retrieve(id, opts),
+        )) as T;
+        break;
+      case "file":
+        if (typeof id !== "string")
+          throw new Error(`Invalid id type ${typeof id} to fetch a ${object}`);
+        result = (await this.ctx.requests.send(request, () =>
+          this.ctx.client.files.retrieve(id, opts),
         )) as T;
         break;
       case "thread":
         if (typeof id !== "string")
           throw new Error(`Invalid id type ${typeof id} to fetch an ${object}`);
-        result = (await this.ctx.client.beta.threads.retrieve(id, opts)) as T;
+        result = (await this.ctx.requests.send(request, () =>
+          this.ctx.client.beta.threads.retrieve(id, opts),
+        )) as T;
         break;
       case "message":
-        if (typeof id !== "object")
+        if (typeof id !== "object" || !("threadId" in id))
           throw new Error(`Invalid id type ${typeof id} to fetch an ${object}`);
-        result = (await this.ctx.client.beta.threads.messages.retrieve(
-          id.threadId,
-          id.id,
-          opts,
+        result = (await this.ctx.requests.send(request, () =>
+          this.ctx.client.beta.threads.messages.retrieve(
+            id.threadId,
+            id.id,
+            opts,
+          ),
         )) as T;
         break;
       case "run":
-        if (typeof id !== "object")
+        if (typeof id !== "object" || !("threadId" in id))
           throw new Error(`Invalid id type ${typeof id} to fetch an ${object}`);
-        result = (await this.ctx.client.beta.threads.runs.retrieve(
-          id.threadId,
-          id.id,
-          opts,
+        result = (await this.ctx.requests.send(request, () =>
+          this.ctx.client.beta.threads.runs.retrieve(id.threadId, id.id, opts),
+        )) as T;
+        break;
+      case "step":
+        if (typeof id !== "object" || !("runId" in id))
+          throw new Error(`Invalid id type ${typeof id} to fetch a ${object}`);
+        result = (await this.ctx.requests.send(request, () =>
+          this.ctx.client.beta.threads.runs.steps.retrieve(
+            id.threadId,
+            id.runId,
+            id.id,
+            opts,
+          ),
         )) as T;
         break;
+      case "vector_store":
+        if (typeof id !== "string")
+          throw new Error(`Invalid id type ${typeof id} to fetch a ${object}`);
+        result = await this.ctx.requests.send(request, () =>
+          assistantsV2Request<T>(this.ctx, "get", `/vector_stores/${id}`, opts),
+        );
+        break;
+      case "vector_store_file":
+        if (typeof id !== "object" || !("vectorStoreId" in id))
+          throw new Error(`Invalid id type ${typeof id} to fetch a ${object}`);
+        result = await this.ctx.requests.send(request, () =>
+          assistantsV2Request<T>(
+            this.ctx,
+            "get",
+            `/vector_stores/${id.vectorStoreId}/files/${id.id}`,
+            opts,
+          ),
+        );
+        break;
+      case "vector_store_file_batch":
+        if (typeof id !== "object" || !("vectorStoreId" in id))
+          throw new Error(`Invalid id type ${typeof id} to fetch a ${object}`);
+        result = await this.ctx.requests.send(request, () =>
+          assistantsV2Request<T>(
+            this.ctx,
+            "get",
+            `/vector_stores/${id.vectorStoreId}/file_batches/${id.id}`,
+            opts,
+          ),
+        );
+        break;
       default:
         throw new Error(`Invalid object type ${object} to fetch`);
     }
-    const stringId: string = typeof id === "object" ? (id as any).id : id;
+    const stringId = typeof id === "object" ? id.id : id;
     this.set(object, stringId, result);
     this._emit("fetched", object, stringId, result);
     return result;
   }
 
   /**
-   * Returns an object from the cache, or fetches it from the API if it's not in the cache, emitting events in the process.
+   * Returns an object from the cache, or fetches it from the API if it's not in the cache or has expired, emitting events in the process.
    * @param object Object type
-   * @param id Object id
+   * @param id Object id. For 'message' and 'run' objects, this is an object with a threadId and id property.
    * @throws If the object type is invalid
    */
   async getOrFetch<T = any>(
     object: ObjectType,
-    id: Id,
+    id: FetchId,
     options?: OpenAI.RequestOptions,
   ): Promise<T> {
-    const cache = this._cache[object] as ObjectCache<T>;
-    if (!cache) throw new Error(`Invalid object type ${object} to getOrFetch`);
-    const existing = cache.data[id];
-    if (existing) return existing.value;
+    if (!this._cache[object])
+      throw new Error(`Invalid object type ${object} to getOrFetch`);
+    const stringId = typeof id === "object" ? id.id : id;
+    const existing = this.get<T>(object, stringId);
+    if (existing !== undefined) return existing;
+    const stored = await this.hydrate<T>(object, stringId);
+    if (stored !== undefined) return stored;
     return await this.fetch<T>(object, id, options);
   }
 
   /**
-   * Gets an object from the cache
+   * Loads an object from the storage into the cache without fetching it from the API.
+   * Emits a 'cacheInserted' event if it was found in the storage.
+   * @param object Object type
+   * @param id Object id
+   * @throws If the object type is invalid
+   * @returns The object or undefined if it's neither in the cache nor in the storage
+   */
+  async hydrate<T = any>(object: ObjectType, id: Id): Promise<T | undefined> {
+    const existing = this.get<T>(object, id);
+    if (existing !== undefined || !this.storage) return existing;
+    const stored = await this.storage.get<StoredCacheEntry<T>>(object, id);
+    // Another call may have inserted the object while reading from the storage
+    if (stored === undefined || this.get(object, id) !== undefined)
+      return this.get<T>(object, id);
+    if (this._isExpired(object, stored)) return undefined;
+    this._set(object, id, stored.value, false, stored.setAt);
+    return stored.value;
+  }
+
+  /**
+   * Waits until all pending writes to the storage have finished.
+   * @throws The first error that occurred while writing to the storage since the last flush
+   */
+  async flush() {
+    await this._writes;
+    const err = this._writeError;
+    this._writeError = null;
+    if (err) throw err;
+  }
+
+  private _persist(write: (storage: CacheStorage) => unknown) {
+    const storage = this.storage;
+    if (!storage) return;
+    this._writes = this._writes
+      .then(() => write(storage))
+      .then(
+        () => {},
+        (err) => {
+          this._writeError ??= err;
+        },
+      );
+  }
+
+  /**
+   * Gets an object from the cache and marks it as recently used. Expired entries are evicted instead.
    * @param object Object type
    * @param id Object id
    * @throws If the object type is invalid
    * @returns The object or undefined if it's not in the cache
    */
-  get<T = any>(object: ObjectType, id: Id) {
+  get<T = any>(object: ObjectType, id: Id): T | undefined {
     const cache = this._cache[object] as ObjectCache<T>;
     if (!cache) throw new Error(`Invalid object type ${object} to get`);
-    return (this._cache[object] as ObjectCache<T>).data[id]?.value;
+    const item = cache.data.get(id);
+    if (!item) return undefined;
+    if (this._isExpired(object, item)) {
+      this.evict(object, id);
+      return undefined;
+    }
+    cache.data.delete(id);
+    cache.data.set(id, item);
+    return item.value;
+  }
+
+  /**
+   * Returns the cached objects of a type, in no particular order. Doesn't mark them as recently used.
+   * @throws If the object type is invalid
+   */
+  values<T = any>(object: ObjectType): T[] {
+    const cache = this._cache[object] as ObjectCache<T>;
+    if (!cache) throw new Error(`Invalid object type ${object} to list`);
+    return [...cache.data.values()]
+      .filter((item) => !this._isExpired(object, item))
+      .map((item) => item.value);
   }
 
   /**
@@ -193,31 +437,105 @@ export class Cache {
    * @throws If the object type is invalid
    */
   set<T>(object: ObjectType, id: Id, value: T) {
+    this._set(object, id, value, true);
+  }
+
+  private _set<T>(
+    object: ObjectType,
+    id: Id,
+    value: T,
+    persist: boolean,
+    setAt = this.ctx.clock.now(),
+  ) {
     const cache = this._cache[object] as ObjectCache<T>;
     if (!cache) throw new Error(`Invalid object type ${object} to set`);
-    if (cache.data[id]) {
-      const data = cache.data[id]!;
+    const entry: StoredCacheEntry<T> = { value, setAt };
+    const data = cache.data.get(id);
+    if (data) {
+      // Mark as recently used
+      cache.data.delete(id);
+      cache.data.set(id, data);
+      data.setAt = setAt;
       if (data.value === value) return;
       data.value = value;
+      if (persist) this._persist((storage) => storage.set(object, id, entry));
       this._emit("updated", object, id, value);
     } else {
-      cache.data[id] = {
+      cache.data.set(id, {
         value,
         emitter: new TypedEmitter<CacheItemEvents<T>>(),
-      };
+        setAt,
+      });
+      if (persist) this._persist((storage) => storage.set(object, id, entry));
       this._emit("cacheInserted", object, id, value);
+      this._prune(object, id);
     }
   }
 
-  /** Removes an item from the cache. Emits a 'cacheRemoved' event. */
-  remove<T>(object: ObjectType, id: Id) {
-    const cache = this._cache[object] as ObjectCache<T>;
-    if (!cache) throw new Error(`Invalid object type ${object} to remove`);
-    if (cache.data[id]) {
-      const data = cache.data[id]!;
-      this._emit("cacheRemoved", object, id);
-      data.emitter.removeAllListeners();
-      delete cache.data[id];
+  /** Removes an item from the cache and the storage. Emits a 'cacheRemoved' event. */
+  remove(object: ObjectType, id: Id) {
+    if (!this._cache[object])
+      throw new Error(`Invalid object type ${object} to remove`);
+    this._persist((storage) => storage.remove(object, id));
+    this.evict(object, id);
+  }
+
+  /**
+   * Removes an item from the cache, but not from the storage. Emits a 'cacheRemoved' event.
+   * @returns true if the item was in the cache
+   */
+  evict(object: ObjectType, id: Id) {
+    const cache = this._cache[object];
+    if (!cache) throw new Error(`Invalid object type ${object} to evict`);
+    const data = cache.data.get(id);
+    if (!data) return false;
+    this._emit("cacheRemoved", object, id, data.value);
+    data.emitter.removeAllListeners();
+    cache.data.delete(id);
+    return true;
+  }
+
+  /**
+   * Evicts expired entries, then the least recently used entries above the max entries of the policy.
+   * Runs automatically when entries are inserted.
+   * @param object Object type to prune. Prunes all object types if omitted.
+   */
+  prune(object?: ObjectType) {
+    if (!object) {
+      for (const key in this._cache) this._prune(key as ObjectType);
+      return;
+    }
+    this._prune(object);
+  }
+
+  /** @param inserted The entry that was just inserted, which is never evicted, even if no other entry can be */
+  private _prune(object: ObjectType, inserted?: Id) {
+    const cache = this._cache[object];
+    if (!cache) throw new Error(`Invalid object type ${object} to prune`);
+    const policy = this.policy(object);
+    if (policy.pinned) return;
+
+    if (policy.ttlMs !== undefined) {
+      for (const [id, item] of [...cache.data]) {
+        if (this._isExpired(object, item)) this.evict(object, id);
+      }
+    }
+    if (policy.maxEntries !== undefined) {
+      let excess = cache.data.size - policy.maxEntries;
+      for (const [id, item] of [...cache.data]) {
+        if (excess <= 0) break;
+        if (id === inserted) continue;
+        if (policy.evictable && !policy.evictable(item.value)) continue;
+        this.evict(object, id);
+        excess--;
+      }
     }
   }
+
+  private _isExpired(object: ObjectType, item: StoredCacheEntry<unknown>) {
+    const policy = this.policy(object);
+    if (policy.pinned || policy.ttlMs === undefined) return false;
+    if (policy.evictable && !policy.evictable(item.value)) return false;
+    return this.ctx.clock.now() - item.setAt > policy.ttlMs;
+  }
 }
@@ -0,0 +1,384 @@
+import type { webcrypto } from "node:crypto";
+
+import { TypedEmitter } from "tiny-typed-emitter";
+
+import type { Id, ObjectType } from "./cache.js";
+import { Context } from "./index.js";
+
+type MaybePromise<T> = T | Promise<T>;
+
+// Global in browsers and Node 19+, unlike node:crypto
+const { crypto } = globalThis as unknown as { crypto: webcrypto.Crypto };
+
+/** Cache events that are broadcast to other processes */
+export type CacheSyncEvent = "updated" | "created" | "deleted";
+
+export interface CacheSyncMessage {
+  /** Id of the CacheSync that published the change */
+  origin: string;
+  event: CacheSyncEvent;
+  object: ObjectType;
+  id: Id;
+  /** The new value, for updated and created events */
+  value?: unknown;
+  /** Time of the change (ms) on the publisher's clock */
+  timestamp: number;
+  /** Version of the value, if the `version` option returned one */
+  version?: number;
+}
+
+/**
+ * Carries cache changes between processes.
+ * Transports may deliver a process's own messages back to it; CacheSync ignores them.
+ */
+export interface CacheSyncTransport {
+  publish(message: CacheSyncMessage): MaybePromise<void>;
+  /** @returns A function that stops the subscription */
+  subscribe(
+    listener: (message: CacheSyncMessage) => void,
+  ): MaybePromise<() => MaybePromise<void>>;
+}
+
+export interface CacheSyncOptions {
+  /** Object types to sync. Defaults to all. */
+  objects?: ObjectType[];
+  /**
+   * Returns the version of a value, e.g. from a counter in its metadata.
+   * Changes with a lower version than the local value are rejected, whatever their timestamp.
+   */
+  version?: (object: ObjectType, value: unknown) => number | undefined;
+}
+
+export interface CacheSyncEvents {
+  published: (message: CacheSyncMessage) => void;
+  /** An incoming change was applied to the local cache */
+  applied: (message: CacheSyncMessage) => void;
+  /** An incoming change was older than the local value */
+  rejected: (message: CacheSyncMessage) => void;
+  /** Publishing or receiving a message failed */
+  failed: (err: unknown) => void;
+}
+
+interface EntryVersion {
+  timestamp: number;
+  origin: string;
+  version?: number;
+}
+
+const syncedEvents: CacheSyncEvent[] = ["updated", "created", "deleted"];
+
+/** Streamed messages are updated with every delta while in progress; only their final value is broadcast */
+const isSettled = (object: ObjectType, value: unknown) =>
+  object !== "message" ||
+  (value as { status?: unknown } | undefined)?.status !== "in_progress";
+
+/** True if the change is newer than the local one. Versions win over timestamps; ties are broken by origin. */
+const isNewer = (incoming: EntryVersion, local: EntryVersion) => {
+  if (incoming.version !== undefined && local.version !== undefined) {
+    if (incoming.version !== local.version) {
+      return incoming.version > local.version;
+    }
+  }
+  if (incoming.timestamp !== local.timestamp) {
+    return incoming.timestamp > local.timestamp;
+  }
+  return incoming.origin > local.origin;
+};
+
+/**
+ * Keeps the caches of several processes in sync.
+ * Broadcasts the local cache's updated, created and deleted events, and applies incoming ones
+ * to the entries the local cache holds. Entries it doesn't hold are fetched fresh when they're needed anyway.
+ * Messages that are still streaming are only broadcast once they're settled, and evictions stay local.
+ * Values that are set again unchanged, e.g. by every poll of a run, aren't broadcast.
+ *
+ * Conflicting changes are resolved by version (see the `version` option), then by timestamp: the latest change wins.
+ */
+export class CacheSync extends TypedEmitter<CacheSyncEvents> {
+  /** Identifies this instance in published messages */
+  readonly origin = crypto.randomUUID();
+  private _versions = new Map<string, EntryVersion>();
+  /** Canonical form of each entry's last known value, to tell real changes apart */
+  private _values = new Map<string, string>();
+  /** Set while an incoming change is applied, so it isn't published again */
+  private _applying = false;
+  private _stop: (() => MaybePromise<void>) | null = null;
+  private _objects: Set<ObjectType> | null;
+
+  constructor(
+    private _ctx: Context,
+    public readonly transport: CacheSyncTransport,
+    private _options: CacheSyncOptions = {},
+  ) {
+    super();
+    this._objects = _options.objects ? new Set(_options.objects) : null;
+  }
+
+  /** True between start() and stop() */
+  get started() {
+    return this._stop !== null;
+  }
+
+  /** Subscribes to the transport and starts publishing local changes */
+  async start() {
+    if (this._stop) return;
+    const emitter = this._ctx.cache.emitter();
+    const listeners = syncedEvents.map((event) => {
+      const listener = (object: ObjectType, id: Id, value: unknown) =>
+        this._onLocal(event, object, id, value);
+      emitter.on(event, listener);
+      return () => emitter.off(event, listener);
+    });
+    const onInserted = (object: ObjectType, id: Id, value: unknown) =>
+      this._values.set(this._key(object, id), JSON.stringify(value));
+    emitter.on("cacheInserted", onInserted);
+    listeners.push(() => emitter.off("cacheInserted", onInserted));
+    // Evicted entries are no longer synced, so their versions are forgotten
+    const onRemoved = (object: ObjectType, id: Id) => {
+      const key = this._key(object, id);
+      this._versions.delete(key);
+      this._values.delete(key);
+    };
+    emitter.on("cacheRemoved", onRemoved);
+    listeners.push(() => emitter.off("cacheRemoved", onRemoved));
+    const unsubscribe = await this.transport.subscribe((message) =>
+      this._onMessage(message),
+    );
+    this._stop = async () => {
+      listeners.forEach((remove) => remove());
+      await unsubscribe();
+    };
+  }
+
+  /** Stops publishing and applying changes */
+  async stop() {
+    const stop = this._stop;
+    this._stop = null;
+    await stop?.();
+  }
+
+  private _key(object: ObjectType, id: Id) {
+    return `${object}:${id}`;
+  }
+
+  private _syncs(object: ObjectType) {
+    return !this._objects || this._objects.has(object);
+  }
+
+  private _onLocal(
+    event: CacheSyncEvent,
+    object: ObjectType,
+    id: Id,
+    value: unknown,
+  ) {
+    if (this._applying || !this._syncs(object)) return;
+    if (event !== "deleted" && !isSettled(object, value)) return;
+    const key = this._key(object, id);
+    if (event !== "deleted") {
+      const json = JSON.stringify(value);
+      if (this._values.get(key) === json) return;
+      this._values.set(key, json);
+    }
+    const message: CacheSyncMessage = {
+      origin: this.origin,
+      event,
+      object,
+      id,
+      timestamp: this._ctx.clock.now(),
+    };
+    if (event === "updated" || event === "created") {
+      message.value = value;
+      message.version = this._options.version?.(object, value);
+      this._versions.set(key, message);
+    } else {
+      this._versions.delete(key);
+    }
+    Promise.resolve()
+      .then(() => this.transport.publish(message))
+      .then(
+        () => this.emit("published", message),
+        (err) => this.emit("failed", err),
+      );
+  }
+
+  private _onMessage(message: CacheSyncMessage) {
+    if (message.origin === this.origin || !this._syncs(message.object)) return;
+    const { event, object, id } = message;
+    const cache = this._ctx.cache;
+    // Only entries held by the local cache are updated
+    if (cache.get(object, id) === undefined) return;
+
+    const key = this._key(object, id);
+    const local = this._versions.get(key);
+    if (
+      (event === "updated" || event === "created") &&
+      local &&
+      !isNewer(message, local)
+    ) {
+      this.emit("rejected", message);
+      return;
+    }
+
+    this._applying = true;
+    try {
+      switch (event) {
+        case "updated":
+        case "created":
+          cache.set(object, id, message.value);
+          this._versions.set(key, message);
+          this._values.set(key, JSON.stringify(message.value));
+          break;
+        case "deleted":
+          cache._emit("deleted", object, id);
+          cache.remove(object, id);
+          this._versions.delete(key);
+          break;
+      }
+    } catch (err) {
+      this.emit("failed", err);
+      return;
+    } finally {
+      this._applying = false;
+    }
+    this.emit("applied", message);
+  }
+}
+
+/**
+ * Connects the CacheSyncs of several contexts in the same process, e.g. for tests.
+ * Messages are copied, so contexts never share values.
+ */
+export class LocalCacheSyncBus {
+  private _listeners = new Set<(message: CacheSyncMessage) => void>();
+
+  /** Returns a transport connected to the bus */
+  transport(): CacheSyncTransport {
+    return {
+      publish: (message) => {
+        for (const listener of [...this._listeners]) {
+          listener(structuredClone(message));
+        }
+      },
+      subscribe: (listener) => {
+        this._listeners.add(listener);
+        return () => {
+          this._listeners.delete(listener);
+        };
+      },
+    };
+  }
+}
+
+/** A process, child process or cluster worker with an IPC channel */
+export interface IpcChannel {
+  send?(message: unknown): unknown;
+  on(event: "message", listener: (message: unknown) => void): unknown;
+  off(event: "message", listener: (message: unknown) => void): unknown;
+}
+
+const IPC_MESSAGE_TYPE = "openai-gpt-assistants:cache-sync";
+
+interface IpcEnvelope {
+  type: typeof IPC_MESSAGE_TYPE;
+  message: CacheSyncMessage;
+}
+
+const isEnvelope = (data: unknown): data is IpcEnvelope =>
+  typeof data === "object" &&
+  data !== null &&
+  (data as { type?: unknown }).type === IPC_MESSAGE_TYPE;
+
+/**
+ * Sends changes over a Node IPC channel, by default the current process's channel to its parent.
+ * The parent relays them to the other workers with relayIpcCacheSync().
+ */
+export class IpcCacheSyncTransport implements CacheSyncTransport {
+  constructor(private _channel: IpcChannel = process) {}
+
+  publish(message: CacheSyncMessage) {
+    if (!this._channel.send) {
+      throw new Error("The process has no IPC channel to publish to");
+    }
+    this._channel.send({
+      type: IPC_MESSAGE_TYPE,
+      message,
+    } satisfies IpcEnvelope);
+  }
+
+  subscribe(listener: (message: CacheSyncMessage) => void) {
+    const onMessage = (data: unknown) => {
+      if (isEnvelope(data)) listener(data.message);
+    };
+    this._channel.on("message", onMessage);
+    return () => {
+      this._channel.off("message", onMessage);
+    };
+  }
+}
+
+/**
+ * Forwards the cache changes each worker sends to all other workers. Call it in the primary process.
+ * @returns A function that stops relaying
+ */
+export const relayIpcCacheSync = (workers: IpcChannel[]) => {
+  const removers = workers.map((worker) => {
+    const onMessage = (data: unknown) => {
+      if (!isEnvelope(data)) return;
+      for (const other of workers) {
+        if (other !== worker) other.send?.(data);
+      }
+    };
+    worker.on("message", onMessage);
+    return () => worker.off("message", onMessage);
+  });
+  return () => removers.forEach((remove) => remove());
+};
+
+/**
+ * The pub/sub API of `redis` (node-redis v4) clients.
+ * Other Redis-compatible clients can be adapted to it.
+ */
+export interface RedisPubSubClient {
+  publish(channel: string, message: string): MaybePromise<unknown>;
+  subscribe(
+    channel: string,
+    listener: (message: string, channel: string) => void,
+  ): MaybePromise<unknown>;
+  unsubscribe(
+    channel: string,
+    listener?: (message: string, channel: string) => void,
+  ): MaybePromise<unknown>;
+}
+
+/**
+ * Publishes changes on a Redis channel.
+ * Redis connections in subscriber mode can't publish, so pass a separate subscriber, e.g. `publisher.duplicate()`.
+ */
+export class RedisCacheSyncTransport implements CacheSyncTransport {
+  constructor(
+    private _publisher: RedisPubSubClient,
+    private _subscriber: RedisPubSubClient,
+    public readonly channel = "openai-gpt-assistants:cache-sync",
+  ) {}
+
+  async publish(message: CacheSyncMessage) {
+    await this._publisher.publish(this.channel, JSON.stringify(message));
+  }
+
+  async subscribe(listener: (message: CacheSyncMessage) => void) {
+    const onMessage = (message: string) => {
+      let parsed: CacheSyncMessage;
+      try {
+        parsed = JSON.parse(message) as CacheSyncMessage;
+      } catch {
+        // Not published by a CacheSync
+        return;
+      }
+      listener(parsed);
+    };
+    await this._subscriber.subscribe(this.channel, onMessage);
+    return async () => {
+      await this._subscriber.unsubscribe(this.channel, onMessage);
+    };
+  }
+}
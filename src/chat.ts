@@ -0,0 +1,247 @@
+import { OpenAI } from "openai";
+import { TypedEmitter } from "tiny-typed-emitter";
+
+import { File } from "./file.js";
+import { Assistant, Context } from "./index.js";
+import { Message } from "./message.js";
+import { PollingOptions } from "./polling.js";
+import { replaceTextRanges, TextReplacement } from "./render.js";
+import { Run } from "./run.js";
+import { Thread } from "./thread.js";
+import { ToolRegistry } from "./tools.js";
+
+export interface ChatSessionOptions {
+  /** Continue an existing thread. By default, a thread is created when the first message is sent. */
+  thread?: Thread;
+  /** Metadata of threads created by the session */
+  threadMetadata?: unknown;
+  /** Overrides the Context's tool registry for the session's runs */
+  toolRegistry?: ToolRegistry;
+  /** Overrides the Context's polling options for the session's runs */
+  polling?: PollingOptions;
+}
+
+export interface ChatSendOptions {
+  /** Files to attach to the message, as File objects or ids */
+  files?: (File | string)[];
+  metadata?: unknown;
+}
+
+/** A file cited in a reply. `index` is the number of the `[n]` marker in the reply text. */
+export interface ChatCitation {
+  index: number;
+  fileId: string;
+  /** Null if the file couldn't be loaded, e.g. because it was deleted */
+  file: File | null;
+  /** Quote from the cited file, for file citations */
+  quote: string | null;
+}
+
+export interface ChatReply {
+  /** The user message that was sent */
+  message: Message;
+  /** The assistant messages created by the run, oldest first */
+  messages: Message[];
+  /** Text of all reply messages, with annotations replaced by `[n]` citation markers */
+  text: string;
+  citations: ChatCitation[];
+  run: Run;
+}
+
+export interface ChatSessionEvents {
+  sent: (message: Message) => void;
+  reply: (reply: ChatReply) => void;
+}
+
+/**
+ * Conversation with an assistant on a single thread.
+ * Sends are queued, since a thread can only have one active run.
+ */
+export class ChatSession extends TypedEmitter<ChatSessionEvents> {
+  private _thread: Thread | null;
+  private _queue: Promise<unknown> = Promise.resolve();
+  private _pending = 0;
+
+  constructor(
+    private _ctx: Context,
+    public readonly assistant: Assistant,
+    private _options: ChatSessionOptions = {},
+  ) {
+    super();
+    this._thread = _options.thread ?? null;
+  }
+
+  /** The session's thread, or null until the first message is sent. The thread is created then. */
+  get thread() {
+    return this._thread;
+  }
+
+  /** Number of sends waiting for their reply, including the active one */
+  get pending() {
+    return this._pending;
+  }
+
+  /**
+   * Sends a user message and waits for the assistant's reply.
+   * Waits for earlier sends to finish first.
+   * @throws If the run ends with another status than completed
+   */
+  send(
+    text: string,
+    sendOptions: ChatSendOptions = {},
+    options: OpenAI.RequestOptions = {},
+  ) {
+    return this._enqueue(() => this._send(text, sendOptions, options));
+  }
+
+  /**
+   * Returns all messages of the session's thread, oldest first.
+   */
+  async history(options: OpenAI.RequestOptions = {}) {
+    const thread = this._thread;
+    if (!thread) return [];
+    const page = await thread.messages(options, { order: "asc", limit: 100 });
+    return await page.toArray();
+  }
+
+  /**
+   * Starts a new conversation after the queued sends have finished. The next send creates a new thread.
+   */
+  async reset() {
+    await this._enqueue(() => {
+      this._thread = null;
+      return Promise.resolve();
+    });
+  }
+
+  private _enqueue<T>(task: () => Promise<T>) {
+    this._pending++;
+    const result = this._queue.then(task).finally(() => this._pending--);
+    // A failed send doesn't stop the following ones
+    this._queue = result.catch(() => {});
+    return result;
+  }
+
+  private async _send(
+    text: string,
+    sendOptions: ChatSendOptions,
+    options: OpenAI.RequestOptions,
+  ): Promise<ChatReply> {
+    const messageParams: OpenAI.Beta.Threads.MessageCreateParams = {
+      role: "user",
+      content: text,
+      file_ids: sendOptions.files?.map((file) =>
+        typeof file === "string" ? file : file.id,
+      ),
+      metadata: sendOptions.metadata,
+    };
+    const { toolRegistry, polling } = this._options;
+
+    this._thread ??= await Thread.create(
+      this._ctx,
+      { metadata: this._options.threadMetadata },
+      options,
+    );
+    const [message, run] = await this._thread.createMessageAndRun(
+      messageParams,
+      { assistant: this.assistant, toolRegistry, polling },
+      options,
+    );
+    this.emit("sent", message);
+
+    const status = await run.waitUntilFinished();
+    if (status !== "completed") {
+      const error = run.wrappedValue.last_error;
+      throw new Error(
+        `Run id ${run.id} ended with status ${status}${
+          error ? `: ${error.message}` : ""
+        }`,
+      );
+    }
+
+    const messages = await this._replies(run, message, options);
+    const reply: ChatReply = {
+      message,
+      messages,
+      run,
+      ...(await flatten(this._ctx, messages, options)),
+    };
+    this.emit("reply", reply);
+    return reply;
+  }
+
+  /** Returns the assistant messages of the run, walking pages until the sent message */
+  private async _replies(
+    run: Run,
+    sent: Message,
+    options: OpenAI.RequestOptions,
+  ) {
+    const replies: Message[] = [];
+    for await (const message of await run.thread.messages(options)) {
+      if (message.id === sent.id) break;
+      if (
+        message.role === "assistant" &&
+        message.wrappedValue.run_id === run.id
+      ) {
+        replies.push(message);
+      }
+    }
+    return replies.reverse();
+  }
+}
+
+/** Loads a cited file. Returns null if it can't be loaded, e.g. because it was deleted. */
+const loadCitedFile = async (
+  ctx: Context,
+  fileId: string,
+  options: OpenAI.RequestOptions,
+) => {
+  try {
+    return await File.load(ctx, fileId, options);
+  } catch (err) {
+    ctx.logger.warn(`Failed to load cited file ${fileId}`, {
+      fileId,
+      error: err,
+    });
+    return null;
+  }
+};
+
+/** Joins the text of the messages and replaces annotations with numbered citations */
+const flatten = async (
+  ctx: Context,
+  messages: Message[],
+  options: OpenAI.RequestOptions,
+) => {
+  const citations: ChatCitation[] = [];
+  const texts: string[] = [];
+  for (const message of messages) {
+    for (const part of message.content) {
+      if (part.type !== "text") continue;
+      const replacements: TextReplacement[] = [];
+      const annotations = [...part.text.annotations].sort(
+        (a, b) => a.start_index - b.start_index,
+      );
+      for (const annotation of annotations) {
+        const index = citations.length + 1;
+        replacements.push({
+          start: annotation.start_index,
+          end: annotation.end_index,
+          text: `[${index}]`,
+        });
+        const isCitation = annotation.type === "file_citation";
+        const fileId = isCitation
+          ? annotation.file_citation.file_id
+          : annotation.file_path.file_id;
+        citations.push({
+          index,
+          fileId,
+          file: await loadCitedFile(ctx, fileId, options),
+          quote: isCitation ? annotation.file_citation.quote : null,
+        });
+      }
+      texts.push(replaceTextRanges(part.text.value, replacements));
+    }
+  }
+  return { text: texts.join("\n\n"), citations };
+};
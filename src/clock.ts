@@ -0,0 +1,121 @@
+/** Source of time and timers. Replace it with a VirtualClock to control polling in tests. */
+export interface Clock {
+  /** Milliseconds since the epoch */
+  now(): number;
+  setTimeout(callback: () => void, delayMs: number): unknown;
+  clearTimeout(timer: unknown): void;
+}
+
+/** The real clock */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, delayMs) => setTimeout(callback, delayMs),
+  clearTimeout: (timer) =>
+    clearTimeout(timer as ReturnType<typeof setTimeout> | undefined),
+};
+
+interface VirtualTimer {
+  at: number;
+  /** Timers due at the same time fire in the order they were set */
+  seq: number;
+  callback: () => void;
+}
+
+/** Lets pending promise callbacks run, so they can set new timers */
+const flush = () => new Promise<void>((resolve) => setImmediate(resolve));
+
+/**
+ * Clock whose time only moves when advanced. Timers fire in order as time passes.
+ */
+export class VirtualClock implements Clock {
+  private _now: number;
+  private _seq = 0;
+  private _timers = new Set<VirtualTimer>();
+
+  /** @param start Start time in milliseconds since the epoch. Defaults to 0. */
+  constructor(start = 0) {
+    this._now = start;
+  }
+
+  now() {
+    return this._now;
+  }
+
+  setTimeout(callback: () => void, delayMs: number) {
+    const timer: VirtualTimer = {
+      at: this._now + Math.max(0, delayMs),
+      seq: this._seq++,
+      callback,
+    };
+    this._timers.add(timer);
+    return timer;
+  }
+
+  clearTimeout(timer: unknown) {
+    this._timers.delete(timer as VirtualTimer);
+  }
+
+  /** Number of timers waiting to fire */
+  get pending() {
+    return this._timers.size;
+  }
+
+  private _next() {
+    let next: VirtualTimer | null = null;
+    for (const timer of this._timers) {
+      if (
+        !next ||
+        timer.at < next.at ||
+        (timer.at === next.at && timer.seq < next.seq)
+      ) {
+        next = timer;
+      }
+    }
+    return next;
+  }
+
+  /**
+   * Moves time forward, firing the timers that become due.
+   * Waits for promise callbacks after each timer, so timers they set in the meantime fire too.
+   */
+  async advance(ms: number) {
+    const until = this._now + ms;
+    await flush();
+    for (;;) {
+      const next = this._next();
+      if (!next || next.at > until) break;
+      this._timers.delete(next);
+      this._now = next.at;
+      next.callback();
+      await flush();
+    }
+    this._now = until;
+  }
+
+  /**
+   * Fires timers in order until the promise settles, and returns its result.
+   * @throws If no timer is left but the promise hasn't settled, or after `maxTimers` timers
+   */
+  async runUntil<T>(promise: Promise<T>, maxTimers = 10_000) {
+    let settled = false;
+    const tracked = promise.finally(() => {
+      settled = true;
+    });
+    // Avoid an unhandled rejection while timers run; the caller gets the error below
+    tracked.catch(() => {});
+    await flush();
+    for (let fired = 0; !settled; fired++) {
+      const next = this._next();
+      if (!next)
+        throw new Error(
+          "VirtualClock has no timers left, but the promise hasn't settled",
+        );
+      if (fired >= maxTimers)
+        throw new Error(
+          `VirtualClock fired ${maxTimers} timers, but the promise hasn't settled`,
+        );
+      await this.advance(next.at - this._now);
+    }
+    return await tracked;
+  }
+}
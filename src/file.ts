@@ -0,0 +1,125 @@
+import { OpenAI, toFile } from "openai";
+
+import { Context } from "./index.js";
+import { createWrappedPage, StatefulObject } from "./utils.js";
+
+/** The contents of a file, a stream of them, or anything the openai package can upload. Files on disk are read with `fileFromPath()` from `openai-gpt-assistants/node`. */
+export type FileSource =
+  | Uint8Array
+  | AsyncIterable<Uint8Array>
+  | OpenAI.FileCreateParams["file"];
+
+export interface FileUploadParams {
+  /** Defaults to 'assistants' */
+  purpose?: OpenAI.FileCreateParams["purpose"];
+  /** Name of the uploaded file. Defaults to the name of the file or stream, if it has one. */
+  filename?: string;
+}
+
+export interface FileEvents {}
+
+export class File extends StatefulObject<File, OpenAI.FileObject, FileEvents> {
+  constructor(ctx: Context, id: string) {
+    super(ctx, File.object, id);
+  }
+
+  static readonly object = "file";
+  readonly object = File.object;
+
+  get filename() {
+    return this.wrappedValue.filename;
+  }
+  get bytes() {
+    return this.wrappedValue.bytes;
+  }
+  get purpose() {
+    return this.wrappedValue.purpose;
+  }
+  get status() {
+    return this.wrappedValue.status;
+  }
+  get createdAt() {
+    return new Date(this.wrappedValue.created_at * 1000);
+  }
+
+  /**
+   * Uploads a file.
+   * @param source Contents, a stream or a file-like object. Streams are read into memory, so the upload can be retried.
+   */
+  static async upload(
+    ctx: Context,
+    source: FileSource,
+    params: FileUploadParams = {},
+    options: OpenAI.RequestOptions = {},
+  ) {
+    const { purpose = "assistants", filename } = params;
+    const fileLike = await toFile(
+      source as Parameters<typeof toFile>[0],
+      filename,
+    );
+    const file = await ctx.requests.send(
+      { object: this.object, operation: "create" },
+      () =>
+        ctx.client.files.create(
+          { file: fileLike, purpose },
+          ctx._opts(options),
+        ),
+    );
+    ctx.cache.set(this.object, file.id, file);
+    ctx.cache._emit("created", this.object, file.id, file);
+    return new File(ctx, file.id);
+  }
+
+  /** Constructs a new File object by fetching by id or returning from cache if already present. */
+  static async load(ctx: Context, id: string, options?: OpenAI.RequestOptions) {
+    const file = new File(ctx, id);
+    await file.load(options);
+    return file;
+  }
+
+  /** Loads several files by id in parallel. Files that are already cached aren't fetched again. */
+  static async loadAll(
+    ctx: Context,
+    ids: string[],
+    options?: OpenAI.RequestOptions,
+  ) {
+    return await Promise.all(ids.map((id) => File.load(ctx, id, options)));
+  }
+
+  /**
+   * Returns a list of files.
+   */
+  static async list(ctx: Context, options: OpenAI.RequestOptions = {}) {
+    const page = await ctx.requests.send(
+      { object: this.object, operation: "list" },
+      () => ctx.client.files.list(ctx._opts(options)),
+    );
+    return createWrappedPage(ctx, page, (ctx, id) => new File(ctx, id));
+  }
+
+  /**
+   * Deletes this file.
+   */
+  async delete(options: OpenAI.RequestOptions = {}) {
+    const deleted = await this._ctx.requests.send(
+      { object: this.object, operation: "delete" },
+      () => this._ctx.client.files.del(this.id, this._ctx._opts(options)),
+    );
+    if (deleted.deleted) {
+      this._cache._emit("deleted", this.object, this.id);
+      this._cache.remove(this.object, this.id);
+    }
+    return deleted;
+  }
+
+  /**
+   * Returns the contents of this file. Contents aren't cached.
+   */
+  async content(options: OpenAI.RequestOptions = {}) {
+    const response = await this._ctx.requests.send(
+      { object: this.object, operation: "content" },
+      () => this._ctx.client.files.content(this.id, this._ctx._opts(options)),
+    );
+    return new Uint8Array(await response.arrayBuffer());
+  }
+}
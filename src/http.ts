@@ -0,0 +1,435 @@
+import type { ReadableStream as WebReadableStream } from "node:stream/web";
+
+import { OpenAI } from "openai";
+
+import { Assistant, Context } from "./index.js";
+import { Message } from "./message.js";
+import { Run, RunStatus } from "./run.js";
+import { RunStep } from "./runStep.js";
+import { Thread } from "./thread.js";
+import { ThreadBusyError } from "./threadQueue.js";
+import { BudgetExceededError } from "./usage.js";
+
+type MaybePromise<T> = T | Promise<T>;
+
+// The global of every Fetch API runtime (Node, Deno, Bun, edge); @types/node only types it in node:stream/web
+const { ReadableStream } = globalThis as unknown as {
+  ReadableStream: typeof WebReadableStream;
+};
+
+/** The caller of a request, as identified by the auth hook */
+export interface HttpPrincipal {
+  /**
+   * Set on the threads the principal creates. The principal can only access threads with these metadata values,
+   * e.g. `{ tenant: "acme", user: "42" }`.
+   */
+  metadata?: Record<string, string>;
+}
+
+/** Identifies the caller, e.g. from a session cookie or a bearer token. Return null to answer 401. */
+export type HttpAuthHook = (
+  request: Request,
+) => MaybePromise<HttpPrincipal | null>;
+
+export interface HttpHandlerOptions {
+  /** The assistants clients can run, by the key they pass as `assistant` */
+  assistants: Record<string, Assistant>;
+  /** Defaults to allowing every request, without restricting threads */
+  auth?: HttpAuthHook;
+  /** Prefix of all routes, e.g. "/api/assistants". Defaults to none. */
+  basePath?: string;
+}
+
+/** Answers a Fetch API request, e.g. in a route handler of Next.js, Hono or Deno */
+export type HttpHandler = (request: Request) => Promise<Response>;
+
+/** Thrown by route handlers to answer with a status code */
+export class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+interface RouteContext {
+  request: Request;
+  principal: HttpPrincipal;
+  params: string[];
+  url: URL;
+}
+
+interface Route {
+  method: string;
+  path: RegExp;
+  handle: (route: RouteContext) => Promise<Response>;
+}
+
+const finishedStatuses: RunStatus[] = [
+  "cancelled",
+  "expired",
+  "completed",
+  "failed",
+];
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+
+const readBody = async (request: Request) => {
+  if (!request.body) return {};
+  try {
+    const body = await request.json();
+    if (typeof body === "object" && body !== null && !Array.isArray(body)) {
+      return body as Record<string, unknown>;
+    }
+  } catch {
+    // Answered below
+  }
+  throw new HttpError(400, "The body must be a JSON object");
+};
+
+const stringRecord = (value: unknown, name: string) => {
+  if (value === undefined) return {};
+  if (
+    typeof value !== "object" ||
+    value === null ||
+    Object.values(value).some((item) => typeof item !== "string")
+  ) {
+    throw new HttpError(400, `${name} must be an object of strings`);
+  }
+  return value as Record<string, string>;
+};
+
+const sseEvent = (event: string, data: unknown) =>
+  `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+
+/**
+ * Creates a request handler that exposes threads and runs to clients that can't hold the API key.
+ * Routes, relative to `basePath`:
+ * - `POST /threads` creates a thread, with the principal's metadata
+ * - `GET /threads/:id`
+ * - `GET /threads/:id/messages` lists messages, with the `limit`, `order`, `after` and `before` query params
+ * - `POST /threads/:id/messages` adds a user message
+ * - `POST /threads/:id/runs` starts a run of one of the `assistants`
+ * - `GET /threads/:id/runs/:runId`
+ * - `POST /threads/:id/runs/:runId/cancel`
+ * - `GET /threads/:id/runs/:runId/events` streams the run as server-sent events until it has finished
+ *
+ * Threads whose metadata doesn't match the principal's are answered with 404.
+ */
+export const httpHandler = (
+  ctx: Context,
+  options: HttpHandlerOptions,
+): HttpHandler => {
+  const auth: HttpAuthHook = options.auth ?? (() => ({}));
+  const basePath = options.basePath ?? "";
+  /** Runs started by the handler, which emit the events of their polling or stream */
+  const runs = new Map<string, Run>();
+  /** Runs the Context doesn't own, watched for event streams, with their number of open streams */
+  const watched = new Map<string, { run: Run; streams: number }>();
+
+  const loadThread = async (id: string, principal: HttpPrincipal) => {
+    let thread: Thread;
+    try {
+      thread = await Thread.load(ctx, id);
+    } catch (err) {
+      if (err instanceof OpenAI.NotFoundError) {
+        throw new HttpError(404, `No thread found with id ${id}`);
+      }
+      throw err;
+    }
+    const metadata = (thread.metadata ?? {}) as Record<string, unknown>;
+    const allowed = Object.entries(principal.metadata ?? {}).every(
+      ([key, value]) => metadata[key] === value,
+    );
+    if (!allowed) throw new HttpError(404, `No thread found with id ${id}`);
+    return thread;
+  };
+
+  const loadRun = async (thread: Thread, id: string) => {
+    // The Run that polls or streams the run, so its events are received without polling it twice
+    const known =
+      runs.get(id) ?? ctx.threadQueue.run(id) ?? watched.get(id)?.run;
+    let run: OpenAI.Beta.Threads.Run;
+    try {
+      // Unlike Run.load(), this doesn't poll the run; the events route watches it if needed
+      run = await ctx.cache.getOrFetch(Run.object, { threadId: thread.id, id });
+    } catch (err) {
+      if (err instanceof OpenAI.NotFoundError) {
+        throw new HttpError(404, `No run found with id ${id}`);
+      }
+      throw err;
+    }
+    // The cache finds runs by id alone, so a run of another thread must not be exposed
+    if (run.thread_id !== thread.id) {
+      throw new HttpError(404, `No run found with id ${id}`);
+    }
+    return known ?? new Run(ctx, thread, id);
+  };
+
+  const runEvents = (run: Run, request: Request) => {
+    const encoder = new TextEncoder();
+    let cleanup = () => {};
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const send = (event: string, data: unknown) =>
+          controller.enqueue(encoder.encode(sseEvent(event, data)));
+        let closed = false;
+        const close = () => {
+          if (closed) return;
+          closed = true;
+          cleanup();
+          controller.close();
+        };
+
+        send("run", run.wrappedValue);
+        if (finishedStatuses.includes(run.status)) {
+          send("done", { status: run.status });
+          close();
+          return;
+        }
+
+        // Messages reach the cache from streams, listed messages and completed message steps
+        const messages = ctx.cache.emitter<OpenAI.Beta.Threads.ThreadMessage>(
+          Message.object,
+        );
+        const onMessage = (
+          _: string,
+          message: OpenAI.Beta.Threads.ThreadMessage,
+        ) => {
+          if (message.run_id === run.id) send("message", message);
+        };
+        const onStatus = () => send("run", run.wrappedValue);
+        const onText = (text: string, message: Message) =>
+          send("text", { message_id: message.id, text });
+        const onAction = (action: OpenAI.Beta.Threads.Run["required_action"]) =>
+          send("requires_action", action);
+        const onStep = (step: RunStep) => {
+          // Loading the message emits it through the cache
+          void step.message?.load().catch(() => {});
+        };
+        const onFinished = (err: unknown, status: RunStatus | null) => {
+          if (err) {
+            send("error", {
+              message: err instanceof Error ? err.message : String(err),
+            });
+          } else send("done", { status });
+          close();
+        };
+        messages.on("cacheInserted", onMessage);
+        messages.on("updated", onMessage);
+        run.on("statusChanged", onStatus);
+        run.on("textDelta", onText);
+        run.on("actionRequired", onAction);
+        run.on("stepCompleted", onStep);
+        run.on("finished", onFinished);
+        request.signal.addEventListener("abort", close);
+        cleanup = () => {
+          messages.off("cacheInserted", onMessage);
+          messages.off("updated", onMessage);
+          run.off("statusChanged", onStatus);
+          run.off("textDelta", onText);
+          run.off("actionRequired", onAction);
+          run.off("stepCompleted", onStep);
+          run.off("finished", onFinished);
+          request.signal.removeEventListener("abort", close);
+          // The last stream of a watched run stops polling it
+          const entry = watched.get(run.id);
+          if (entry?.run === run && !--entry.streams) {
+            watched.delete(run.id);
+            run.endPolling();
+          }
+        };
+
+        // Runs the Context doesn't own are watched once, for all their streams, without dispatching their tool calls
+        let entry = watched.get(run.id);
+        const owned =
+          runs.get(run.id) === run || ctx.threadQueue.run(run.id) === run;
+        if (!entry && !owned) {
+          entry = { run, streams: 0 };
+          watched.set(run.id, entry);
+          run.beginPolling({}, { readOnly: true });
+        }
+        if (entry) entry.streams++;
+      },
+      cancel() {
+        cleanup();
+      },
+    });
+    return new Response(stream, {
+      headers: {
+        "content-type": "text/event-stream",
+        "cache-control": "no-cache",
+        connection: "keep-alive",
+      },
+    });
+  };
+
+  const routes: Route[] = [
+    {
+      method: "POST",
+      path: /^\/threads$/,
+      handle: async ({ request, principal }) => {
+        const body = await readBody(request);
+        const thread = await Thread.create(ctx, {
+          metadata: {
+            ...stringRecord(body.metadata, "metadata"),
+            ...principal.metadata,
+          },
+        });
+        return json(thread.wrappedValue, 201);
+      },
+    },
+    {
+      method: "GET",
+      path: /^\/threads\/([^/]+)$/,
+      handle: async ({ principal, params: [id] }) => {
+        const thread = await loadThread(id!, principal);
+        return json(thread.wrappedValue);
+      },
+    },
+    {
+      method: "GET",
+      path: /^\/threads\/([^/]+)\/messages$/,
+      handle: async ({ principal, params: [id], url }) => {
+        const thread = await loadThread(id!, principal);
+        const query = url.searchParams;
+        const limit = query.get("limit");
+        const order = query.get("order");
+        if (order !== null && order !== "asc" && order !== "desc") {
+          throw new HttpError(400, "order must be asc or desc");
+        }
+        const page = await thread.messages(
+          {},
+          {
+            limit: limit === null ? undefined : Number(limit),
+            order: order ?? undefined,
+            after: query.get("after") ?? undefined,
+            before: query.get("before") ?? undefined,
+          },
+        );
+        return json({
+          object: "list",
+          data: page.data.map((message) => message.wrappedValue),
+          has_more: page.hasNextPage(),
+        });
+      },
+    },
+    {
+      method: "POST",
+      path: /^\/threads\/([^/]+)\/messages$/,
+      handle: async ({ request, principal, params: [id] }) => {
+        const thread = await loadThread(id!, principal);
+        const body = await readBody(request);
+        if (typeof body.content !== "string" || !body.content) {
+          throw new HttpError(400, "content must be a non-empty string");
+        }
+        const message = await Message.create(ctx, thread, {
+          role: "user",
+          content: body.content,
+          metadata: stringRecord(body.metadata, "metadata"),
+        });
+        return json(message.wrappedValue, 201);
+      },
+    },
+    {
+      method: "POST",
+      path: /^\/threads\/([^/]+)\/runs$/,
+      handle: async ({ request, principal, params: [id] }) => {
+        const thread = await loadThread(id!, principal);
+        const body = await readBody(request);
+        const assistant =
+          typeof body.assistant === "string"
+            ? options.assistants[body.assistant]
+            : undefined;
+        if (!assistant) {
+          throw new HttpError(400, "assistant must be a known assistant key");
+        }
+        const run = await Run.create(ctx, thread, {
+          assistant,
+          metadata: {
+            ...stringRecord(body.metadata, "metadata"),
+            ...principal.metadata,
+          },
+        });
+        runs.set(run.id, run);
+        run.once("finished", () => runs.delete(run.id));
+        return json(run.wrappedValue, 201);
+      },
+    },
+    {
+      method: "GET",
+      path: /^\/threads\/([^/]+)\/runs\/([^/]+)$/,
+      handle: async ({ principal, params: [id, runId] }) => {
+        const run = await loadRun(await loadThread(id!, principal), runId!);
+        return json(run.wrappedValue);
+      },
+    },
+    {
+      method: "POST",
+      path: /^\/threads\/([^/]+)\/runs\/([^/]+)\/cancel$/,
+      handle: async ({ principal, params: [id, runId] }) => {
+        const run = await loadRun(await loadThread(id!, principal), runId!);
+        await run.cancel();
+        return json(run.wrappedValue);
+      },
+    },
+    {
+      method: "GET",
+      path: /^\/threads\/([^/]+)\/runs\/([^/]+)\/events$/,
+      handle: async ({ request, principal, params: [id, runId] }) => {
+        const run = await loadRun(await loadThread(id!, principal), runId!);
+        return runEvents(run, request);
+      },
+    },
+  ];
+
+  return async (request) => {
+    const url = new URL(request.url);
+    if (!url.pathname.startsWith(basePath)) {
+      return json({ error: { message: "Not found" } }, 404);
+    }
+    const path = url.pathname.slice(basePath.length).replace(/\/$/, "");
+    const matching = routes
+      .map((route) => ({ route, match: route.path.exec(path) }))
+      .filter(({ match }) => match);
+    const found = matching.find(({ route }) => route.method === request.method);
+    try {
+      if (!found) {
+        throw matching.length
+          ? new HttpError(405, `Method ${request.method} not allowed`)
+          : new HttpError(404, "Not found");
+      }
+      const principal = await auth(request);
+      if (!principal) throw new HttpError(401, "Unauthorized");
+      return await found.route.handle({
+        request,
+        principal,
+        params: found.match!.slice(1).map(decodeURIComponent),
+        url,
+      });
+    } catch (err) {
+      if (err instanceof HttpError) {
+        return json({ error: { message: err.message } }, err.status);
+      }
+      if (err instanceof ThreadBusyError) {
+        return json({ error: { message: err.message } }, 409);
+      }
+      if (err instanceof BudgetExceededError) {
+        return json({ error: { message: err.message } }, 429);
+      }
+      if (err instanceof OpenAI.APIError && err.status === 400) {
+        return json({ error: { message: err.message } }, 400);
+      }
+      ctx.logger.error(`Failed to handle ${request.method} ${path}`, {
+        error: err,
+      });
+      return json({ error: { message: "Internal server error" } }, 500);
+    }
+  };
+};
@@ -1,24 +1,163 @@
 import { OpenAI } from "openai";
 
-import { Cache } from "./cache.js";
+import { Cache, CachePolicies } from "./cache.js";
+import { Clock, systemClock } from "./clock.js";
+import {
+  MemoryRunJournalStorage,
+  RunJournal,
+  RunJournalStorage,
+} from "./journal.js";
+import { PollingOptions } from "./polling.js";
+import {
+  rateLimiter,
+  RateLimiterOptions,
+  RequestMiddleware,
+  RequestPipeline,
+  retry,
+  RetryOptions,
+} from "./requests.js";
+import { RunScheduler, RunSchedulerOptions } from "./scheduler.js";
+import { CacheStorage } from "./storage.js";
+import {
+  consoleLogger,
+  Logger,
+  Telemetry,
+  TelemetryExporter,
+  tracing,
+} from "./telemetry.js";
+import { ActiveRunPolicy, ThreadQueue } from "./threadQueue.js";
+import { ToolRegistry } from "./tools.js";
+import { UsageTracker, UsageTrackerOptions } from "./usage.js";
 export * from "./assistant.js";
+export * from "./assistantSync.js";
 export * from "./cache.js";
+export * from "./cacheSync.js";
+export * from "./chat.js";
+export * from "./clock.js";
+export * from "./file.js";
+export * from "./http.js";
+export * from "./journal.js";
 export * from "./message.js";
+export * from "./orchestrator.js";
+export * from "./polling.js";
+export * from "./render.js";
+export * from "./requests.js";
 export * from "./run.js";
+export * from "./runStep.js";
+export * from "./scheduler.js";
+export * from "./schema.js";
+export * from "./storage.js";
+export * from "./store.js";
+export * from "./streaming.js";
+export * from "./structured.js";
+export * from "./telemetry.js";
 export * from "./thread.js";
+export * from "./threadQueue.js";
+export * from "./tools.js";
+export * from "./transcript.js";
+export * from "./usage.js";
+export * from "./vectorStore.js";
 
 type GlobalRequestOptions = Exclude<
   OpenAI.RequestOptions,
   "method" | "body" | "query" | "path"
 >;
 
+export interface ContextOptions {
+  /** Persistence layer for the cache. Defaults to keeping everything in memory only. */
+  cacheStorage?: CacheStorage;
+  /** Eviction policies per object type for the cache */
+  cachePolicies?: CachePolicies;
+  /** Default polling options for all runs */
+  polling?: PollingOptions;
+  /** Rate limit and batching options for the run scheduler */
+  scheduler?: RunSchedulerOptions;
+  /** Middleware for all API requests */
+  requests?: RequestPipelineOptions;
+  /** Time source for polling, the waits of the request pipeline and tool timeouts. Defaults to the system clock; pass a VirtualClock in tests. */
+  clock?: Clock;
+  /** Model prices and budgets for the usage tracker */
+  usage?: UsageTrackerOptions;
+  /** Receives diagnostics. Defaults to logging warnings and errors to the console. */
+  logger?: Logger;
+  /** Receives spans and metrics. Defaults to discarding them. */
+  telemetry?: TelemetryExporter;
+  /** Persists the run journal, so active runs can be resumed after a restart. Defaults to memory. */
+  journal?: RunJournalStorage;
+  /** What new messages and runs do while their thread has an active run. Defaults to "wait". */
+  activeRun?: ActiveRunPolicy;
+}
+
+export interface RequestPipelineOptions {
+  /** Limits per object type. Without limits, requests are only paused when the x-ratelimit-* headers say so. */
+  rateLimits?: RateLimiterOptions;
+  /** Retries 429 and 5xx responses in the request layer. Disabled by default, since the OpenAI client retries too. */
+  retry?: RetryOptions;
+  /** Additional middleware, run inside retries and the rate limiter */
+  middleware?: RequestMiddleware[];
+}
+
 export class Context {
   cache: Cache;
+  /** Default tool registry used by Runs to answer `requires_action` automatically */
+  tools = new ToolRegistry();
+  /** Default polling options for all runs. Runs can override them. */
+  pollingOptions: PollingOptions;
+  /** Sends the polls of all runs */
+  scheduler: RunScheduler;
+  /** Every API request goes through this pipeline. Listen to its events to see throttling and retries. */
+  requests: RequestPipeline;
+  /** Time source for polling */
+  clock: Clock;
+  /** Records the token usage of finished runs and enforces budgets */
+  usage: UsageTracker;
+  logger: Logger;
+  /** Traces API requests and runs. Set `telemetry.exporter` to receive the spans and metrics. */
+  telemetry: Telemetry;
+  /** Records active runs and their unsubmitted tool outputs */
+  journal: RunJournal;
+  /** Tracks the active run of each thread and queues new messages and runs behind it */
+  threadQueue: ThreadQueue;
   constructor(
     public readonly client: OpenAI,
     public requestOptions: GlobalRequestOptions = {},
+    options: ContextOptions = {},
   ) {
-    this.cache = new Cache(this);
+    this.pollingOptions = options.polling ?? {};
+    this.clock = options.clock ?? systemClock;
+    this.requests = new RequestPipeline(this.clock);
+    this.usage = new UsageTracker(() => this.clock.now(), options.usage);
+    this.logger = options.logger ?? consoleLogger();
+    this.telemetry = new Telemetry(this.clock, options.telemetry);
+    this.journal = new RunJournal(
+      options.journal ?? new MemoryRunJournalStorage(),
+      () => this.clock.now(),
+      this.logger,
+    );
+    const requests = options.requests ?? {};
+    // Spans cover all attempts of a request
+    this.requests.use(tracing(this.telemetry));
+    // Retries run outside the rate limiter, so every attempt waits for it again
+    if (requests.retry) this.requests.use(retry(requests.retry));
+    this.requests.use(rateLimiter(requests.rateLimits));
+    for (const middleware of requests.middleware ?? []) {
+      this.requests.use(middleware);
+    }
+    this.scheduler = new RunScheduler(this, options.scheduler);
+    this.cache = new Cache(this, {
+      storage: options.cacheStorage,
+      policies: options.cachePolicies,
+    });
+    this.threadQueue = new ThreadQueue(this, options.activeRun);
+  }
+
+  /**
+   * Resumes the runs that were active when the process stopped, as recorded by the journal.
+   * Call it on startup, after registering the tools. Unsubmitted tool outputs are submitted without calling the handlers again.
+   * @returns The resumed runs, which are polled until they finish
+   */
+  async resumeActiveRuns(options?: OpenAI.RequestOptions) {
+    return await this.journal.resume(this, options);
   }
 
   _opts(options: OpenAI.RequestOptions): OpenAI.RequestOptions {
@@ -0,0 +1,186 @@
+import { OpenAI } from "openai";
+
+import type { Context } from "./index.js";
+import { Run, RunStatus } from "./run.js";
+import type { Logger } from "./telemetry.js";
+import { Thread } from "./thread.js";
+import type { ToolOutput } from "./tools.js";
+
+type MaybePromise<T> = T | Promise<T>;
+
+const finishedStatuses: RunStatus[] = [
+  "cancelled",
+  "expired",
+  "completed",
+  "failed",
+];
+
+/** An active run, as recorded in the journal */
+export interface RunJournalEntry {
+  runId: string;
+  threadId: string;
+  /** Outputs of the tool calls that were handled but not yet submitted, by tool call id */
+  outputs: Record<string, string>;
+  /** Time of the last change (ms) on the Context's clock */
+  updatedAt: number;
+}
+
+/** Persists the run journal. The whole journal is read once and written after each change. */
+export interface RunJournalStorage {
+  read(): MaybePromise<RunJournalEntry[] | undefined>;
+  write(entries: RunJournalEntry[]): MaybePromise<void>;
+}
+
+/** Keeps the journal in memory, so it only survives restarts of the Context, e.g. in tests */
+export class MemoryRunJournalStorage implements RunJournalStorage {
+  private _entries: RunJournalEntry[] | undefined;
+
+  read() {
+    return structuredClone(this._entries);
+  }
+
+  write(entries: RunJournalEntry[]) {
+    this._entries = structuredClone(entries);
+  }
+}
+
+/**
+ * Records the active runs of a Context and the tool outputs they're waiting to submit,
+ * so the runs can be resumed after a restart without calling the tool handlers again.
+ */
+export class RunJournal {
+  private _entries: Promise<Map<string, RunJournalEntry>> | null = null;
+  private _writing: Promise<void> = Promise.resolve();
+
+  constructor(
+    private _storage: RunJournalStorage,
+    private _now: () => number,
+    private _logger: Logger,
+  ) {}
+
+  /** The active runs, oldest change first */
+  async entries() {
+    const entries = await this._load();
+    return [...entries.values()].sort((a, b) => a.updatedAt - b.updatedAt);
+  }
+
+  async get(runId: string) {
+    return (await this._load()).get(runId);
+  }
+
+  /** Records a run as active. Errors are logged, not thrown. */
+  async add(run: Run) {
+    await this._update(run.id, (entry) => {
+      if (entry) return entry;
+      return {
+        runId: run.id,
+        threadId: run.thread.id,
+        outputs: {},
+        updatedAt: this._now(),
+      };
+    }).catch((err) =>
+      this._logger.error(`Failed to journal Run id ${run.id}`, { error: err }),
+    );
+  }
+
+  /** Forgets a run that has finished. Errors are logged, not thrown. */
+  async remove(runId: string) {
+    await this._update(runId, () => undefined).catch((err) =>
+      this._logger.error(`Failed to remove Run id ${runId} from the journal`, {
+        error: err,
+      }),
+    );
+  }
+
+  /** Records tool outputs before they're submitted. Resolves once they're written to the storage. */
+  async recordOutputs(run: Run, outputs: ToolOutput[]) {
+    await this._update(run.id, (entry) => ({
+      runId: run.id,
+      threadId: run.thread.id,
+      outputs: {
+        ...entry?.outputs,
+        ...Object.fromEntries(
+          outputs.map((output) => [output.tool_call_id, output.output ?? ""]),
+        ),
+      },
+      updatedAt: this._now(),
+    }));
+  }
+
+  /** Forgets the outputs of a run once they've been submitted */
+  async clearOutputs(runId: string) {
+    await this._update(
+      runId,
+      (entry) => entry && { ...entry, outputs: {}, updatedAt: this._now() },
+    ).catch((err) =>
+      this._logger.error(`Failed to update Run id ${runId} in the journal`, {
+        error: err,
+      }),
+    );
+  }
+
+  /**
+   * Loads the journaled runs and continues polling them. Tool calls they still require are dispatched again,
+   * but outputs that were journaled before a restart are submitted without calling the handlers.
+   * Runs that have finished in the meantime, or no longer exist, are removed from the journal.
+   * @returns The resumed runs
+   */
+  async resume(ctx: Context, options: OpenAI.RequestOptions = {}) {
+    const runs: Run[] = [];
+    for (const entry of await this.entries()) {
+      let run: Run;
+      try {
+        const thread = await Thread.load(ctx, entry.threadId, options);
+        run = await Run.load(ctx, thread, entry.runId, options);
+      } catch (err) {
+        if (err instanceof OpenAI.NotFoundError) {
+          await this.remove(entry.runId);
+          continue;
+        }
+        throw err;
+      }
+      if (finishedStatuses.includes(run.status)) {
+        run.endPolling();
+        await this.remove(run.id);
+        continue;
+      }
+      run._started();
+      runs.push(run);
+    }
+    return runs;
+  }
+
+  private _load() {
+    if (!this._entries) {
+      const entries = Promise.resolve()
+        .then(() => this._storage.read())
+        .then(
+          (read) => new Map((read ?? []).map((entry) => [entry.runId, entry])),
+        );
+      // A failed read is retried by the next access
+      void entries.catch(() => {
+        if (this._entries === entries) this._entries = null;
+      });
+      this._entries = entries;
+    }
+    return this._entries;
+  }
+
+  private async _update(
+    runId: string,
+    change: (entry: RunJournalEntry | undefined) => RunJournalEntry | undefined,
+  ) {
+    const entries = await this._load();
+    const before = entries.get(runId);
+    const after = change(before);
+    if (after === before) return;
+    if (after) entries.set(runId, after);
+    else entries.delete(runId);
+    // Writes are serialized; a failed write doesn't block the later ones, which write the same entries
+    const snapshot = [...entries.values()];
+    this._writing = this._writing
+      .catch(() => {})
+      .then(() => this._storage.write(snapshot));
+    await this._writing;
+  }
+}
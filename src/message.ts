@@ -1,8 +1,11 @@
 import { OpenAI } from "openai";
 
+import { File } from "./file.js";
 import { Assistant, Context } from "./index.js";
+import { messageCitations, renderMessage, RenderOptions } from "./render.js";
 import { Run } from "./run.js";
 import { Thread } from "./thread.js";
+import type { ActiveRunPolicy } from "./threadQueue.js";
 import { createWrappedPage, StatefulObject } from "./utils.js";
 
 export interface MessageEvents {}
@@ -20,6 +23,10 @@ export class Message extends StatefulObject<
     super(ctx, Message.object, id);
   }
 
+  protected _fetchId() {
+    return { threadId: this.thread.id, id: this.id };
+  }
+
   static readonly object = "message";
   readonly object = Message.object;
 
@@ -29,6 +36,18 @@ export class Message extends StatefulObject<
   get content() {
     return this.wrappedValue.content;
   }
+  /** Text of all text parts, without resolving annotations */
+  get text() {
+    return this.content
+      .flatMap((part) => (part.type === "text" ? [part.text.value] : []))
+      .join("\n\n");
+  }
+  /** Ids of the image files in the content. Use imageFiles() to load them. */
+  get images() {
+    return this.content.flatMap((part) =>
+      part.type === "image_file" ? [part.image_file.file_id] : [],
+    );
+  }
   get assistant() {
     return this.wrappedValue.assistant_id
       ? new Assistant(this._ctx, this.wrappedValue.assistant_id)
@@ -49,18 +68,33 @@ export class Message extends StatefulObject<
       : null;
   }
 
-  /** Creates a message */
+  /** Creates a message. If the thread has an active run, the message is created once it has finished, unless `onActiveRun` says otherwise. */
   static async create(
     ctx: Context,
     thread: Thread,
-    params: OpenAI.Beta.Threads.MessageCreateParams,
+    params: MessageCreateParams,
     options: OpenAI.RequestOptions = {},
   ) {
-    const message = await ctx.client.beta.threads.messages.create(
+    const { onActiveRun, ...rest } = params;
+    return await ctx.threadQueue.schedule(
       thread.id,
-      params,
+      () => Message._create(ctx, thread, rest, options),
+      onActiveRun,
       options,
     );
+  }
+
+  /** Creates a message without waiting for the thread's active run */
+  static async _create(
+    ctx: Context,
+    thread: Thread,
+    params: OpenAI.Beta.Threads.MessageCreateParams,
+    options: OpenAI.RequestOptions = {},
+  ) {
+    const message = await ctx.requests.send(
+      { object: this.object, operation: "create" },
+      () => ctx.client.beta.threads.messages.create(thread.id, params, options),
+    );
     ctx.cache.set(this.object, message.id, message);
     ctx.cache._emit("created", this.object, message.id, message);
     const created = new Message(ctx, thread, message.id);
@@ -84,27 +118,37 @@ export class Message extends StatefulObject<
     params: OpenAI.Beta.Threads.MessageUpdateParams,
     options: OpenAI.RequestOptions = {},
   ) {
-    const result = await this._ctx.client.beta.threads.messages.update(
-      this.thread.id,
-      this.id,
-      params,
-      options,
+    const result = await this._ctx.requests.send(
+      { object: this.object, operation: "update" },
+      () =>
+        this._ctx.client.beta.threads.messages.update(
+          this.thread.id,
+          this.id,
+          params,
+          options,
+        ),
     );
     this._cache.set(this.object, this.id, result);
     return this;
   }
 
   /**
-   * Returns a list of messages from a thread.
+   * Returns a list of messages from a thread, newest first unless `query.order` is "asc".
    */
   static async list(
     ctx: Context,
     thread: Thread,
     options: OpenAI.RequestOptions = {},
+    query: OpenAI.Beta.Threads.MessageListParams = {},
   ) {
-    const page = await ctx.client.beta.threads.messages.list(
-      thread.id,
-      ctx._opts(options),
+    const page = await ctx.requests.send(
+      { object: this.object, operation: "list" },
+      () =>
+        ctx.client.beta.threads.messages.list(
+          thread.id,
+          query,
+          ctx._opts(options),
+        ),
     );
     return createWrappedPage(
       ctx,
@@ -114,31 +158,74 @@ export class Message extends StatefulObject<
   }
 
   /**
-   * Returns a list of files from a message. Files aren't cached.
+   * Returns a list of files from a message. Files aren't cached; use files() for cached File objects.
    */
   async listFiles(
     query?: OpenAI.Beta.Threads.Messages.Files.FileListParams,
     options: OpenAI.RequestOptions = {},
   ) {
-    const page = await this._ctx.client.beta.threads.messages.files.list(
-      this.thread.id,
-      this.id,
-      query,
-      this._ctx._opts(options),
+    const page = await this._ctx.requests.send(
+      { object: this.object, operation: "files.list" },
+      () =>
+        this._ctx.client.beta.threads.messages.files.list(
+          this.thread.id,
+          this.id,
+          query,
+          this._ctx._opts(options),
+        ),
     );
     return page;
   }
 
   /**
-   * Gets a file by id. Files aren't cached.
+   * Returns the files attached to this message, loaded into the cache.
+   */
+  async files(options?: OpenAI.RequestOptions) {
+    return await File.loadAll(this._ctx, this.fileIds, options);
+  }
+
+  /**
+   * Returns the image files in the content of this message, e.g. charts made by the code interpreter.
+   */
+  async imageFiles(options?: OpenAI.RequestOptions) {
+    return await File.loadAll(this._ctx, this.images, options);
+  }
+
+  /**
+   * Returns the files cited by this message, loaded into the cache, with the quotes, in order of appearance.
+   */
+  async citations(options?: OpenAI.RequestOptions) {
+    return await messageCitations(this._ctx, this, options);
+  }
+
+  /**
+   * Renders the content as Markdown, HTML or plain text. Citations become footnotes or links,
+   * and links to files written by the code interpreter point to `fileUrl`.
+   */
+  async render(renderOptions?: RenderOptions, options?: OpenAI.RequestOptions) {
+    return await renderMessage(this._ctx, this, renderOptions, options);
+  }
+
+  /**
+   * Gets a file by id. Files aren't cached; use files() for cached File objects.
    */
   async fetchFile(id: string, options: OpenAI.RequestOptions = {}) {
-    const file = await this._ctx.client.beta.threads.messages.files.retrieve(
-      this.thread.id,
-      this.id,
-      id,
-      this._ctx._opts(options),
+    const file = await this._ctx.requests.send(
+      { object: this.object, operation: "files.retrieve" },
+      () =>
+        this._ctx.client.beta.threads.messages.files.retrieve(
+          this.thread.id,
+          this.id,
+          id,
+          this._ctx._opts(options),
+        ),
     );
     return file;
   }
 }
+
+export interface MessageCreateParams
+  extends OpenAI.Beta.Threads.MessageCreateParams {
+  /** What to do if the thread has an active run. Defaults to the Context's policy. */
+  onActiveRun?: ActiveRunPolicy;
+}
@@ -0,0 +1,825 @@
+import { OpenAI } from "openai";
+
+import { Clock, systemClock } from "./clock.js";
+
+type RawAssistant = OpenAI.Beta.Assistant;
+type RawThread = OpenAI.Beta.Thread;
+type RawMessage = OpenAI.Beta.Threads.ThreadMessage;
+type RawRun = OpenAI.Beta.Threads.Run;
+type RawRunStep = OpenAI.Beta.Threads.Runs.RunStep;
+type TextAnnotation =
+  OpenAI.Beta.Threads.MessageContentText["text"]["annotations"][number];
+
+/** A function call requested by a scripted run */
+export interface MockToolCall {
+  name: string;
+  /** Non-string arguments are JSON-stringified */
+  arguments: unknown;
+}
+
+/**
+ * One action of a scripted run. Each time the run is retrieved or listed, it moves on to the next action.
+ * - `status`: the run stays queued or in progress for `polls` reads (defaults to 1)
+ * - `tool_calls`: the run requires action until the tool outputs are submitted
+ * - `reply`: the assistant adds a message; the run moves on to the next action in the same read
+ * - `usage`: sets the token usage the run reports; the run moves on in the same read
+ * - `complete`, `fail`, `expire`: the run finishes
+ */
+export type MockRunAction =
+  | { type: "status"; status: "queued" | "in_progress"; polls?: number }
+  | { type: "tool_calls"; calls: MockToolCall[] }
+  | { type: "reply"; text: string; annotations?: TextAnnotation[] }
+  | { type: "usage"; promptTokens: number; completionTokens: number }
+  | { type: "complete" }
+  | {
+      type: "fail";
+      code?: "server_error" | "rate_limit_exceeded";
+      message?: string;
+    }
+  | { type: "expire" };
+
+/** Actions of a run, in order. The run completes when they run out without finishing it. */
+export type MockRunScript = MockRunAction[];
+
+export interface MockResponderContext {
+  run: RawRun;
+  assistant: RawAssistant;
+  /** Messages of the thread, oldest first */
+  messages: RawMessage[];
+}
+
+/** Returns the script of a run that wasn't scripted with `scriptRun()` */
+export type MockResponder = (context: MockResponderContext) => MockRunScript;
+
+export interface MockBackendOptions {
+  /** Time source for `created_at` and the other timestamps. Pass the Context's VirtualClock to keep them in step. */
+  clock?: Clock;
+  /** Defaults to replying "You said: <last user message>" */
+  responder?: MockResponder;
+}
+
+interface RunState {
+  run: RawRun;
+  script: MockRunScript;
+  /** Reads left before the current status action moves on */
+  holds: number;
+}
+
+interface ListQuery {
+  limit?: number;
+  order?: "asc" | "desc";
+  after?: string;
+  before?: string;
+}
+
+const exitStatuses: RawRun["status"][] = [
+  "cancelled",
+  "expired",
+  "completed",
+  "failed",
+];
+
+const lastUserText = (messages: RawMessage[]) => {
+  const message = [...messages].reverse().find((m) => m.role === "user");
+  const part = message?.content.find((part) => part.type === "text");
+  return part?.type === "text" ? part.text.value : "";
+};
+
+/** Replies with the last user message */
+export const echoResponder: MockResponder = ({ messages }) => [
+  { type: "status", status: "in_progress" },
+  { type: "reply", text: `You said: ${lastUserText(messages)}` },
+];
+
+const apiError = (status: number, message: string) =>
+  OpenAI.APIError.generate(
+    status,
+    { error: { message, type: "invalid_request_error" } },
+    message,
+    {},
+  );
+
+/** Picks the list query out of the argument, which may also be request options */
+const listQuery = (query: unknown): ListQuery => {
+  const { limit, order, after, before } = (query ?? {}) as ListQuery;
+  return { limit, order, after, before };
+};
+
+/** Wraps a handler so it returns a promise, rejected if the handler throws */
+const respond =
+  <A extends unknown[], T>(handler: (...args: A) => T) =>
+  (...args: A) =>
+    new Promise<T>((resolve) => resolve(handler(...args)));
+
+/**
+ * Cursor page with the same shape as the openai client's pages. Items are fetched again for the next page.
+ */
+class MockPage<T extends { id: string }> {
+  data: T[];
+  /** Called when the next page is fetched, to record the call */
+  onNextPage = () => {};
+  private _hasMore: boolean;
+
+  constructor(
+    private _items: () => T[],
+    private _query: ListQuery,
+  ) {
+    const { limit = 20, order = "desc", after, before } = _query;
+    let items = _items();
+    if (order === "desc") items = items.reverse();
+    if (after !== undefined) {
+      items = items.slice(items.findIndex((item) => item.id === after) + 1);
+    }
+    if (before !== undefined) {
+      const index = items.findIndex((item) => item.id === before);
+      if (index >= 0) items = items.slice(0, index);
+    }
+    this.data = items
+      .slice(0, Math.min(limit, 100))
+      .map((item) => structuredClone(item));
+    this._hasMore = items.length > this.data.length;
+  }
+
+  hasNextPage() {
+    return this._hasMore && this.data.length > 0;
+  }
+
+  nextPageParams() {
+    const last = this.data[this.data.length - 1];
+    return this.hasNextPage() && last ? { after: last.id } : null;
+  }
+
+  nextPageInfo() {
+    const params = this.nextPageParams();
+    return params ? { params } : null;
+  }
+
+  getNextPage() {
+    const params = this.nextPageParams();
+    if (!params) {
+      return Promise.reject(
+        new Error(
+          "No next page expected; please check `.hasNextPage()` before calling `.getNextPage()`.",
+        ),
+      );
+    }
+    this.onNextPage();
+    const next = new MockPage(this._items, {
+      ...this._query,
+      before: undefined,
+      ...params,
+    });
+    next.onNextPage = this.onNextPage;
+    return Promise.resolve(next);
+  }
+
+  async *iterPages(): AsyncGenerator<MockPage<T>> {
+    yield this;
+    let page = this.hasNextPage() ? await this.getNextPage() : null;
+    while (page) {
+      yield page;
+      page = page.hasNextPage() ? await page.getNextPage() : null;
+    }
+  }
+}
+
+/**
+ * In-memory fake of the Assistants API, for testing code built on this library without network access.
+ * Pass `client` to the Context. Assistants, threads, messages, runs and steps are supported; streaming is not.
+ *
+ * Runs follow scripts: queued when created, then one scripted action per read, e.g.
+ * in_progress, requires_action until tool outputs are submitted, then completed or failed.
+ */
+export class MockBackend {
+  readonly client: OpenAI;
+  readonly assistants = new Map<string, RawAssistant>();
+  readonly threads = new Map<string, RawThread>();
+  /** Messages of each thread, oldest first */
+  readonly messages = new Map<string, RawMessage[]>();
+  /** Steps of each run, oldest first */
+  readonly steps = new Map<string, RawRunStep[]>();
+  /** Names of the called client methods, e.g. "beta.threads.runs.retrieve". Fetching a next page counts as another list call. */
+  readonly calls: string[] = [];
+
+  private _clock: Clock;
+  private _responder: MockResponder;
+  private _scripts: MockRunScript[] = [];
+  /** Runs of each thread, oldest first */
+  private _runs = new Map<string, RunState[]>();
+  private _ids = 0;
+
+  constructor(options: MockBackendOptions = {}) {
+    this._clock = options.clock ?? systemClock;
+    this._responder = options.responder ?? echoResponder;
+    this.client = this._createClient();
+  }
+
+  /** Scripts the next created run. Scripts are used in order; unscripted runs use the responder. */
+  scriptRun(...actions: MockRunAction[]) {
+    this._scripts.push(actions);
+    return this;
+  }
+
+  /** Returns a copy of the run */
+  getRun(id: string) {
+    return structuredClone(this._runState(id).run);
+  }
+
+  private _id(prefix: string) {
+    return `${prefix}_${++this._ids}`;
+  }
+
+  private _timestamp() {
+    return Math.floor(this._clock.now() / 1000);
+  }
+
+  private _assistant(id: string) {
+    const assistant = this.assistants.get(id);
+    if (!assistant) throw apiError(404, `No assistant found with id '${id}'.`);
+    return assistant;
+  }
+
+  private _thread(id: string) {
+    const thread = this.threads.get(id);
+    if (!thread) throw apiError(404, `No thread found with id '${id}'.`);
+    return thread;
+  }
+
+  private _message(threadId: string, id: string) {
+    const message = this.messages
+      .get(this._thread(threadId).id)!
+      .find((m) => m.id === id);
+    if (!message) throw apiError(404, `No message found with id '${id}'.`);
+    return message;
+  }
+
+  private _runState(id: string, threadId?: string) {
+    for (const [thread, states] of this._runs) {
+      if (threadId !== undefined && thread !== threadId) continue;
+      const state = states.find((state) => state.run.id === id);
+      if (state) return state;
+    }
+    throw apiError(404, `No run found with id '${id}'.`);
+  }
+
+  private _createThread(params: OpenAI.Beta.ThreadCreateParams = {}) {
+    const thread: RawThread = {
+      id: this._id("thread"),
+      object: "thread",
+      created_at: this._timestamp(),
+      metadata: params.metadata ?? null,
+    };
+    this.threads.set(thread.id, thread);
+    this.messages.set(thread.id, []);
+    this._runs.set(thread.id, []);
+    for (const message of params.messages ?? []) {
+      this._createMessage(thread.id, message);
+    }
+    return thread;
+  }
+
+  private _createMessage(
+    threadId: string,
+    params: Omit<OpenAI.Beta.Threads.MessageCreateParams, "role"> & {
+      role: RawMessage["role"];
+    },
+    run?: RawRun,
+  ) {
+    this._thread(threadId);
+    const message: RawMessage = {
+      id: this._id("msg"),
+      object: "thread.message",
+      thread_id: threadId,
+      role: params.role,
+      created_at: this._timestamp(),
+      assistant_id: run?.assistant_id ?? null,
+      run_id: run?.id ?? null,
+      file_ids: params.file_ids ?? [],
+      metadata: params.metadata ?? null,
+      content: [
+        { type: "text", text: { value: params.content, annotations: [] } },
+      ],
+    };
+    this.messages.get(threadId)!.push(message);
+    return message;
+  }
+
+  private _createRun(
+    threadId: string,
+    params: OpenAI.Beta.Threads.RunCreateParams,
+  ) {
+    if ((params as { stream?: boolean }).stream) {
+      throw new Error("The mock backend doesn't support streaming");
+    }
+    const assistant = this._assistant(params.assistant_id);
+    const states = this._runs.get(this._thread(threadId).id)!;
+    const active = states.find(({ run }) => !exitStatuses.includes(run.status));
+    if (active) {
+      throw apiError(
+        400,
+        `Thread ${threadId} already has an active run ${active.run.id}.`,
+      );
+    }
+    const now = this._timestamp();
+    const run: RawRun = {
+      id: this._id("run"),
+      object: "thread.run",
+      thread_id: threadId,
+      assistant_id: assistant.id,
+      status: "queued",
+      required_action: null,
+      last_error: null,
+      created_at: now,
+      expires_at: now + 600,
+      started_at: null,
+      cancelled_at: null,
+      failed_at: null,
+      completed_at: null,
+      model: params.model ?? assistant.model,
+      // Additional instructions are appended, as by the API
+      instructions: [
+        params.instructions ?? assistant.instructions ?? "",
+        (params as { additional_instructions?: string | null })
+          .additional_instructions,
+      ]
+        .filter(Boolean)
+        .join("\n\n"),
+      tools: params.tools ?? assistant.tools,
+      file_ids: assistant.file_ids,
+      metadata: params.metadata ?? null,
+    };
+    const script =
+      this._scripts.shift() ??
+      this._responder({
+        run: structuredClone(run),
+        assistant: structuredClone(assistant),
+        messages: structuredClone(this.messages.get(threadId)!),
+      });
+    states.push({ run, script: [...script], holds: 0 });
+    return run;
+  }
+
+  private _createStep(
+    run: RawRun,
+    details: RawRunStep["step_details"],
+    status: RawRunStep["status"],
+  ) {
+    const now = this._timestamp();
+    const step: RawRunStep = {
+      id: this._id("step"),
+      object: "thread.run.step",
+      thread_id: run.thread_id,
+      run_id: run.id,
+      assistant_id: run.assistant_id,
+      type: details.type,
+      status,
+      step_details: details,
+      last_error: null,
+      created_at: now,
+      completed_at: status === "completed" ? now : null,
+      cancelled_at: null,
+      failed_at: null,
+      expired_at: null,
+      metadata: null,
+    };
+    const steps = this.steps.get(run.id) ?? [];
+    steps.push(step);
+    this.steps.set(run.id, steps);
+    return step;
+  }
+
+  /** Ends the run and its unfinished steps with the status */
+  private _finish(
+    run: RawRun,
+    status: "completed" | "failed" | "cancelled" | "expired",
+  ) {
+    const now = this._timestamp();
+    run.status = status;
+    run.required_action = null;
+    if (status === "completed") run.completed_at = now;
+    if (status === "failed") run.failed_at = now;
+    if (status === "cancelled") run.cancelled_at = now;
+    for (const step of this.steps.get(run.id) ?? []) {
+      if (step.status !== "in_progress") continue;
+      step.status = status;
+      if (status === "completed") step.completed_at = now;
+      if (status === "failed") step.failed_at = now;
+      if (status === "cancelled") step.cancelled_at = now;
+      if (status === "expired") step.expired_at = now;
+    }
+  }
+
+  /** Moves the run on to its next scripted action. Called whenever the run is read. */
+  private _advance(state: RunState) {
+    const { run } = state;
+    if (run.status === "cancelling") {
+      this._finish(run, "cancelled");
+      return;
+    }
+    if (exitStatuses.includes(run.status) || run.status === "requires_action") {
+      return;
+    }
+    if (state.holds > 0) {
+      state.holds--;
+      return;
+    }
+    for (;;) {
+      const action = state.script.shift();
+      if (!action) {
+        this._finish(run, "completed");
+        return;
+      }
+      if (action.type !== "status" || action.status === "in_progress") {
+        run.started_at ??= this._timestamp();
+      }
+      switch (action.type) {
+        case "status":
+          run.status = action.status;
+          state.holds = (action.polls ?? 1) - 1;
+          return;
+        case "reply": {
+          run.status = "in_progress";
+          const message = this._createMessage(
+            run.thread_id,
+            { role: "assistant", content: action.text },
+            run,
+          );
+          const content = message.content[0]!;
+          if (content.type === "text")
+            content.text.annotations = action.annotations ?? [];
+          this._createStep(
+            run,
+            {
+              type: "message_creation",
+              message_creation: { message_id: message.id },
+            },
+            "completed",
+          );
+          continue;
+        }
+        case "usage":
+          // Not typed by this version of the openai library
+          Object.assign(run, {
+            usage: {
+              prompt_tokens: action.promptTokens,
+              completion_tokens: action.completionTokens,
+              total_tokens: action.promptTokens + action.completionTokens,
+            },
+          });
+          continue;
+        case "tool_calls": {
+          const toolCalls = action.calls.map((call) => ({
+            id: this._id("call"),
+            type: "function" as const,
+            function: {
+              name: call.name,
+              arguments:
+                typeof call.arguments === "string"
+                  ? call.arguments
+                  : JSON.stringify(call.arguments),
+            },
+          }));
+          run.status = "requires_action";
+          run.required_action = {
+            type: "submit_tool_outputs",
+            submit_tool_outputs: { tool_calls: toolCalls },
+          };
+          this._createStep(
+            run,
+            {
+              type: "tool_calls",
+              tool_calls: toolCalls.map((call) => ({
+                ...call,
+                function: { ...call.function, output: null },
+              })),
+            },
+            "in_progress",
+          );
+          return;
+        }
+        case "complete":
+          this._finish(run, "completed");
+          return;
+        case "fail":
+          this._finish(run, "failed");
+          run.last_error = {
+            code: action.code ?? "server_error",
+            message: action.message ?? "The run failed.",
+          };
+          return;
+        case "expire":
+          this._finish(run, "expired");
+          return;
+      }
+    }
+  }
+
+  private _submitToolOutputs(
+    threadId: string,
+    runId: string,
+    params: OpenAI.Beta.Threads.Runs.RunSubmitToolOutputsParams,
+  ) {
+    if ((params as { stream?: boolean }).stream) {
+      throw new Error("The mock backend doesn't support streaming");
+    }
+    const { run } = this._runState(runId, threadId);
+    if (run.status !== "requires_action" || !run.required_action) {
+      throw apiError(
+        400,
+        `Runs in status "${run.status}" do not accept tool outputs.`,
+      );
+    }
+    const expected = run.required_action.submit_tool_outputs.tool_calls.map(
+      (call) => call.id,
+    );
+    const outputs = new Map(
+      params.tool_outputs.map((output) => [
+        output.tool_call_id,
+        output.output ?? "",
+      ]),
+    );
+    const missing = expected.filter((id) => !outputs.has(id));
+    if (missing.length || outputs.size !== expected.length) {
+      throw apiError(
+        400,
+        `Expected tool outputs for call_ids ${JSON.stringify(
+          expected,
+        )}, got ${JSON.stringify([...outputs.keys()])}.`,
+      );
+    }
+    const step = this.steps
+      .get(run.id)
+      ?.find(
+        (step) => step.status === "in_progress" && step.type === "tool_calls",
+      );
+    if (step?.step_details.type === "tool_calls") {
+      for (const call of step.step_details.tool_calls) {
+        if (call.type === "function")
+          call.function.output = outputs.get(call.id) ?? null;
+      }
+      step.status = "completed";
+      step.completed_at = this._timestamp();
+    }
+    run.status = "queued";
+    run.required_action = null;
+    return run;
+  }
+
+  private _createClient() {
+    /** Records the call and returns a copy of the result, so cached values don't change with the backend's state */
+    const method =
+      <A extends unknown[], T>(name: string, handler: (...args: A) => T) =>
+      (...args: A) => {
+        this.calls.push(name);
+        return respond(handler)(...args).then((result) => {
+          if (!(result instanceof MockPage)) return structuredClone(result);
+          result.onNextPage = () => this.calls.push(name);
+          return result;
+        });
+      };
+    const runsOf = (threadId: string) =>
+      this._runs.get(this._thread(threadId).id)!;
+
+    const client = {
+      beta: {
+        assistants: {
+          create: method(
+            "beta.assistants.create",
+            (params: OpenAI.Beta.AssistantCreateParams) => {
+              const assistant: RawAssistant = {
+                id: this._id("asst"),
+                object: "assistant",
+                created_at: this._timestamp(),
+                name: params.name ?? null,
+                description: params.description ?? null,
+                model: params.model,
+                instructions: params.instructions ?? null,
+                tools: params.tools ?? [],
+                file_ids: params.file_ids ?? [],
+                metadata: params.metadata ?? null,
+              };
+              this.assistants.set(assistant.id, assistant);
+              return assistant;
+            },
+          ),
+          retrieve: method("beta.assistants.retrieve", (id: string) =>
+            this._assistant(id),
+          ),
+          update: method(
+            "beta.assistants.update",
+            (id: string, params: OpenAI.Beta.AssistantUpdateParams) => {
+              const assistant = this._assistant(id);
+              for (const [key, value] of Object.entries(params)) {
+                if (value !== undefined)
+                  Object.assign(assistant, { [key]: value });
+              }
+              return assistant;
+            },
+          ),
+          list: method(
+            "beta.assistants.list",
+            (query?: unknown) =>
+              new MockPage(
+                () => [...this.assistants.values()],
+                listQuery(query),
+              ),
+          ),
+          del: method("beta.assistants.del", (id: string) => {
+            this._assistant(id);
+            this.assistants.delete(id);
+            return { id, object: "assistant.deleted", deleted: true };
+          }),
+        },
+        threads: {
+          create: method(
+            "beta.threads.create",
+            (params?: OpenAI.Beta.ThreadCreateParams) =>
+              this._createThread(params),
+          ),
+          retrieve: method("beta.threads.retrieve", (id: string) =>
+            this._thread(id),
+          ),
+          update: method(
+            "beta.threads.update",
+            (id: string, params: OpenAI.Beta.ThreadUpdateParams) => {
+              const thread = this._thread(id);
+              if (params.metadata !== undefined)
+                thread.metadata = params.metadata;
+              return thread;
+            },
+          ),
+          del: method("beta.threads.del", (id: string) => {
+            this._thread(id);
+            this.threads.delete(id);
+            this.messages.delete(id);
+            this._runs.delete(id);
+            return { id, object: "thread.deleted", deleted: true };
+          }),
+          createAndRun: method(
+            "beta.threads.createAndRun",
+            (params: OpenAI.Beta.ThreadCreateAndRunParams) => {
+              const { thread, ...runParams } = params;
+              const created = this._createThread(thread);
+              return this._createRun(created.id, runParams);
+            },
+          ),
+          messages: {
+            create: method(
+              "beta.threads.messages.create",
+              (
+                threadId: string,
+                params: OpenAI.Beta.Threads.MessageCreateParams,
+              ) => this._createMessage(threadId, params),
+            ),
+            retrieve: method(
+              "beta.threads.messages.retrieve",
+              (threadId: string, id: string) => this._message(threadId, id),
+            ),
+            update: method(
+              "beta.threads.messages.update",
+              (
+                threadId: string,
+                id: string,
+                params: OpenAI.Beta.Threads.MessageUpdateParams,
+              ) => {
+                const message = this._message(threadId, id);
+                if (params.metadata !== undefined)
+                  message.metadata = params.metadata;
+                return message;
+              },
+            ),
+            list: method(
+              "beta.threads.messages.list",
+              (threadId: string, query?: unknown) => {
+                this._thread(threadId);
+                return new MockPage(
+                  () => [...(this.messages.get(threadId) ?? [])],
+                  listQuery(query),
+                );
+              },
+            ),
+            files: {
+              list: method(
+                "beta.threads.messages.files.list",
+                (threadId: string, messageId: string, query?: unknown) => {
+                  const message = this._message(threadId, messageId);
+                  const files = message.file_ids.map((id) => ({
+                    id,
+                    object: "thread.message.file",
+                    created_at: message.created_at,
+                    message_id: message.id,
+                  }));
+                  return new MockPage(() => [...files], listQuery(query));
+                },
+              ),
+              retrieve: method(
+                "beta.threads.messages.files.retrieve",
+                (threadId: string, messageId: string, id: string) => {
+                  const message = this._message(threadId, messageId);
+                  if (!message.file_ids.includes(id))
+                    throw apiError(404, `No file found with id '${id}'.`);
+                  return {
+                    id,
+                    object: "thread.message.file",
+                    created_at: message.created_at,
+                    message_id: message.id,
+                  };
+                },
+              ),
+            },
+          },
+          runs: {
+            create: method(
+              "beta.threads.runs.create",
+              (threadId: string, params: OpenAI.Beta.Threads.RunCreateParams) =>
+                this._createRun(threadId, params),
+            ),
+            retrieve: method(
+              "beta.threads.runs.retrieve",
+              (threadId: string, id: string) => {
+                const state = this._runState(id, threadId);
+                this._advance(state);
+                return state.run;
+              },
+            ),
+            update: method(
+              "beta.threads.runs.update",
+              (
+                threadId: string,
+                id: string,
+                params: OpenAI.Beta.Threads.RunUpdateParams,
+              ) => {
+                const { run } = this._runState(id, threadId);
+                if (params.metadata !== undefined)
+                  run.metadata = params.metadata;
+                return run;
+              },
+            ),
+            list: method(
+              "beta.threads.runs.list",
+              (threadId: string, query?: unknown) => {
+                const states = runsOf(threadId);
+                // Listing reads the runs, like polling them one by one
+                states.forEach((state) => this._advance(state));
+                return new MockPage(
+                  () => states.map((state) => state.run),
+                  listQuery(query),
+                );
+              },
+            ),
+            cancel: method(
+              "beta.threads.runs.cancel",
+              (threadId: string, id: string) => {
+                const { run } = this._runState(id, threadId);
+                if (
+                  exitStatuses.includes(run.status) ||
+                  run.status === "cancelling"
+                ) {
+                  throw apiError(
+                    400,
+                    `Cannot cancel run with status '${run.status}'.`,
+                  );
+                }
+                run.status = "cancelling";
+                return run;
+              },
+            ),
+            submitToolOutputs: method(
+              "beta.threads.runs.submitToolOutputs",
+              (
+                threadId: string,
+                id: string,
+                params: OpenAI.Beta.Threads.Runs.RunSubmitToolOutputsParams,
+              ) => this._submitToolOutputs(threadId, id, params),
+            ),
+            steps: {
+              retrieve: method(
+                "beta.threads.runs.steps.retrieve",
+                (threadId: string, runId: string, id: string) => {
+                  this._runState(runId, threadId);
+                  const step = this.steps
+                    .get(runId)
+                    ?.find((step) => step.id === id);
+                  if (!step)
+                    throw apiError(404, `No step found with id '${id}'.`);
+                  return step;
+                },
+              ),
+              list: method(
+                "beta.threads.runs.steps.list",
+                (threadId: string, runId: string, query?: unknown) => {
+                  this._runState(runId, threadId);
+                  return new MockPage(
+                    () => [...(this.steps.get(runId) ?? [])],
+                    listQuery(query),
+                  );
+                },
+              ),
+            },
+          },
+        },
+      },
+    };
+    return client as unknown as OpenAI;
+  }
+}
@@ -0,0 +1,123 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import { OpenAI, toFile } from "openai";
+
+import type { Id, ObjectType } from "./cache.js";
+import type { File } from "./file.js";
+import type { RunJournalEntry, RunJournalStorage } from "./journal.js";
+import type { CacheStorage } from "./storage.js";
+
+/**
+ * Reads a file from disk for `File.upload()`. The contents are read into memory, so the upload can be retried.
+ * @param filename Defaults to the name of the path
+ */
+export const fileFromPath = async (filePath: string, filename?: string) =>
+  await toFile(await readFile(filePath), filename ?? path.basename(filePath));
+
+/**
+ * Saves the contents of a file to disk.
+ * @returns The path the file was written to
+ */
+export const downloadFile = async (
+  file: File,
+  filePath: string,
+  options?: OpenAI.RequestOptions,
+) => {
+  await writeFile(filePath, await file.content(options));
+  return filePath;
+};
+
+interface JsonFileContents {
+  version: 1;
+  entries: Partial<Record<ObjectType, Record<Id, unknown>>>;
+}
+
+/**
+ * Stores all entries in a single JSON file. The file is read on first access and rewritten after each change.
+ * Writes are serialized and atomic (written to a temporary file, then renamed).
+ */
+export class JsonFileCacheStorage implements CacheStorage {
+  private _contents: Promise<JsonFileContents> | null = null;
+  private _writing: Promise<void> = Promise.resolve();
+
+  constructor(public readonly filePath: string) {}
+
+  async get<T = any>(object: ObjectType, id: Id) {
+    const contents = await this._load();
+    return contents.entries[object]?.[id] as T | undefined;
+  }
+
+  async set<T = any>(object: ObjectType, id: Id, value: T) {
+    const contents = await this._load();
+    (contents.entries[object] ??= {})[id] = value;
+    await this._save(contents);
+  }
+
+  async remove(object: ObjectType, id: Id) {
+    const contents = await this._load();
+    if (contents.entries[object]?.[id] === undefined) return;
+    delete contents.entries[object]![id];
+    await this._save(contents);
+  }
+
+  async clear() {
+    const contents = await this._load();
+    contents.entries = {};
+    await this._save(contents);
+  }
+
+  private _load() {
+    if (!this._contents) {
+      const contents = readFile(this.filePath, "utf8").then(
+        (text) => JSON.parse(text) as JsonFileContents,
+        (err: NodeJS.ErrnoException) => {
+          if (err.code !== "ENOENT") throw err;
+          return { version: 1, entries: {} } satisfies JsonFileContents;
+        },
+      );
+      // A failed read, e.g. of corrupt JSON, is retried by the next access
+      void contents.catch(() => {
+        if (this._contents === contents) this._contents = null;
+      });
+      this._contents = contents;
+    }
+    return this._contents;
+  }
+
+  private _save(contents: JsonFileContents) {
+    // A failed write shouldn't block later writes; the next write saves the same contents
+    this._writing = this._writing
+      .catch(() => {})
+      .then(async () => {
+        const tmpPath = `${this.filePath}.tmp`;
+        await mkdir(path.dirname(this.filePath), { recursive: true });
+        await writeFile(tmpPath, JSON.stringify(contents), "utf8");
+        await rename(tmpPath, this.filePath);
+      });
+    return this._writing;
+  }
+}
+
+/** Stores the run journal in a JSON file. Writes are atomic (written to a temporary file, then renamed). */
+export class JsonFileRunJournalStorage implements RunJournalStorage {
+  constructor(public readonly filePath: string) {}
+
+  async read() {
+    try {
+      return JSON.parse(
+        await readFile(this.filePath, "utf8"),
+      ) as RunJournalEntry[];
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw err;
+    }
+  }
+
+  async write(entries: RunJournalEntry[]) {
+    const tmpPath = `${this.filePath}.tmp`;
+    await mkdir(path.dirname(this.filePath), { recursive: true });
+    await writeFile(tmpPath, JSON.stringify(entries), "utf8");
+    await rename(tmpPath, this.filePath);
+  }
+}
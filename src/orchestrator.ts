@@ -0,0 +1,291 @@
+import { OpenAI } from "openai";
+import { TypedEmitter } from "tiny-typed-emitter";
+
+import { Assistant, Context } from "./index.js";
+import { Message } from "./message.js";
+import { PollingOptions } from "./polling.js";
+import { Run } from "./run.js";
+import type { Thread } from "./thread.js";
+import { FunctionTool, ToolRegistry } from "./tools.js";
+
+type MaybePromise<T> = T | Promise<T>;
+
+/** A request to continue the conversation with another assistant */
+export interface HandoffRequest {
+  /** Key of the next assistant */
+  to: string;
+  /** Passed to the next assistant in its additional instructions */
+  context?: string;
+}
+
+export interface Handoff extends HandoffRequest {
+  /** Key of the assistant that handed off */
+  from: string;
+  /** Whether the handoff tool or the router decided it */
+  via: "tool" | "router";
+}
+
+/** One run of the orchestration */
+export interface OrchestrationHop {
+  /** Key of the assistant */
+  key: string;
+  assistant: Assistant;
+  run: Run;
+  /** The assistant messages created by the run, oldest first */
+  messages: Message[];
+  /** The handoff that started this hop, or null for the first hop */
+  from: Handoff | null;
+  /** The handoff to the next hop, or null if the orchestration ended here */
+  handoff: Handoff | null;
+}
+
+/**
+ * Decides which assistant continues after a hop. Return null to end the orchestration.
+ * Called after every hop that didn't hand off with the handoff tool.
+ */
+export type Router = (
+  hop: OrchestrationHop,
+  trace: OrchestrationHop[],
+) => MaybePromise<HandoffRequest | null>;
+
+export interface HandoffToolOptions {
+  /** Name of the function. Defaults to "handoff". */
+  name?: string;
+  description?: string;
+}
+
+export interface OrchestratorOptions {
+  /** The assistants, by key. The keys are the handoff targets. */
+  assistants: Record<string, Assistant>;
+  router?: Router;
+  /**
+   * Expose a function to the assistants that hands the conversation off to another assistant.
+   * Defaults to true without a router.
+   */
+  handoffTool?: boolean | HandoffToolOptions;
+  /** Maximum number of runs per orchestration. Defaults to 5. */
+  maxHops?: number;
+  /** Descriptions of the assistants for the handoff tool, by key. Defaults to the assistants' descriptions. */
+  descriptions?: Record<string, string>;
+  /** Overrides the Context's tool registry for the runs. The handoff tool is added to it. */
+  toolRegistry?: ToolRegistry;
+  /** Overrides the Context's polling options for the runs */
+  polling?: PollingOptions;
+}
+
+export interface OrchestrationResult {
+  /** Every hop, in order */
+  trace: OrchestrationHop[];
+  /** The hop that ended the orchestration */
+  last: OrchestrationHop;
+  /** The assistant messages of all hops, oldest first */
+  messages: Message[];
+}
+
+export interface OrchestratorEvents {
+  hopStarted: (key: string, run: Run) => void;
+  hopFinished: (hop: OrchestrationHop) => void;
+  handoff: (handoff: Handoff) => void;
+}
+
+/** Thrown when an assistant hands off after the last allowed hop */
+export class MaxHopsExceededError extends Error {
+  constructor(
+    public readonly maxHops: number,
+    public readonly trace: OrchestrationHop[],
+  ) {
+    super(`Orchestration exceeded ${maxHops} hops`);
+    this.name = "MaxHopsExceededError";
+  }
+}
+
+/** Returns the assistant messages created by the run, oldest first */
+const runMessages = async (run: Run, options: OpenAI.RequestOptions) => {
+  const messages: Message[] = [];
+  for await (const message of await run.thread.messages(options)) {
+    if (message.wrappedValue.created_at < run.wrappedValue.created_at) break;
+    if (
+      message.role === "assistant" &&
+      message.wrappedValue.run_id === run.id
+    ) {
+      messages.push(message);
+    }
+  }
+  return messages.reverse();
+};
+
+const handoffInstructions = (handoff: Handoff) =>
+  `The ${handoff.from} assistant handed this conversation off to you.` +
+  (handoff.context ? `\nContext: ${handoff.context}` : "");
+
+/**
+ * Runs several assistants one after another on a shared thread.
+ * After each run, the conversation is handed off to the next assistant by the handoff tool or the router,
+ * until neither requests a handoff.
+ */
+export class Orchestrator extends TypedEmitter<OrchestratorEvents> {
+  private _maxHops: number;
+  private _handoffTool: HandoffToolOptions | null;
+
+  constructor(
+    private _ctx: Context,
+    private _options: OrchestratorOptions,
+  ) {
+    super();
+    const { handoffTool = !_options.router, maxHops = 5 } = _options;
+    this._maxHops = maxHops;
+    this._handoffTool =
+      handoffTool === true ? {} : handoffTool === false ? null : handoffTool;
+  }
+
+  get assistants() {
+    return this._options.assistants;
+  }
+
+  /**
+   * Runs the thread, starting with the assistant of the key.
+   * @throws MaxHopsExceededError if a handoff is requested after `maxHops` runs
+   * @throws If a run ends with another status than completed, or a handoff targets an unknown key
+   */
+  async run(
+    thread: Thread,
+    key: string,
+    options: OpenAI.RequestOptions = {},
+  ): Promise<OrchestrationResult> {
+    const trace: OrchestrationHop[] = [];
+    let from: Handoff | null = null;
+    for (;;) {
+      const assistant = this._assistant(key);
+      const hop = await this._hop(thread, key, assistant, from, options);
+      trace.push(hop);
+
+      const request = hop.handoff
+        ? null
+        : await this._options.router?.(hop, [...trace]);
+      if (request) {
+        this._assistant(request.to);
+        hop.handoff = { ...request, from: key, via: "router" };
+      }
+      this.emit("hopFinished", hop);
+      if (!hop.handoff) {
+        return {
+          trace,
+          last: hop,
+          messages: trace.flatMap((each) => each.messages),
+        };
+      }
+      if (trace.length >= this._maxHops) {
+        throw new MaxHopsExceededError(this._maxHops, trace);
+      }
+      this.emit("handoff", hop.handoff);
+      from = hop.handoff;
+      key = hop.handoff.to;
+    }
+  }
+
+  private _assistant(key: string) {
+    const assistant = this._options.assistants[key];
+    if (!assistant) throw new Error(`No assistant with key ${key}`);
+    return assistant;
+  }
+
+  private async _hop(
+    thread: Thread,
+    key: string,
+    assistant: Assistant,
+    from: Handoff | null,
+    options: OpenAI.RequestOptions,
+  ): Promise<OrchestrationHop> {
+    let handoff: Handoff | null = null;
+    const { toolRegistry, polling } = this._options;
+    let registry = toolRegistry;
+    let tools: OpenAI.Beta.AssistantCreateParams["tools"];
+    if (this._handoffTool) {
+      const { name = "handoff", description } = this._handoffTool;
+      registry = new ToolRegistry();
+      const base = toolRegistry ?? this._ctx.tools;
+      for (const { function: fn } of base.definitions()) {
+        registry.register(base.get(fn.name)!);
+      }
+      const targets = Object.keys(this._options.assistants).filter(
+        (target) => target !== key,
+      );
+      registry.register<HandoffRequest>({
+        name,
+        description:
+          description ??
+          `Hands the conversation off to another assistant:\n${targets
+            .map((target) => `- ${target}: ${this._describe(target)}`)
+            .join("\n")}`,
+        parameters: {
+          type: "object",
+          properties: {
+            to: { type: "string", enum: targets },
+            context: {
+              type: "string",
+              description: "What the next assistant needs to know",
+            },
+          },
+          required: ["to"],
+        },
+        handler: ({ to, context }) => {
+          if (handoff) return `Already handed off to ${handoff.to}.`;
+          handoff = { to, context, from: key, via: "tool" };
+          return `Handed off to ${to}. Don't reply; ${to} continues the conversation.`;
+        },
+      });
+      const handoffDefinition = registry
+        .definitions()
+        .find((tool): tool is FunctionTool => tool.function.name === name)!;
+      tools = [
+        ...assistant.tools.filter(
+          (tool) => tool.type !== "function" || tool.function.name !== name,
+        ),
+        handoffDefinition,
+      ];
+    }
+
+    const run = await Run.create(
+      this._ctx,
+      thread,
+      {
+        assistant,
+        tools,
+        // additional_instructions isn't typed by this version of the openai library
+        ...((from
+          ? { additional_instructions: handoffInstructions(from) }
+          : {}) as object),
+        toolRegistry: registry,
+        polling,
+      },
+      options,
+    );
+    this.emit("hopStarted", key, run);
+    const status = await run.waitUntilFinished();
+    if (status !== "completed") {
+      const error = run.wrappedValue.last_error;
+      throw new Error(
+        `Run id ${run.id} ended with status ${status}${
+          error ? `: ${error.message}` : ""
+        }`,
+      );
+    }
+    return {
+      key,
+      assistant,
+      run,
+      messages: await runMessages(run, options),
+      from,
+      handoff,
+    };
+  }
+
+  private _describe(key: string) {
+    return (
+      this._options.descriptions?.[key] ??
+      this._options.assistants[key]?.description ??
+      this._options.assistants[key]?.name ??
+      key
+    );
+  }
+}
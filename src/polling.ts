@@ -0,0 +1,217 @@
+import { OpenAI } from "openai";
+
+import type { Clock } from "./clock.js";
+import type { Logger } from "./telemetry.js";
+
+export interface PollState {
+  /** Number of polls since the status last changed */
+  attempt: number;
+  /** Milliseconds since polling began */
+  elapsedMs: number;
+}
+
+/** Decides how long to wait before the next poll */
+export interface PollingStrategy {
+  nextDelay(state: PollState): number;
+}
+
+export interface PollingOptions {
+  /** Defaults to polling every 750 ms */
+  strategy?: PollingStrategy;
+  /** Polling gives up after this many milliseconds. Defaults to 2 minutes; null disables the timeout. */
+  timeoutMs?: number | null;
+  /** Stops polling when aborted. The run's finished event receives the abort reason as the error. */
+  signal?: AbortSignal;
+  /** Cancel the run when the signal is aborted. Defaults to false. */
+  cancelOnAbort?: boolean;
+  /** Consecutive transient errors (429, 5xx, connection errors) to retry before failing the run. Defaults to 5. */
+  maxRetries?: number;
+  /** Fetch the run's steps with each poll, to emit step events. Defaults to tracking steps while there are step event listeners. */
+  trackSteps?: boolean;
+  /**
+   * Only observe the run, e.g. a run owned by another process: tool calls aren't dispatched,
+   * and polling continues through requires_action until the run has finished. Defaults to false.
+   */
+  readOnly?: boolean;
+}
+
+/** Polls at a fixed interval */
+export const fixedPolling = (intervalMs: number): PollingStrategy => ({
+  nextDelay: () => intervalMs,
+});
+
+export interface ExponentialBackoffOptions {
+  initialMs?: number;
+  maxMs?: number;
+  factor?: number;
+  /** Randomizes each delay by up to this fraction, e.g. 0.2 for ±20% */
+  jitter?: number;
+}
+
+/** Waits longer after each poll that didn't change the status, with random jitter */
+export const exponentialBackoff = ({
+  initialMs = 500,
+  maxMs = 10_000,
+  factor = 2,
+  jitter = 0.2,
+}: ExponentialBackoffOptions = {}): PollingStrategy => ({
+  nextDelay: ({ attempt }) => {
+    const delay = Math.min(maxMs, initialMs * factor ** attempt);
+    const spread = delay * jitter * (Math.random() * 2 - 1);
+    return Math.max(0, Math.round(delay + spread));
+  },
+});
+
+export interface AdaptivePollingOptions {
+  fastMs?: number;
+  slowMs?: number;
+  /** How long to poll at the fast interval before slowing down */
+  fastForMs?: number;
+}
+
+/** Polls quickly at first, when runs usually change status, then slows down */
+export const adaptivePolling = ({
+  fastMs = 250,
+  slowMs = 2_000,
+  fastForMs = 5_000,
+}: AdaptivePollingOptions = {}): PollingStrategy => ({
+  nextDelay: ({ elapsedMs }) => (elapsedMs < fastForMs ? fastMs : slowMs),
+});
+
+export const defaultPollingOptions = {
+  strategy: fixedPolling(750),
+  timeoutMs: 1000 * 60 * 2, // 2 minutes
+  cancelOnAbort: false,
+  maxRetries: 5,
+} satisfies PollingOptions;
+
+/** Returns true for errors that are worth retrying: rate limits, server errors and connection errors */
+export const isTransientError = (err: unknown) => {
+  if (err instanceof OpenAI.APIConnectionError) return true;
+  if (!(err instanceof OpenAI.APIError) || err.status === undefined)
+    return false;
+  return err.status === 429 || err.status >= 500;
+};
+
+/** Polling options merged with the defaults */
+export type ResolvedPollingOptions = PollingOptions &
+  Required<Omit<PollingOptions, "signal" | "trackSteps" | "readOnly">>;
+
+/** What a poll found: the object changed, didn't change, or polling is done */
+export type PollOutcome = "changed" | "unchanged" | "done";
+
+export interface PollLoopOptions<T> {
+  clock: Clock;
+  logger: Logger;
+  config: ResolvedPollingOptions;
+  /** Names the polled object in errors and logs, e.g. "Run id run_1" */
+  label: string;
+  /** Added to the log fields */
+  fields?: Record<string, unknown>;
+  /** False once the object's polling has ended or restarted; this loop then stops */
+  isCurrent: () => boolean;
+  /** Fetches the object after the delay. Resolves with null if the poll was cancelled. */
+  fetch: (delayMs: number) => Promise<T | null>;
+  /**
+   * Handles a fetched object. Errors it throws end polling, unless they're transient.
+   * After ending polling itself, it must report its own errors.
+   */
+  onPolled: (value: T) => PollOutcome | Promise<PollOutcome>;
+  /** Stops the object's polling */
+  end: () => void;
+  /** Reports the error that ended polling, e.g. with a finished event */
+  fail: (err: unknown) => void;
+  /** Cancels the object when the signal is aborted with `cancelOnAbort` */
+  cancel: () => Promise<unknown>;
+}
+
+/**
+ * Polls an object until `onPolled` is done, following the polling strategy.
+ * Retries transient errors, and ends polling with `fail` after the timeout, an abort or any other error.
+ * @returns A function that removes the abort listener
+ */
+export const pollLoop = <T>(options: PollLoopOptions<T>) => {
+  const { clock, logger, config, label, isCurrent } = options;
+  const startTime = clock.now();
+  let attempt = 0;
+  let retries = 0;
+
+  const fail = (err: unknown) => {
+    options.end();
+    options.fail(err);
+  };
+
+  const onError = (err: unknown) => {
+    // Errors of polling that has ended or restarted are reported by whatever ended it
+    if (!isCurrent()) return;
+    if (isTransientError(err) && retries < config.maxRetries) {
+      logger.warn(`Retrying to fetch ${label} after a transient error`, {
+        ...options.fields,
+        retry: retries + 1,
+        error: err,
+      });
+      retries++;
+      attempt++;
+      next();
+      return;
+    }
+    logger.error(`Error fetching ${label} during polling`, {
+      ...options.fields,
+      error: err,
+    });
+    fail(err);
+  };
+
+  const onPolled = async (value: T | null) => {
+    if (value === null || !isCurrent()) return;
+    retries = 0;
+    let outcome: PollOutcome;
+    try {
+      outcome = await options.onPolled(value);
+    } catch (err) {
+      onError(err);
+      return;
+    }
+    if (outcome === "done" || !isCurrent()) return;
+    attempt = outcome === "changed" ? 0 : attempt + 1;
+    next();
+  };
+
+  const next = () => {
+    const elapsed = clock.now() - startTime;
+    if (config.timeoutMs !== null && elapsed > config.timeoutMs) {
+      fail(
+        new Error(
+          `Polling for ${label} timed out after ${
+            config.timeoutMs / 1000
+          } seconds`,
+        ),
+      );
+      return;
+    }
+    const delay = config.strategy.nextDelay({ attempt, elapsedMs: elapsed });
+    options.fetch(delay).then(onPolled, onError);
+  };
+
+  const onAbort = () => {
+    options.end();
+    const reason: unknown = config.signal!.reason;
+    if (!config.cancelOnAbort) {
+      options.fail(reason);
+      return;
+    }
+    options.cancel().then(
+      () => options.fail(reason),
+      (err) => options.fail(err),
+    );
+  };
+
+  const signal = config.signal;
+  if (signal?.aborted) {
+    onAbort();
+    return () => {};
+  }
+  signal?.addEventListener("abort", onAbort, { once: true });
+  next();
+  return () => signal?.removeEventListener("abort", onAbort);
+};
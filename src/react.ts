@@ -0,0 +1,43 @@
+import type { Context } from "./index.js";
+import type { Run } from "./run.js";
+import {
+  observeAssistant,
+  observeRun,
+  observeThreadMessages,
+  Store,
+} from "./store.js";
+import type { Thread } from "./thread.js";
+
+/** The hooks the bindings need, e.g. `import * as React from "react"` or `preact/compat` */
+export interface ReactHooks {
+  useSyncExternalStore<T>(
+    subscribe: (onChange: () => void) => () => void,
+    getSnapshot: () => T,
+  ): T;
+  useMemo<T>(factory: () => T, deps: readonly unknown[]): T;
+}
+
+/**
+ * Creates React-style hooks over the stores. Components re-render when the observed objects change in the cache.
+ * Takes the React module instead of importing it, so this library doesn't depend on React.
+ * @example export const { useRun, useThreadMessages } = createHooks(React);
+ */
+export const createHooks = (react: ReactHooks) => {
+  const useStore = <T>(store: Store<T>) =>
+    react.useSyncExternalStore(store.subscribe, store.get);
+
+  return {
+    useStore,
+    useAssistant: (ctx: Context, id: string) =>
+      useStore(react.useMemo(() => observeAssistant(ctx, id), [ctx, id])),
+    useRun: (ctx: Context, run: Run) =>
+      useStore(react.useMemo(() => observeRun(ctx, run), [ctx, run.id])),
+    useThreadMessages: (ctx: Context, thread: Thread) =>
+      useStore(
+        react.useMemo(
+          () => observeThreadMessages(ctx, thread),
+          [ctx, thread.id],
+        ),
+      ),
+  };
+};
@@ -0,0 +1,233 @@
+import { OpenAI } from "openai";
+
+import { File } from "./file.js";
+import type { Context } from "./index.js";
+import type { Message } from "./message.js";
+
+export type RenderFormat = "markdown" | "html" | "plain";
+
+/**
+ * How file citations are rendered:
+ * - `footnotes`: numbered markers, with the cited files and quotes listed at the end
+ * - `links`: a link to the cited file in place of the marker
+ * - `none`: the markers are removed
+ */
+export type CitationStyle = "footnotes" | "links" | "none";
+
+export interface RenderOptions {
+  /** Defaults to markdown */
+  format?: RenderFormat;
+  /** Defaults to footnotes */
+  citationStyle?: CitationStyle;
+  /**
+   * Link target for a file, e.g. a download route of your server.
+   * Defaults to the file's content URL in the API, which requires the API key.
+   */
+  fileUrl?: (file: File) => string;
+}
+
+/** A file cited by a message */
+export interface MessageCitation {
+  /** Number of the citation, in order of appearance */
+  index: number;
+  file: File;
+  quote: string;
+  /** The annotated text, e.g. "【7†source】" */
+  text: string;
+  /** Index of the content part */
+  part: number;
+  startIndex: number;
+  endIndex: number;
+}
+
+type TextAnnotation =
+  | OpenAI.Beta.Threads.Messages.MessageContentText.Text.FileCitation
+  | OpenAI.Beta.Threads.Messages.MessageContentText.Text.FilePath;
+
+/** A range of a text and the text that replaces it */
+export interface TextReplacement {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Applies replacements that don't overlap to a text, e.g. to replace annotations with citation markers.
+ * The text between the replacements is passed through `escape`.
+ */
+export const replaceTextRanges = (
+  text: string,
+  replacements: TextReplacement[],
+  escape = (unchanged: string) => unchanged,
+) => {
+  let replaced = "";
+  let position = 0;
+  for (const { start, end, text: replacement } of [...replacements].sort(
+    (a, b) => a.start - b.start,
+  )) {
+    replaced += escape(text.slice(position, start)) + replacement;
+    position = end;
+  }
+  return replaced + escape(text.slice(position));
+};
+
+const sortedAnnotations = (annotations: TextAnnotation[]) =>
+  [...annotations].sort((a, b) => a.start_index - b.start_index);
+
+const escapeHtml = (text: string) =>
+  text.replace(
+    /[&<>"']/g,
+    (char) =>
+      ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[
+        char
+      ]!,
+  );
+
+/** Finds a Markdown link whose target is the annotated text, like `[chart.csv](sandbox:/mnt/data/chart.csv)` */
+const linkAround = (text: string, start: number, end: number, from: number) => {
+  if (text.slice(start - 2, start) !== "](" || text[end] !== ")") return null;
+  const open = text.lastIndexOf("[", start - 2);
+  if (open < from) return null;
+  return { start: open, end: end + 1, label: text.slice(open + 1, start - 2) };
+};
+
+/** Returns the file citations of a message, with the cited files loaded */
+export const messageCitations = async (
+  ctx: Context,
+  message: Message,
+  options: OpenAI.RequestOptions = {},
+) => {
+  const citations: MessageCitation[] = [];
+  for (const [part, content] of message.content.entries()) {
+    if (content.type !== "text") continue;
+    for (const annotation of sortedAnnotations(content.text.annotations)) {
+      if (annotation.type !== "file_citation") continue;
+      citations.push({
+        index: citations.length + 1,
+        file: await File.load(ctx, annotation.file_citation.file_id, options),
+        quote: annotation.file_citation.quote,
+        text: annotation.text,
+        part,
+        startIndex: annotation.start_index,
+        endIndex: annotation.end_index,
+      });
+    }
+  }
+  return citations;
+};
+
+/**
+ * Renders the content of a message. Citation markers are replaced according to the citation style,
+ * and links to files written by the code interpreter (`sandbox:` paths) point to `fileUrl` instead.
+ */
+export const renderMessage = async (
+  ctx: Context,
+  message: Message,
+  renderOptions: RenderOptions = {},
+  options: OpenAI.RequestOptions = {},
+) => {
+  const {
+    format = "markdown",
+    citationStyle = "footnotes",
+    fileUrl = (file: File) => `${ctx.client.baseURL}/files/${file.id}/content`,
+  } = renderOptions;
+  const html = format === "html";
+  const escape = (text: string) => (html ? escapeHtml(text) : text);
+  const citations = await messageCitations(ctx, message, options);
+
+  const renderCitation = (citation: MessageCitation) => {
+    const { index, file } = citation;
+    if (citationStyle === "none") return "";
+    if (citationStyle === "links") {
+      if (format === "markdown") return `[${file.filename}](${fileUrl(file)})`;
+      if (html)
+        return `<a href="${escapeHtml(fileUrl(file))}">${escapeHtml(
+          file.filename,
+        )}</a>`;
+      return `[${file.filename}]`;
+    }
+    if (format === "markdown") return `[^${index}]`;
+    if (html) return `<sup><a href="#citation-${index}">[${index}]</a></sup>`;
+    return `[${index}]`;
+  };
+
+  const parts: string[] = [];
+  for (const [part, content] of message.content.entries()) {
+    if (content.type === "image_file") {
+      const file = await File.load(ctx, content.image_file.file_id, options);
+      const url = fileUrl(file);
+      parts.push(
+        format === "markdown"
+          ? `![${file.filename}](${url})`
+          : html
+          ? `<img src="${escapeHtml(url)}" alt="${escapeHtml(file.filename)}">`
+          : `[Image: ${file.filename}]`,
+      );
+      continue;
+    }
+
+    const text = content.text.value;
+    const replacements: TextReplacement[] = [];
+    for (const annotation of sortedAnnotations(content.text.annotations)) {
+      // Links may only widen into the text after the previous replacement
+      const position = replacements[replacements.length - 1]?.end ?? 0;
+      let start = annotation.start_index;
+      let end = annotation.end_index;
+      let replacement: string;
+      if (annotation.type === "file_citation") {
+        const citation = citations.find(
+          (citation) => citation.part === part && citation.startIndex === start,
+        )!;
+        replacement = renderCitation(citation);
+      } else {
+        const file = await File.load(
+          ctx,
+          annotation.file_path.file_id,
+          options,
+        );
+        const url = fileUrl(file);
+        const link = linkAround(text, start, end, position);
+        if (format === "markdown") {
+          replacement = url;
+        } else {
+          let label = file.filename;
+          if (link) {
+            ({ start, end, label } = link);
+          }
+          replacement = html
+            ? `<a href="${escapeHtml(url)}" download>${escapeHtml(label)}</a>`
+            : `${label} (${url})`;
+        }
+      }
+      replacements.push({ start, end, text: replacement });
+    }
+    const rendered = replaceTextRanges(text, replacements, escape);
+    parts.push(html ? `<p>${rendered.replace(/\n/g, "<br>")}</p>` : rendered);
+  }
+
+  let output = parts.join(html ? "\n" : "\n\n");
+  if (citationStyle === "footnotes" && citations.length) {
+    const notes = citations.map(({ index, file, quote }) => {
+      if (html) {
+        const source = `<a href="${escapeHtml(fileUrl(file))}">${escapeHtml(
+          file.filename,
+        )}</a>`;
+        return `<li id="citation-${index}">${source}${
+          quote ? `: <q>${escapeHtml(quote)}</q>` : ""
+        }</li>`;
+      }
+      const source =
+        format === "markdown"
+          ? `[${file.filename}](${fileUrl(file)})`
+          : file.filename;
+      const note = `${source}${quote ? `: "${quote}"` : ""}`;
+      return format === "markdown"
+        ? `[^${index}]: ${note}`
+        : `[${index}] ${note}`;
+    });
+    output += html
+      ? `\n<ol class="citations">${notes.join("")}</ol>`
+      : `\n\n${notes.join("\n")}`;
+  }
+  return output;
+};
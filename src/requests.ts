@@ -0,0 +1,319 @@
+import { OpenAI } from "openai";
+import { TypedEmitter } from "tiny-typed-emitter";
+
+import type { ObjectType } from "./cache.js";
+import { Clock, systemClock } from "./clock.js";
+import { isTransientError } from "./polling.js";
+
+/** Describes an API request passing through the pipeline */
+export interface RequestInfo {
+  /** Object type the request is about; limits are configured per object type */
+  object: ObjectType;
+  /** Name of the SDK method, e.g. "create" or "retrieve" */
+  operation: string;
+  /** Starts at 0 and is incremented by the retry middleware */
+  attempt: number;
+  /** Response headers of the last attempt, if the request has been sent */
+  headers: ResponseHeaders | null;
+}
+
+/**
+ * Middleware wraps every API request. Call `next()` to send the request (or run the next middleware);
+ * it may be called again to retry.
+ */
+export type RequestMiddleware = (
+  request: RequestInfo,
+  next: () => Promise<unknown>,
+  pipeline: RequestPipeline,
+) => Promise<unknown>;
+
+export interface RequestPipelineEvents {
+  request: (request: RequestInfo) => void;
+  response: (request: RequestInfo, durationMs: number) => void;
+  /** An attempt failed. Emitted before any retry. */
+  failed: (request: RequestInfo, err: unknown, durationMs: number) => void;
+  /** A request waits for the rate limiter or concurrency limiter */
+  throttled: (request: RequestInfo, waitMs: number) => void;
+  /** A failed request will be sent again after the delay */
+  retrying: (request: RequestInfo, err: unknown, delayMs: number) => void;
+  /** The x-ratelimit-* headers reported that the remaining requests ran out */
+  rateLimited: (resetMs: number) => void;
+}
+
+export interface ResponseHeaders {
+  get(name: string): string | null;
+}
+
+/** The SDK's APIPromise. Plain promises are accepted too, e.g. from test doubles. */
+type Sendable<T> = PromiseLike<T> & {
+  withResponse?: () => Promise<{
+    data: T;
+    response: { headers: ResponseHeaders };
+  }>;
+  asResponse?: () => Promise<{ headers: ResponseHeaders }>;
+};
+
+/**
+ * Runs every API request made by the wrapper through a chain of middleware.
+ */
+export class RequestPipeline extends TypedEmitter<RequestPipelineEvents> {
+  private _middleware: RequestMiddleware[] = [];
+
+  /** @param clock Times requests, and the waits of the rate limiter and retries. The Context passes its clock. */
+  constructor(public readonly clock: Clock = systemClock) {
+    super();
+  }
+
+  /** Appends a middleware. Middleware added first runs outermost. */
+  use(middleware: RequestMiddleware) {
+    this._middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Sends a request through the middleware chain.
+   * @param send Starts the SDK call. Called once per attempt.
+   * @param raw Resolve with the raw Response instead of the parsed body, e.g. for streaming.
+   */
+  async send<T>(
+    info: Pick<RequestInfo, "object" | "operation">,
+    send: () => Sendable<T>,
+    raw?: false,
+  ): Promise<T>;
+  async send(
+    info: Pick<RequestInfo, "object" | "operation">,
+    send: () => Sendable<unknown>,
+    raw: true,
+  ): Promise<Response>;
+  async send(
+    info: Pick<RequestInfo, "object" | "operation">,
+    send: () => Sendable<unknown>,
+    raw = false,
+  ) {
+    const request: RequestInfo = { ...info, attempt: 0, headers: null };
+
+    const sendOnce = async () => {
+      const start = this.clock.now();
+      this.emit("request", request);
+      try {
+        const promise = send();
+        let data: unknown;
+        if (raw && promise.asResponse) {
+          data = await promise.asResponse();
+          request.headers = (data as Response).headers;
+        } else if (promise.withResponse) {
+          const result = await promise.withResponse();
+          data = result.data;
+          request.headers = result.response.headers;
+        } else {
+          data = await promise;
+        }
+        this.emit("response", request, this.clock.now() - start);
+        return data;
+      } catch (err) {
+        if (err instanceof OpenAI.APIError && err.headers) {
+          const headers = err.headers;
+          request.headers = { get: (name) => headers[name] ?? null };
+        }
+        this.emit("failed", request, err, this.clock.now() - start);
+        throw err;
+      }
+    };
+
+    const dispatch = (i: number): Promise<unknown> => {
+      const middleware = this._middleware[i];
+      if (!middleware) return sendOnce();
+      return middleware(request, () => dispatch(i + 1), this);
+    };
+    return await dispatch(0);
+  }
+}
+
+/** Parses durations like "1s", "6m0s" or "20ms" used by the x-ratelimit-reset-* headers */
+export const parseResetDuration = (value: string | null) => {
+  if (!value) return null;
+  let ms = 0;
+  let matched = false;
+  for (const [, amount, unit] of value.matchAll(/([\d.]+)(ms|s|m|h)/g)) {
+    matched = true;
+    const factor = { ms: 1, s: 1000, m: 60_000, h: 3_600_000 }[unit!]!;
+    ms += Number(amount) * factor;
+  }
+  return matched ? ms : null;
+};
+
+const sleep = (clock: Clock, ms: number) =>
+  new Promise<void>((resolve) => clock.setTimeout(resolve, ms));
+
+export interface RateLimit {
+  /** Sustained requests per second. Unlimited if omitted. */
+  requestsPerSecond?: number;
+  /** Requests that can be sent at once before the rate applies. Defaults to requestsPerSecond. */
+  burst?: number;
+  /** Maximum requests in flight at the same time. Unlimited if omitted. */
+  maxConcurrency?: number;
+}
+
+export interface RateLimiterOptions {
+  /** Limits for object types without their own limits */
+  default?: RateLimit;
+  /** Limits per object type. Each object type has its own budget, so e.g. run polling can't starve message creation. */
+  objects?: Partial<Record<ObjectType, RateLimit>>;
+  /** Pause all requests when x-ratelimit-remaining-requests reaches this value. Defaults to 0. */
+  remainingThreshold?: number;
+}
+
+class Limiter {
+  private _tokens: number;
+  private _refilledAt: number;
+  private _inFlight = 0;
+  private _waiting: (() => void)[] = [];
+
+  constructor(
+    private _limit: RateLimit,
+    private _clock: Clock,
+  ) {
+    this._tokens = _limit.burst ?? _limit.requestsPerSecond ?? Infinity;
+    this._refilledAt = _clock.now();
+  }
+
+  /** Milliseconds until a token is available, after taking one if available */
+  private _take() {
+    const rate = this._limit.requestsPerSecond;
+    if (rate === undefined) return 0;
+    const now = this._clock.now();
+    const capacity = this._limit.burst ?? rate;
+    this._tokens = Math.min(
+      capacity,
+      this._tokens + ((now - this._refilledAt) * rate) / 1000,
+    );
+    this._refilledAt = now;
+    if (this._tokens >= 1) {
+      this._tokens--;
+      return 0;
+    }
+    return ((1 - this._tokens) * 1000) / rate;
+  }
+
+  /** Waits for a token and a concurrency slot. Returns the time waited. */
+  async acquire() {
+    const start = this._clock.now();
+    const max = this._limit.maxConcurrency ?? Infinity;
+    while (this._inFlight >= max) {
+      await new Promise<void>((resolve) => this._waiting.push(resolve));
+    }
+    this._inFlight++;
+    for (let wait = this._take(); wait > 0; wait = this._take()) {
+      await sleep(this._clock, wait);
+    }
+    return this._clock.now() - start;
+  }
+
+  release() {
+    this._inFlight--;
+    this._waiting.shift()?.();
+  }
+}
+
+/**
+ * Token bucket and concurrency limiter per object type.
+ * Also pauses all requests when the `x-ratelimit-*` response headers report that the remaining requests ran out.
+ */
+export const rateLimiter = (
+  options: RateLimiterOptions = {},
+): RequestMiddleware => {
+  const limiters = new Map<ObjectType | "default", Limiter>();
+  const limiterFor = (object: ObjectType, clock: Clock) => {
+    const key = options.objects?.[object] ? object : "default";
+    let limiter = limiters.get(key);
+    if (!limiter) {
+      limiter = new Limiter(
+        options.objects?.[object] ?? options.default ?? {},
+        clock,
+      );
+      limiters.set(key, limiter);
+    }
+    return limiter;
+  };
+  let pausedUntil = 0;
+
+  const adapt = (request: RequestInfo, pipeline: RequestPipeline) => {
+    const remaining = request.headers?.get("x-ratelimit-remaining-requests");
+    if (remaining === null || remaining === undefined) return;
+    if (Number(remaining) > (options.remainingThreshold ?? 0)) return;
+    const resetMs = parseResetDuration(
+      request.headers!.get("x-ratelimit-reset-requests"),
+    );
+    if (resetMs === null) return;
+    pausedUntil = Math.max(pausedUntil, pipeline.clock.now() + resetMs);
+    pipeline.emit("rateLimited", resetMs);
+  };
+
+  return async (request, next, pipeline) => {
+    const pause = pausedUntil - pipeline.clock.now();
+    if (pause > 0) {
+      pipeline.emit("throttled", request, pause);
+      await sleep(pipeline.clock, pause);
+    }
+    const limiter = limiterFor(request.object, pipeline.clock);
+    const waited = await limiter.acquire();
+    if (waited > 0) pipeline.emit("throttled", request, waited);
+    try {
+      return await next();
+    } finally {
+      limiter.release();
+      adapt(request, pipeline);
+    }
+  };
+};
+
+export interface RetryOptions {
+  /** Defaults to 2 */
+  maxRetries?: number;
+  /** Base delay of the exponential backoff when the response has no retry-after header. Defaults to 500 ms. */
+  initialDelayMs?: number;
+  /** Defaults to 30 seconds */
+  maxDelayMs?: number;
+}
+
+/**
+ * Retries 429, 5xx and connection errors. Waits for the `retry-after-ms` / `retry-after` header if present,
+ * otherwise backs off exponentially.
+ *
+ * Note - the OpenAI client also retries by default; create it with `maxRetries: 0` when using this.
+ */
+export const retry = (options: RetryOptions = {}): RequestMiddleware => {
+  const {
+    maxRetries = 2,
+    initialDelayMs = 500,
+    maxDelayMs = 1000 * 30,
+  } = options;
+
+  const retryDelay = (request: RequestInfo, clock: Clock) => {
+    const retryAfterMs = request.headers?.get("retry-after-ms");
+    if (retryAfterMs) return Number(retryAfterMs);
+    const retryAfter = request.headers?.get("retry-after");
+    if (retryAfter) {
+      const seconds = Number(retryAfter);
+      const ms = isNaN(seconds)
+        ? Date.parse(retryAfter) - clock.now()
+        : seconds * 1000;
+      if (!isNaN(ms)) return Math.max(0, ms);
+    }
+    return initialDelayMs * 2 ** request.attempt;
+  };
+
+  return async (request, next, pipeline) => {
+    for (;;) {
+      try {
+        return await next();
+      } catch (err) {
+        if (!isTransientError(err) || request.attempt >= maxRetries) throw err;
+        const delay = Math.min(maxDelayMs, retryDelay(request, pipeline.clock));
+        pipeline.emit("retrying", request, err, delay);
+        await sleep(pipeline.clock, delay);
+        request.attempt++;
+      }
+    }
+  };
+};
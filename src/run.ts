@@ -1,31 +1,78 @@
 import { OpenAI } from "openai";
 
 import { Assistant, Context } from "./index.js";
+import { Message } from "./message.js";
+import {
+  defaultPollingOptions,
+  PollingOptions,
+  pollLoop,
+  PollOutcome,
+} from "./polling.js";
+import { RunStep, RunStepStatus } from "./runStep.js";
+import {
+  applyMessageDelta,
+  AssistantStreamEvent,
+  MessageDelta,
+  messageDeltaText,
+  streamAssistantEvents,
+  ToolCallDelta,
+} from "./streaming.js";
+import type { Span } from "./telemetry.js";
 import { Thread } from "./thread.js";
+import type { ActiveRunPolicy } from "./threadQueue.js";
+import { ToolOutput, ToolRegistry } from "./tools.js";
+import { metadataTags, runUsage } from "./usage.js";
 import { createWrappedPage, StatefulObject } from "./utils.js";
 
-const POLL_INTERVAL_MS = 750;
-const POLL_TIMEOUT_MS = 1000 * 60 * 2; // 2 minutes
-
 export interface RunEvents {
   statusChanged: (status: RunStatus) => void;
   actionRequired: (
     action: OpenAI.Beta.Threads.Runs.Run["required_action"],
   ) => void;
   toolOutputsSubmitted: () => void;
+  toolCallsDispatched: (outputs: ToolOutput[]) => void;
   toolOutputsDeferred: () => void;
   finished: (err: unknown, status: RunStatus | null) => void;
+  // Step events are emitted by streaming runs, and by polled runs while steps are tracked
+  stepCreated: (step: RunStep) => void;
+  stepCompleted: (step: RunStep) => void;
+  stepFailed: (step: RunStep) => void;
+  // The following events are only emitted by streaming runs
+  messageCreated: (message: Message) => void;
+  messageDelta: (delta: MessageDelta, message: Message) => void;
+  textDelta: (text: string, message: Message) => void;
+  messageCompleted: (message: Message) => void;
+  toolCallDelta: (delta: ToolCallDelta, stepId: string) => void;
 }
 
 export type RunStatus = OpenAI.Beta.Threads.Runs.Run["status"];
 
+const exitStatuses: RunStatus[] = [
+  "cancelled",
+  "expired",
+  "completed",
+  "failed",
+];
+
 export class Run extends StatefulObject<
   Run,
   OpenAI.Beta.Threads.Runs.Run,
   RunEvents
 > {
-  private _pollInterval: ReturnType<typeof setInterval> | null = null;
-  private _pollStartTime = 0;
+  private _pollToken: symbol | null = null;
+  private _removeAbortListener = () => {};
+  private _streaming = false;
+  private _textChunks: string[] = [];
+  /** Last seen status of each step, to emit step events once */
+  private _stepStatuses = new Map<string, RunStepStatus>();
+  /** Traces the run from creation until it has finished */
+  private _span: Span | null = null;
+  /** Resumes polling that waits for tool outputs, e.g. after the run was cancelled instead */
+  private _resumePolling: (() => void) | null = null;
+  /** Tool registry used to answer requires_action automatically. Falls back to the Context's registry. */
+  toolRegistry: ToolRegistry | null = null;
+  /** Polling options for this Run. Override the Context's polling options. */
+  pollingOptions: PollingOptions = {};
 
   constructor(
     ctx: Context,
@@ -35,12 +82,24 @@ export class Run extends StatefulObject<
     super(ctx, Run.object, id);
   }
 
+  protected _fetchId() {
+    return { threadId: this.thread.id, id: this.id };
+  }
+
   static readonly object = "run";
   readonly object = Run.object;
 
   get status() {
     return this.wrappedValue.status;
   }
+  /** Token usage, once the run has reached a terminal status. Null if the API doesn't report it. */
+  get usage() {
+    return runUsage(this.wrappedValue);
+  }
+  /** True while the Run receives its updates from an event stream instead of polling */
+  get streaming() {
+    return this._streaming;
+  }
 
   /** Retrieves from cache or fetches if missing, then begins polling. */
   async load(options?: OpenAI.RequestOptions) {
@@ -48,28 +107,109 @@ export class Run extends StatefulObject<
     this.beginPolling();
   }
 
-  /** Creates a Run and begins a polling process to check its status. */
+  /**
+   * Creates a Run and begins a polling process to check its status.
+   * With `stream: true`, the Run is updated from the server-sent event stream instead of polling.
+   * If the thread has an active run, the Run is created once it has finished, unless `onActiveRun` says otherwise.
+   */
   static async create(
     ctx: Context,
     thread: Thread,
     params: RunCreateParams,
     options: OpenAI.RequestOptions = {},
   ) {
-    const { assistant, ...rest } = params;
-    const runParams = { ...rest, assistant_id: assistant.id };
-
-    const run = await ctx.client.beta.threads.runs.create(
+    const { onActiveRun, ...rest } = params;
+    return await ctx.threadQueue.schedule(
       thread.id,
-      runParams,
+      () => Run._create(ctx, thread, rest, options),
+      onActiveRun,
       options,
     );
+  }
+
+  /** Creates a Run without waiting for the thread's active run */
+  static async _create(
+    ctx: Context,
+    thread: Thread,
+    params: Omit<RunCreateParams, "onActiveRun">,
+    options: OpenAI.RequestOptions = {},
+  ) {
+    const { assistant, toolRegistry, polling, stream, ...rest } = params;
+    const runParams = { ...rest, assistant_id: assistant.id };
+    ctx.usage.assertWithinBudget({
+      assistantId: assistant.id,
+      threadId: thread.id,
+      tags: metadataTags(rest.metadata),
+    });
+
+    if (stream) {
+      const response = await ctx.requests.send(
+        { object: this.object, operation: "create" },
+        () =>
+          ctx.client.beta.threads.runs.create(
+            thread.id,
+            { ...runParams, stream } as OpenAI.Beta.Threads.RunCreateParams,
+            options,
+          ),
+        true,
+      );
+      const run = await Run._fromStream(
+        ctx,
+        streamAssistantEvents(response),
+        thread,
+        toolRegistry,
+        options,
+      );
+      run._started();
+      return run;
+    }
+
+    const run = await ctx.requests.send(
+      { object: this.object, operation: "create" },
+      () => ctx.client.beta.threads.runs.create(thread.id, runParams, options),
+    );
     ctx.cache.set(this.object, run.id, run);
     ctx.cache._emit("created", this.object, run.id, run);
     const created = new Run(ctx, thread, run.id);
+    created.toolRegistry = toolRegistry ?? null;
+    created.pollingOptions = polling ?? {};
+    created._started();
     created.beginPolling();
     return created;
   }
 
+  /**
+   * Reads a run event stream until the run is created, then keeps consuming the rest of the stream in the background.
+   * @param thread Thread of the run. If null, it's taken from the stream's thread.created event or loaded.
+   */
+  static async _fromStream(
+    ctx: Context,
+    events: AsyncGenerator<AssistantStreamEvent>,
+    thread: Thread | null,
+    toolRegistry: ToolRegistry | undefined,
+    options: OpenAI.RequestOptions = {},
+  ) {
+    for (;;) {
+      const { value: event, done } = await events.next();
+      if (done) throw new Error("Stream ended before a run was created");
+
+      if (event.event === "thread.created") {
+        ctx.cache.set(Thread.object, event.data.id, event.data);
+        ctx.cache._emit("created", Thread.object, event.data.id, event.data);
+        thread = new Thread(ctx, event.data.id);
+      } else if (event.event === "thread.run.created") {
+        const data = event.data;
+        thread ??= await Thread.load(ctx, data.thread_id, options);
+        ctx.cache.set(this.object, data.id, data);
+        ctx.cache._emit("created", this.object, data.id, data);
+        const run = new Run(ctx, thread, data.id);
+        run.toolRegistry = toolRegistry ?? null;
+        void run._consumeStream(events, options);
+        return run;
+      }
+    }
+  }
+
   /** Constructs a new Run object by fetching by id or returning from cache if already present. */
   static async load(
     ctx: Context,
@@ -83,16 +223,18 @@ export class Run extends StatefulObject<
   }
 
   /**
-   * Returns a list of Runs from a Thread.
+   * Returns a list of Runs from a Thread, newest first unless `query.order` is "asc".
    */
   static async list(
     ctx: Context,
     thread: Thread,
     options: OpenAI.RequestOptions = {},
+    query: OpenAI.Beta.Threads.RunListParams = {},
   ) {
-    const page = await ctx.client.beta.threads.runs.list(
-      thread.id,
-      ctx._opts(options),
+    const page = await ctx.requests.send(
+      { object: this.object, operation: "list" },
+      () =>
+        ctx.client.beta.threads.runs.list(thread.id, query, ctx._opts(options)),
     );
     return createWrappedPage(ctx, page, (ctx, id) => new Run(ctx, thread, id));
   }
@@ -102,43 +244,119 @@ export class Run extends StatefulObject<
     params: OpenAI.Beta.Threads.RunUpdateParams,
     options: OpenAI.RequestOptions = {},
   ) {
-    const result = await this._ctx.client.beta.threads.runs.update(
-      this.thread.id,
-      this.id,
-      params,
-      options,
+    const result = await this._ctx.requests.send(
+      { object: this.object, operation: "update" },
+      () =>
+        this._ctx.client.beta.threads.runs.update(
+          this.thread.id,
+          this.id,
+          params,
+          options,
+        ),
     );
     this._cache.set(this.object, this.id, result);
     return this;
   }
 
+  /**
+   * Called once the run has been created or resumed. Journals it, tracks its usage
+   * and traces its lifecycle in a span, with status changes as span events.
+   */
+  _started() {
+    void this._ctx.journal.add(this);
+    this._ctx.threadQueue._track(this);
+    this._ctx.usage._track(this);
+    const telemetry = this._ctx.telemetry;
+    const start = telemetry.now();
+    const span = (this._span = telemetry.startSpan("openai.run", {
+      "run.id": this.id,
+      "thread.id": this.thread.id,
+      "assistant.id": this.wrappedValue.assistant_id,
+    }));
+    const onStatus = (status: RunStatus) => span.addEvent(status);
+    this.on("statusChanged", onStatus);
+    this.once("finished", (err, status) => {
+      this.off("statusChanged", onStatus);
+      this._span = null;
+      const failure = err
+        ? "error"
+        : status === "failed"
+        ? this.wrappedValue.last_error?.code ?? "failed"
+        : status === "expired"
+        ? "expired"
+        : null;
+      telemetry.record("openai.run.duration", telemetry.now() - start, {
+        status: status ?? "error",
+      });
+      if (failure) telemetry.count("openai.run.failures", 1, { failure });
+      span.setAttributes({ "run.status": status, "run.failure": failure });
+      span.end(
+        err ??
+          (failure ? new Error(`Run ended with status ${status}`) : undefined),
+      );
+    });
+  }
+
   /** Cancels this Run */
   async cancel(options: OpenAI.RequestOptions = {}) {
-    const result = await this._ctx.client.beta.threads.runs.cancel(
-      this.thread.id,
-      this.id,
-      options,
+    const result = await this._ctx.requests.send(
+      { object: this.object, operation: "cancel" },
+      () =>
+        this._ctx.client.beta.threads.runs.cancel(
+          this.thread.id,
+          this.id,
+          options,
+        ),
     );
     this._cache.set(this.object, this.id, result);
+    this._resumePolling?.();
     return this;
   }
 
   /**
-   * Submits tool outputs to this Run.
+   * Submits tool outputs to this Run. Streaming runs continue streaming unless `stream: false` is passed.
    */
   async submitToolOutputs(
-    params: OpenAI.Beta.Threads.RunSubmitToolOutputsParams,
+    params: RunSubmitToolOutputsParams,
     options: OpenAI.RequestOptions = {},
   ) {
-    await this._ctx.cache.fetch('run', { id: this.id, threadId: this.thread.id }, options);
+    const { stream = this._streaming, ...rest } = params;
+    await this._ctx.cache.fetch(
+      "run",
+      { id: this.id, threadId: this.thread.id },
+      options,
+    );
     if (this.status !== "requires_action") {
       this.emit("toolOutputsDeferred");
     }
-    const result = await this._ctx.client.beta.threads.runs.submitToolOutputs(
-      this.thread.id,
-      this.id,
-      params,
-      options,
+    if (stream) {
+      const response = await this._ctx.requests.send(
+        { object: this.object, operation: "submitToolOutputs" },
+        () =>
+          this._ctx.client.beta.threads.runs.submitToolOutputs(
+            this.thread.id,
+            this.id,
+            {
+              ...rest,
+              stream,
+            } as OpenAI.Beta.Threads.RunSubmitToolOutputsParams,
+            options,
+          ),
+        true,
+      );
+      void this._consumeStream(streamAssistantEvents(response), options);
+      this.emit("toolOutputsSubmitted");
+      return this;
+    }
+    const result = await this._ctx.requests.send(
+      { object: this.object, operation: "submitToolOutputs" },
+      () =>
+        this._ctx.client.beta.threads.runs.submitToolOutputs(
+          this.thread.id,
+          this.id,
+          rest,
+          options,
+        ),
     );
     this._cache.set(this.object, this.id, result);
     this.emit("toolOutputsSubmitted");
@@ -146,35 +364,84 @@ export class Run extends StatefulObject<
   }
 
   /**
-   * Returns a list of steps from this Run. Steps aren't cached.
+   * Returns a list of steps from this Run.
    */
-  async listSteps(options: OpenAI.RequestOptions = {}) {
-    const page = await this._ctx.client.beta.threads.runs.steps.list(
-      this.thread.id,
-      this.id,
-      options,
-    );
-    return page;
+  async listSteps(
+    options?: OpenAI.RequestOptions,
+    query?: OpenAI.Beta.Threads.Runs.StepListParams,
+  ) {
+    return await RunStep.list(this._ctx, this, options, query);
   }
 
   /**
-   * Gets a step by id. Steps aren't cached.
+   * Returns the files output by the code interpreter during this Run, e.g. images, loaded into the cache.
    */
-  async fetchStep(id: string, options: OpenAI.RequestOptions = {}) {
-    const step = await this._ctx.client.beta.threads.runs.steps.retrieve(
-      this.thread.id,
-      this.id,
-      id,
-      options,
+  async outputFiles(options: OpenAI.RequestOptions = {}) {
+    const page = await this.listSteps(options, { limit: 100 });
+    const files = await page.map((step) => step.outputFiles(options));
+    return files.flat();
+  }
+
+  /**
+   * Gets a step by id, or returns it from the cache if already present.
+   */
+  async fetchStep(id: string, options?: OpenAI.RequestOptions) {
+    return await RunStep.load(this._ctx, this, id, options);
+  }
+
+  /**
+   * Caches a step of this Run and emits stepCreated, stepCompleted or stepFailed when it's new or its status changed.
+   */
+  private _trackStep(data: OpenAI.Beta.Threads.Runs.RunStep) {
+    const old = this._cache.get<OpenAI.Beta.Threads.Runs.RunStep>(
+      RunStep.object,
+      data.id,
+    );
+    this._cache.set(RunStep.object, data.id, data);
+    const step = new RunStep(this._ctx, this, data.id);
+    const known = this._stepStatuses.get(data.id);
+    this._stepStatuses.set(data.id, data.status);
+    if (known === undefined) {
+      if (!old) this._cache._emit("created", RunStep.object, data.id, data);
+      this.emit("stepCreated", step);
+    }
+    if (known === data.status) return;
+    if (data.status === "completed") this.emit("stepCompleted", step);
+    else if (data.status === "failed") this.emit("stepFailed", step);
+  }
+
+  /** Fetches the steps of this Run and tracks their status changes */
+  private async _syncSteps(options: OpenAI.RequestOptions) {
+    // Steps are listed newest first, so unfinished steps are on the first page
+    const page = await this.listSteps(options, { limit: 100 });
+    for (const step of [...page.data].reverse()) {
+      this._trackStep(step.wrappedValue);
+    }
+  }
+
+  /** Steps are tracked while polling if enabled, or by default while anyone listens to step events */
+  private _tracksSteps(trackSteps: boolean | undefined) {
+    return (
+      trackSteps ??
+      (["stepCreated", "stepCompleted", "stepFailed"] as const).some(
+        (event) => this.listenerCount(event) > 0,
+      )
     );
-    return step;
   }
 
   /**
    * Waits until this emitter emits a finished event, then returns the status.
+   * Returns immediately if the cached Run already has a terminal status.
    */
   async waitUntilFinished() {
-    if (this._pollInterval === null) {
+    const cached = this._cache.get<OpenAI.Beta.Threads.Run>(
+      this.object,
+      this.id,
+    );
+    if (cached && exitStatuses.includes(cached.status) && !this._streaming) {
+      return cached.status;
+    }
+    if (!this.polling && !this._streaming) {
       this.beginPolling();
     }
     return new Promise<RunStatus>((resolve, reject) => {
@@ -185,87 +452,366 @@ export class Run extends StatefulObject<
     });
   }
 
+  /**
+   * Async iterator over the text the assistant writes during a streaming run. Chunks received before calling this are replayed.
+   * Ends when the run has finished; ends immediately for runs that aren't streaming.
+   */
+  async *textStream(): AsyncGenerator<string> {
+    const queue = [...this._textChunks];
+    let finished = !this._streaming;
+    let error: unknown = null;
+    let wake = () => {};
+    const onText = (text: string) => {
+      queue.push(text);
+      wake();
+    };
+    const onFinished = (err: unknown) => {
+      finished = true;
+      error = err;
+      wake();
+    };
+    this.on("textDelta", onText);
+    this.on("finished", onFinished);
+    try {
+      for (;;) {
+        while (queue.length) yield queue.shift()!;
+        if (finished) break;
+        await new Promise<void>((resolve) => (wake = resolve));
+      }
+      if (error) throw error;
+    } finally {
+      this.off("textDelta", onText);
+      this.off("finished", onFinished);
+    }
+  }
+
+  /**
+   * Calls the registered tool handlers for a required action and submits all outputs in one batch.
+   * The outputs are journaled before they're submitted, so a resumed run submits them without calling the handlers again.
+   * @returns false if the tool registry can't handle every tool call
+   */
+  async dispatchToolCalls(
+    action: OpenAI.Beta.Threads.Runs.Run["required_action"],
+    options: OpenAI.RequestOptions = {},
+  ) {
+    const registry = this.toolRegistry ?? this._ctx.tools;
+    const toolCalls = action?.submit_tool_outputs.tool_calls ?? [];
+    // Outputs journaled before a restart are submitted without calling the handlers again
+    const journaled = (await this._ctx.journal.get(this.id))?.outputs ?? {};
+    const pending = toolCalls.filter((call) => !(call.id in journaled));
+    if (pending.length ? !registry.canDispatch(pending) : !toolCalls.length) {
+      return false;
+    }
+    const span = this._ctx.telemetry.startSpan(
+      "openai.run.tool_calls",
+      {
+        "run.id": this.id,
+        tools: pending.map((call) => call.function.name).join(","),
+      },
+      this._span ?? undefined,
+    );
+    const dispatched = pending.length
+      ? await registry.dispatch(pending, this, this._ctx.clock)
+      : [];
+    span.end();
+    await this._ctx.journal.recordOutputs(this, dispatched);
+    const outputs = toolCalls.map(
+      (call) =>
+        dispatched.find((output) => output.tool_call_id === call.id) ?? {
+          tool_call_id: call.id,
+          output: journaled[call.id],
+        },
+    );
+    this.emit("toolCallsDispatched", outputs);
+    await this.submitToolOutputs({ tool_outputs: outputs }, options);
+    await this._ctx.journal.clearOutputs(this.id);
+    return true;
+  }
+
   /**
    * Polls the Run until it has finished. Emits events when the status changes.
+   * Polls never overlap: the next poll is scheduled after the previous one has finished.
+   * Transient errors (429, 5xx, connection errors) are retried; other errors end the run with a finished event.
    *
-   * Note - for requires_action status, the actionRequired event will be emitted, then you can call submitToolOutputs()
+   * Note - for requires_action status, the tool calls are dispatched to the tool registry if it has a handler for all of them.
+   * Otherwise, the actionRequired event will be emitted, then you can call submitToolOutputs()
+   * With the `readOnly` polling option, tool calls are never dispatched; the actionRequired event is only emitted.
+   * @param options Request options for each poll
+   * @param polling Overrides the polling options of this Run and the Context
    */
-  beginPolling(options: OpenAI.RequestOptions = {}) {
-    // Clear existing polling interval if it exists
+  beginPolling(
+    options: OpenAI.RequestOptions = {},
+    polling: PollingOptions = {},
+  ) {
+    // Clear existing polling timer if it exists
     this.endPolling();
 
-    // Start timer
-    this._pollStartTime = Date.now();
-    // Begin polling interval
-    this._pollInterval = setInterval(async () => {
-      // Check if polling has timed out and exit if so
-      const elapsed = Date.now() - this._pollStartTime;
-      if (elapsed > POLL_TIMEOUT_MS) {
-        this.endPolling();
-        this.emit(
-          "finished",
-          new Error(
-            `Polling for Run id ${this.id} timed out after ${
-              POLL_TIMEOUT_MS / 1000
-            } seconds`,
-          ),
-          null,
-        );
-        return;
+    const config = {
+      ...defaultPollingOptions,
+      ...this._ctx.pollingOptions,
+      ...this.pollingOptions,
+      ...polling,
+    };
+    const token = Symbol("poll");
+    const isCurrent = () => this._pollToken === token;
+
+    // Emit events if the status has changed
+    let oldStatus = this._cache.get<OpenAI.Beta.Threads.Run>(
+      this.object,
+      this.id,
+    )?.status;
+    const onPolled = async (
+      run: OpenAI.Beta.Threads.Runs.Run,
+    ): Promise<PollOutcome> => {
+      this._ctx.telemetry.count("openai.run.polls", 1, { status: run.status });
+      let outcome: PollOutcome = "unchanged";
+      if (run.status !== oldStatus) {
+        oldStatus = run.status;
+        outcome = "changed";
+        this._ctx.scheduler.markActive(this);
+        this.emit("statusChanged", run.status);
       }
 
-      // Fetch the run and emit events if the status has changed
-      const oldRun = this.wrappedValue;
-      let run: OpenAI.Beta.Threads.Runs.Run;
-      try {
-        run = await this._ctx.cache.fetch<OpenAI.Beta.Threads.Runs.Run>(
-          Run.object,
-          { id: this.id, threadId: this.thread.id },
-          options,
-        );
-      } catch (err) {
-        console.error(`Error fetching Run id ${this.id} during polling:`, err);
-        this.emit("finished", err, null);
-        this.endPolling();
-        return;
+      if (run.status !== "queued" && this._tracksSteps(config.trackSteps)) {
+        await this._syncSteps(options);
+        if (!isCurrent()) return "done";
       }
-      if (run.status !== oldRun.status) this.emit("statusChanged", run.status);
 
       // Emit actionRequired event if the run requires action
       if (run.status === "requires_action") {
-        this.emit("actionRequired", run.required_action);
+        // Whoever owns the run submits the tool outputs
+        if (config.readOnly) {
+          if (outcome === "changed") {
+            this.emit("actionRequired", run.required_action);
+          }
+          return outcome;
+        }
         this.endPolling();
-        await new Promise<void>(resolve => {
-          this.once("toolOutputsSubmitted", resolve);
-          this.once("toolOutputsDeferred", resolve);
-        })
-        this.beginPolling();
+        let dispatched: boolean;
+        try {
+          dispatched = await this.dispatchToolCalls(
+            run.required_action,
+            options,
+          );
+        } catch (err) {
+          this.emit("finished", err, null);
+          return "done";
+        }
+        if (!dispatched) {
+          this.emit("actionRequired", run.required_action);
+          await new Promise<void>((resolve) => {
+            this._resumePolling = resolve;
+            this.once("toolOutputsSubmitted", resolve);
+            this.once("toolOutputsDeferred", resolve);
+          });
+          this._resumePolling = null;
+        }
+        // Tool outputs may have been submitted with streaming, which takes over from polling
+        if (!this._streaming) this.beginPolling(options, polling);
+        return "done";
       }
 
       // Emit finished event if the run has finished and end polling
-      const exitStatuses: RunStatus[] = [
-        "cancelled",
-        "expired",
-        "completed",
-        "failed",
-      ];
       if (exitStatuses.includes(run.status)) {
         this.endPolling();
-        await this.thread.fetch();
-        this.emit("finished", null, run.status);
-        return;
+        if (config.readOnly) this.emit("finished", null, run.status);
+        else await this._finish(run.status);
+        return "done";
       }
-    }, POLL_INTERVAL_MS);
+      return outcome;
+    };
+
+    this._pollToken = token;
+    if (!config.readOnly) this._ctx.threadQueue._track(this);
+    this._ctx.scheduler.markActive(this);
+    // Polls are sent by the Context's scheduler, which shares one timer and a rate limit between all runs
+    this._removeAbortListener = pollLoop({
+      clock: this._ctx.clock,
+      logger: this._ctx.logger,
+      config,
+      label: `Run id ${this.id}`,
+      fields: { runId: this.id },
+      isCurrent,
+      fetch: (delay) => this._ctx.scheduler.poll(this, delay, options),
+      onPolled,
+      end: () => this.endPolling(),
+      fail: (err) => this.emit("finished", err, null),
+      cancel: () => this.cancel(options),
+    });
   }
 
+  /** Stops polling. Doesn't emit a finished event. */
   endPolling() {
-    clearInterval(this._pollInterval!);
-    this._pollInterval = null;
-    this._pollStartTime = 0;
+    this._ctx.scheduler.cancel(this);
+    this._pollToken = null;
+    this._removeAbortListener();
+    this._removeAbortListener = () => {};
   }
+
+  /** True while the Run is being polled */
+  get polling() {
+    return this._pollToken !== null;
+  }
+
+  /**
+   * Consumes a run event stream, updating the cache and emitting events as they arrive.
+   * The stream pauses at requires_action; submitting tool outputs opens a new stream.
+   * Never rejects; errors end the run with a finished event.
+   */
+  private async _consumeStream(
+    events: AsyncGenerator<AssistantStreamEvent>,
+    options: OpenAI.RequestOptions,
+  ) {
+    this.endPolling();
+    this._streaming = true;
+    this._ctx.threadQueue._track(this);
+    try {
+      for await (const event of events) {
+        this._handleStreamEvent(event);
+      }
+    } catch (err) {
+      this._streaming = false;
+      this.emit("finished", err, null);
+      return;
+    }
+
+    const run = this.wrappedValue;
+    if (run.status === "requires_action") {
+      let dispatched: boolean;
+      try {
+        dispatched = await this.dispatchToolCalls(run.required_action, options);
+      } catch (err) {
+        this._streaming = false;
+        this.emit("finished", err, null);
+        return;
+      }
+      if (!dispatched) this.emit("actionRequired", run.required_action);
+      return;
+    }
+
+    this._streaming = false;
+    if (exitStatuses.includes(run.status)) {
+      await this._finish(run.status);
+    } else {
+      // The stream ended early, so fall back to polling
+      this.beginPolling(options);
+    }
+  }
+
+  /**
+   * Refreshes the thread and records the usage once the run has finished, then emits the finished event.
+   * Never rejects; errors of the refresh and the usage are logged, since the run has finished on the server anyway.
+   */
+  private async _finish(status: RunStatus) {
+    try {
+      await this.thread.fetch();
+    } catch (err) {
+      this._ctx.logger.error(
+        `Failed to refresh Thread id ${this.thread.id} after Run id ${this.id} has finished`,
+        { runId: this.id, threadId: this.thread.id, error: err },
+      );
+    }
+    try {
+      this._ctx.usage._record(this);
+    } catch (err) {
+      this._ctx.logger.error(
+        `Failed to record the usage of Run id ${this.id}`,
+        {
+          runId: this.id,
+          error: err,
+        },
+      );
+    }
+    void this._ctx.journal.remove(this.id);
+    this.emit("finished", null, status);
+  }
+
+  private _handleStreamEvent(event: AssistantStreamEvent) {
+    switch (event.event) {
+      case "thread.run.step.created":
+      case "thread.run.step.in_progress":
+      case "thread.run.step.completed":
+      case "thread.run.step.failed":
+      case "thread.run.step.cancelled":
+      case "thread.run.step.expired":
+        this._trackStep(event.data);
+        return;
+      case "thread.run.step.delta": {
+        const details = event.data.delta.step_details;
+        if (details?.type !== "tool_calls") return;
+        for (const delta of details.tool_calls ?? []) {
+          this.emit("toolCallDelta", delta, event.data.id);
+        }
+        return;
+      }
+      case "thread.message.created":
+      case "thread.message.in_progress":
+      case "thread.message.completed":
+      case "thread.message.incomplete": {
+        const data = event.data;
+        this._cache.set(Message.object, data.id, data);
+        const message = new Message(this._ctx, this.thread, data.id);
+        if (event.event === "thread.message.created") {
+          this._cache._emit("created", Message.object, data.id, data);
+          this.emit("messageCreated", message);
+        } else if (event.event === "thread.message.completed") {
+          this.emit("messageCompleted", message);
+        }
+        return;
+      }
+      case "thread.message.delta": {
+        const delta = event.data;
+        const existing =
+          this._cache.get<OpenAI.Beta.Threads.Messages.ThreadMessage>(
+            Message.object,
+            delta.id,
+          );
+        if (existing) {
+          this._cache.set(
+            Message.object,
+            delta.id,
+            applyMessageDelta(existing, delta),
+          );
+        }
+        const message = new Message(this._ctx, this.thread, delta.id);
+        this.emit("messageDelta", delta, message);
+        const text = messageDeltaText(delta);
+        if (text) {
+          this._textChunks.push(text);
+          this.emit("textDelta", text, message);
+        }
+        return;
+      }
+      default:
+        if (event.event.startsWith("thread.run.")) {
+          const data = event.data as OpenAI.Beta.Threads.Run;
+          const old = this._cache.get<OpenAI.Beta.Threads.Run>(
+            this.object,
+            this.id,
+          );
+          this._cache.set(this.object, this.id, data);
+          if (old?.status !== data.status)
+            this.emit("statusChanged", data.status);
+        }
+    }
+  }
+}
+
+export interface RunSubmitToolOutputsParams
+  extends OpenAI.Beta.Threads.RunSubmitToolOutputsParams {
+  /** Stream the rest of the run. Defaults to true for streaming runs. */
+  stream?: boolean;
 }
 
 export interface RunCreateParams
   extends Omit<OpenAI.Beta.Threads.RunCreateParams, "assistant_id"> {
   assistant: Assistant;
+  /** Overrides the Context's tool registry for this run */
+  toolRegistry?: ToolRegistry;
+  /** Overrides the Context's polling options for this run */
+  polling?: PollingOptions;
+  /** Receive updates from the server-sent event stream instead of polling */
+  stream?: boolean;
+  /** What to do if the thread has an active run. Defaults to the Context's policy. */
+  onActiveRun?: ActiveRunPolicy;
 }
@@ -0,0 +1,157 @@
+import { OpenAI } from "openai";
+
+import { File } from "./file.js";
+import { Context } from "./index.js";
+import { Message } from "./message.js";
+import type { Run } from "./run.js";
+import { createWrappedPage, StatefulObject } from "./utils.js";
+
+export type CodeInterpreterToolCall = OpenAI.Beta.Threads.Runs.CodeToolCall;
+export type RetrievalToolCall = OpenAI.Beta.Threads.Runs.RetrievalToolCall;
+export type RunStepFunctionToolCall = OpenAI.Beta.Threads.Runs.FunctionToolCall;
+export type RunStepStatus = OpenAI.Beta.Threads.Runs.RunStep["status"];
+
+export interface RunStepEvents {}
+
+export class RunStep extends StatefulObject<
+  RunStep,
+  OpenAI.Beta.Threads.Runs.RunStep,
+  RunStepEvents
+> {
+  constructor(
+    ctx: Context,
+    public run: Run,
+    id: string,
+  ) {
+    super(ctx, RunStep.object, id);
+  }
+
+  protected _fetchId() {
+    return { threadId: this.run.thread.id, runId: this.run.id, id: this.id };
+  }
+
+  static readonly object = "step";
+  readonly object = RunStep.object;
+
+  get type() {
+    return this.wrappedValue.type;
+  }
+  get status() {
+    return this.wrappedValue.status;
+  }
+  get lastError() {
+    return this.wrappedValue.last_error;
+  }
+  get createdAt() {
+    return new Date(this.wrappedValue.created_at * 1000);
+  }
+  get completedAt() {
+    const completedAt = this.wrappedValue.completed_at;
+    return completedAt === null ? null : new Date(completedAt * 1000);
+  }
+  get stepDetails() {
+    return this.wrappedValue.step_details;
+  }
+  get metadata() {
+    return this.wrappedValue.metadata;
+  }
+
+  /** True if the assistant created a message in this step */
+  get isMessageCreation() {
+    return this.stepDetails.type === "message_creation";
+  }
+  /** True if the assistant called tools in this step */
+  get isToolCalls() {
+    return this.stepDetails.type === "tool_calls";
+  }
+
+  /** The message created in this step, or null for tool call steps */
+  get message() {
+    const details = this.stepDetails;
+    return details.type === "message_creation"
+      ? new Message(
+          this._ctx,
+          this.run.thread,
+          details.message_creation.message_id,
+        )
+      : null;
+  }
+
+  /** All tool calls of this step. Empty for message creation steps. */
+  get toolCalls() {
+    const details = this.stepDetails;
+    return details.type === "tool_calls" ? details.tool_calls : [];
+  }
+  /** Code interpreter calls, with their input code and outputs (logs and images) */
+  get codeInterpreterCalls() {
+    return this.toolCalls.filter(
+      (call): call is CodeInterpreterToolCall =>
+        call.type === "code_interpreter",
+    );
+  }
+  get retrievalCalls() {
+    return this.toolCalls.filter(
+      (call): call is RetrievalToolCall => call.type === "retrieval",
+    );
+  }
+  /** Function calls, with their arguments and the submitted output */
+  get functionCalls() {
+    return this.toolCalls.filter(
+      (call): call is RunStepFunctionToolCall => call.type === "function",
+    );
+  }
+  /** Logs written by the code interpreter in this step */
+  get codeInterpreterLogs() {
+    return this.codeInterpreterCalls.flatMap((call) =>
+      call.code_interpreter.outputs.flatMap((output) =>
+        output.type === "logs" ? [output.logs] : [],
+      ),
+    );
+  }
+
+  /**
+   * Returns the images output by the code interpreter in this step, loaded into the cache.
+   */
+  async outputFiles(options?: OpenAI.RequestOptions) {
+    const ids = this.codeInterpreterCalls.flatMap((call) =>
+      call.code_interpreter.outputs.flatMap((output) =>
+        output.type === "image" ? [output.image.file_id] : [],
+      ),
+    );
+    return await File.loadAll(this._ctx, ids, options);
+  }
+
+  /** Constructs a new RunStep object by fetching by id or returning from cache if already present. */
+  static async load(
+    ctx: Context,
+    run: Run,
+    id: string,
+    options?: OpenAI.RequestOptions,
+  ) {
+    const step = new RunStep(ctx, run, id);
+    await step.load(options);
+    return step;
+  }
+
+  /**
+   * Returns a list of steps from a Run.
+   */
+  static async list(
+    ctx: Context,
+    run: Run,
+    options: OpenAI.RequestOptions = {},
+    query: OpenAI.Beta.Threads.Runs.StepListParams = {},
+  ) {
+    const page = await ctx.requests.send(
+      { object: this.object, operation: "list" },
+      () =>
+        ctx.client.beta.threads.runs.steps.list(
+          run.thread.id,
+          run.id,
+          query,
+          ctx._opts(options),
+        ),
+    );
+    return createWrappedPage(ctx, page, (ctx, id) => new RunStep(ctx, run, id));
+  }
+}
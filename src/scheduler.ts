@@ -0,0 +1,219 @@
+import { OpenAI } from "openai";
+
+import type { Context } from "./index.js";
+import type { Run } from "./run.js";
+
+export interface RunSchedulerOptions {
+  /** Maximum number of poll requests per second across all runs. Defaults to 10. */
+  maxRequestsPerSecond?: number;
+  /** Runs whose status changed within this many milliseconds are polled first. Defaults to 10 seconds. */
+  recentActivityMs?: number;
+  /** When at least this many runs of the same thread are due, they are fetched with a single runs.list request. Defaults to 2. */
+  batchThreshold?: number;
+}
+
+interface PendingPoll {
+  run: Run;
+  dueAt: number;
+  options: OpenAI.RequestOptions;
+  resolve: (value: OpenAI.Beta.Threads.Run | null) => void;
+  reject: (err: unknown) => void;
+  /** Set when the run wasn't found by a batched list request */
+  single?: boolean;
+}
+
+/** Max page size of runs.list */
+const LIST_LIMIT = 100;
+
+/**
+ * Shares polling across all runs of a Context with a single timer.
+ * Enforces a global request rate, polls recently active runs first, and batches runs of the same thread.
+ */
+export class RunScheduler {
+  private _pending = new Map<Run, PendingPoll>();
+  private _lastActive = new WeakMap<Run, number>();
+  private _timer: unknown = null;
+  private _timerAt = Infinity;
+  private _tokens: number;
+  private _refilledAt: number;
+  private _options: Required<RunSchedulerOptions>;
+
+  constructor(
+    private _ctx: Context,
+    options: RunSchedulerOptions = {},
+  ) {
+    this._options = {
+      maxRequestsPerSecond: 10,
+      recentActivityMs: 1000 * 10,
+      batchThreshold: 2,
+      ...options,
+    };
+    this._tokens = this._options.maxRequestsPerSecond;
+    this._refilledAt = _ctx.clock.now();
+  }
+
+  /** Number of runs waiting to be polled */
+  get size() {
+    return this._pending.size;
+  }
+
+  /**
+   * Fetches the run into the cache once the delay has passed and the rate limit allows it.
+   * Replaces any poll of the same run that is still waiting.
+   * @returns The fetched run, or null if the poll was cancelled
+   */
+  poll(run: Run, delayMs: number, options: OpenAI.RequestOptions = {}) {
+    this.cancel(run);
+    return new Promise<OpenAI.Beta.Threads.Run | null>((resolve, reject) => {
+      this._pending.set(run, {
+        run,
+        dueAt: this._ctx.clock.now() + delayMs,
+        options,
+        resolve,
+        reject,
+      });
+      this._wake();
+    });
+  }
+
+  /** Cancels a waiting poll. Its promise resolves with null. */
+  cancel(run: Run) {
+    const pending = this._pending.get(run);
+    if (!pending) return;
+    this._pending.delete(run);
+    pending.resolve(null);
+    this._wake();
+  }
+
+  /** Marks a run as recently active, so it's polled before other due runs */
+  markActive(run: Run) {
+    this._lastActive.set(run, this._ctx.clock.now());
+  }
+
+  private _isRecentlyActive(run: Run, now: number) {
+    const lastActive = this._lastActive.get(run);
+    return (
+      lastActive !== undefined &&
+      now - lastActive < this._options.recentActivityMs
+    );
+  }
+
+  private _refill() {
+    const now = this._ctx.clock.now();
+    const rate = this._options.maxRequestsPerSecond;
+    this._tokens = Math.min(
+      rate,
+      this._tokens + ((now - this._refilledAt) * rate) / 1000,
+    );
+    this._refilledAt = now;
+  }
+
+  /** Schedules the timer for the next due poll, or the next available request if the rate limit is exhausted */
+  private _wake() {
+    let next = Infinity;
+    for (const pending of this._pending.values()) {
+      next = Math.min(next, pending.dueAt);
+    }
+    if (next === Infinity) {
+      this._ctx.clock.clearTimeout(this._timer);
+      this._timer = null;
+      this._timerAt = Infinity;
+      return;
+    }
+    if (this._tokens < 1) {
+      const msPerToken = 1000 / this._options.maxRequestsPerSecond;
+      next = Math.max(next, this._refilledAt + (1 - this._tokens) * msPerToken);
+    }
+    if (this._timer && this._timerAt <= next) return;
+    this._ctx.clock.clearTimeout(this._timer);
+    this._timerAt = next;
+    this._timer = this._ctx.clock.setTimeout(
+      () => {
+        this._timer = null;
+        this._timerAt = Infinity;
+        this._pump();
+      },
+      Math.max(0, next - this._ctx.clock.now()),
+    );
+  }
+
+  private _pump() {
+    const now = this._ctx.clock.now();
+    this._refill();
+    const due = [...this._pending.values()]
+      .filter((pending) => pending.dueAt <= now)
+      .sort(
+        (a, b) =>
+          Number(this._isRecentlyActive(b.run, now)) -
+            Number(this._isRecentlyActive(a.run, now)) || a.dueAt - b.dueAt,
+      );
+
+    while (due.length && this._tokens >= 1) {
+      const next = due.shift()!;
+      this._tokens--;
+      const sameThread = due.filter(
+        (pending) =>
+          !pending.single && pending.run.thread.id === next.run.thread.id,
+      );
+      if (
+        !next.single &&
+        sameThread.length + 1 >= this._options.batchThreshold
+      ) {
+        for (const pending of sameThread) due.splice(due.indexOf(pending), 1);
+        this._list([next, ...sameThread]);
+      } else {
+        this._retrieve(next);
+      }
+    }
+    this._wake();
+  }
+
+  private _retrieve(pending: PendingPoll) {
+    this._pending.delete(pending.run);
+    const { run } = pending;
+    this._ctx.cache
+      .fetch<OpenAI.Beta.Threads.Run>(
+        "run",
+        { threadId: run.thread.id, id: run.id },
+        pending.options,
+      )
+      .then(pending.resolve, pending.reject);
+  }
+
+  /** Fetches the runs of one thread with a single list request */
+  private _list(batch: PendingPoll[]) {
+    for (const pending of batch) this._pending.delete(pending.run);
+    const threadId = batch[0]!.run.thread.id;
+    this._ctx.requests
+      .send({ object: "run", operation: "list" }, () =>
+        this._ctx.client.beta.threads.runs.list(
+          threadId,
+          { limit: LIST_LIMIT },
+          this._ctx._opts(batch[0]!.options),
+        ),
+      )
+      .then(
+        (page) => {
+          for (const pending of batch) {
+            const found = page.data.find((run) => run.id === pending.run.id);
+            if (!found) {
+              // Older than the first page, so retrieve it individually
+              this._pending.set(pending.run, {
+                ...pending,
+                dueAt: 0,
+                single: true,
+              });
+              continue;
+            }
+            this._ctx.cache.set("run", found.id, found);
+            this._ctx.cache._emit("fetched", "run", found.id, found);
+            pending.resolve(found);
+          }
+          this._wake();
+        },
+        (err) => {
+          for (const pending of batch) pending.reject(err);
+        },
+      );
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * The subset of JSON Schema used by OpenAI function definitions.
+ * Unknown keywords are allowed and ignored by the validator.
+ */
+export interface JSONSchema {
+  type?: JSONSchemaType | JSONSchemaType[];
+  description?: string;
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JSONSchema;
+  items?: JSONSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  anyOf?: JSONSchema[];
+  oneOf?: JSONSchema[];
+  allOf?: JSONSchema[];
+  [keyword: string]: unknown;
+}
+
+export type JSONSchemaType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "object"
+  | "array"
+  | "null";
+
+export interface SchemaValidationError {
+  /** JSONPath-like location of the invalid value, e.g. `$.location` */
+  path: string;
+  message: string;
+}
+
+const typeOf = (value: unknown): JSONSchemaType => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number")
+    return Number.isInteger(value) ? "integer" : "number";
+  return typeof value as JSONSchemaType;
+};
+
+const matchesType = (value: unknown, type: JSONSchemaType) => {
+  const actual = typeOf(value);
+  if (type === "number") return actual === "number" || actual === "integer";
+  return actual === type;
+};
+
+/**
+ * Validates a value against a JSON schema.
+ * @returns A list of validation errors, empty if the value is valid.
+ */
+export const validateSchema = (
+  schema: JSONSchema,
+  value: unknown,
+  path = "$",
+): SchemaValidationError[] => {
+  const errors: SchemaValidationError[] = [];
+  const fail = (message: string) => errors.push({ path, message });
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      fail(`expected ${types.join(" | ")}, got ${typeOf(value)}`);
+      return errors;
+    }
+  }
+  if (
+    schema.enum &&
+    !schema.enum.some((item) => JSON.stringify(item) === JSON.stringify(value))
+  ) {
+    fail(`expected one of ${JSON.stringify(schema.enum)}`);
+  }
+  if (
+    "const" in schema &&
+    JSON.stringify(schema.const) !== JSON.stringify(value)
+  ) {
+    fail(`expected ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength)
+      fail(`expected at least ${schema.minLength} characters`);
+    if (schema.maxLength !== undefined && value.length > schema.maxLength)
+      fail(`expected at most ${schema.maxLength} characters`);
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value))
+      fail(`expected to match pattern ${schema.pattern}`);
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum)
+      fail(`expected >= ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum)
+      fail(`expected <= ${schema.maximum}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems)
+      fail(`expected at least ${schema.minItems} items`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems)
+      fail(`expected at most ${schema.maxItems} items`);
+    if (schema.items) {
+      value.forEach((item, i) => {
+        errors.push(...validateSchema(schema.items!, item, `${path}[${i}]`));
+      });
+    }
+  }
+
+  if (typeOf(value) === "object") {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (!(key in record)) fail(`missing required property "${key}"`);
+    }
+    for (const [key, item] of Object.entries(record)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        errors.push(...validateSchema(propertySchema, item, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        fail(`unexpected property "${key}"`);
+      } else if (typeof schema.additionalProperties === "object") {
+        errors.push(
+          ...validateSchema(
+            schema.additionalProperties,
+            item,
+            `${path}.${key}`,
+          ),
+        );
+      }
+    }
+  }
+
+  for (const sub of schema.allOf ?? []) {
+    errors.push(...validateSchema(sub, value, path));
+  }
+  if (schema.anyOf) {
+    const matched = schema.anyOf.some(
+      (sub) => validateSchema(sub, value, path).length === 0,
+    );
+    if (!matched) fail("expected to match at least one schema in anyOf");
+  }
+  if (schema.oneOf) {
+    const matched = schema.oneOf.filter(
+      (sub) => validateSchema(sub, value, path).length === 0,
+    ).length;
+    if (matched !== 1)
+      fail(`expected to match exactly one schema in oneOf, matched ${matched}`);
+  }
+
+  return errors;
+};
@@ -0,0 +1,100 @@
+import type { Id, ObjectType } from "./cache.js";
+
+type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Persistence layer behind the Cache.
+ * The Cache keeps loaded entries in memory and writes through to the storage,
+ * so entries can be hydrated from it lazily after a restart.
+ * Values are StoredCacheEntry objects, which keep the time the entry was set for TTLs.
+ */
+export interface CacheStorage {
+  get<T = any>(object: ObjectType, id: Id): MaybePromise<T | undefined>;
+  set<T = any>(object: ObjectType, id: Id, value: T): MaybePromise<void>;
+  remove(object: ObjectType, id: Id): MaybePromise<void>;
+  /** Removes every entry */
+  clear(): MaybePromise<void>;
+}
+
+/**
+ * Stores entries in a Map. Useful for sharing a storage between contexts and for tests.
+ */
+export class MemoryCacheStorage implements CacheStorage {
+  private _data = new Map<string, unknown>();
+
+  get<T = any>(object: ObjectType, id: Id) {
+    return this._data.get(`${object}:${id}`) as T | undefined;
+  }
+
+  set<T = any>(object: ObjectType, id: Id, value: T) {
+    this._data.set(`${object}:${id}`, value);
+  }
+
+  remove(object: ObjectType, id: Id) {
+    this._data.delete(`${object}:${id}`);
+  }
+
+  clear() {
+    this._data.clear();
+  }
+}
+
+/**
+ * The synchronous statement API shared by `better-sqlite3` and `node:sqlite`'s `DatabaseSync`.
+ */
+export interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): {
+    run(...params: unknown[]): unknown;
+    get(...params: unknown[]): unknown;
+  };
+}
+
+/**
+ * Stores entries in a local SQLite database file, one row per entry.
+ * Bring your own driver, e.g. `new SqliteCacheStorage(new Database("cache.db"))` with `better-sqlite3`.
+ */
+export class SqliteCacheStorage implements CacheStorage {
+  private _initialized = false;
+
+  constructor(
+    private _db: SqliteDatabase,
+    private _table = "openai_gpt_assistants_cache",
+  ) {}
+
+  get<T = any>(object: ObjectType, id: Id) {
+    const row = this._statement(
+      `SELECT value FROM ${this._table} WHERE object = ? AND id = ?`,
+    ).get(object, id) as { value: string } | undefined;
+    return row ? (JSON.parse(row.value) as T) : undefined;
+  }
+
+  set<T = any>(object: ObjectType, id: Id, value: T) {
+    this._statement(
+      `INSERT INTO ${this._table} (object, id, value) VALUES (?, ?, ?) ` +
+        `ON CONFLICT (object, id) DO UPDATE SET value = excluded.value`,
+    ).run(object, id, JSON.stringify(value));
+  }
+
+  remove(object: ObjectType, id: Id) {
+    this._statement(
+      `DELETE FROM ${this._table} WHERE object = ? AND id = ?`,
+    ).run(object, id);
+  }
+
+  clear() {
+    this._statement(`DELETE FROM ${this._table}`).run();
+  }
+
+  private _statement(sql: string) {
+    if (!this._initialized) {
+      this._db.exec(
+        `CREATE TABLE IF NOT EXISTS ${this._table} (` +
+          `object TEXT NOT NULL, id TEXT NOT NULL, value TEXT NOT NULL, ` +
+          `PRIMARY KEY (object, id))`,
+      );
+      this._initialized = true;
+    }
+    return this._db.prepare(sql);
+  }
+}
@@ -0,0 +1,192 @@
+import { OpenAI } from "openai";
+
+import type { ObjectType } from "./cache.js";
+import type { Context } from "./index.js";
+import type { Run } from "./run.js";
+import type { Thread } from "./thread.js";
+
+/** Deeply immutable view of an object */
+export type Snapshot<T> = T extends (infer Item)[]
+  ? readonly Snapshot<Item>[]
+  : T extends object
+  ? { readonly [Key in keyof T]: Snapshot<T[Key]> }
+  : T;
+
+/**
+ * Subscribable snapshot of cached objects. A new snapshot is only created when the objects change,
+ * so comparing snapshots by reference detects changes.
+ * Both methods can be passed unbound, e.g. to React's `useSyncExternalStore`.
+ */
+export interface Store<T> {
+  /** Returns the current snapshot */
+  get: () => T;
+  /** Calls the listener with every new snapshot. Returns a function that unsubscribes. */
+  subscribe: (listener: (snapshot: T) => void) => () => void;
+}
+
+/** Frozen copies of cached values, so unchanged objects keep their snapshot */
+const snapshots = new WeakMap<object, unknown>();
+
+const deepFreeze = <T>(value: T): T => {
+  if (typeof value === "object" && value !== null) {
+    for (const item of Object.values(value)) deepFreeze(item);
+    Object.freeze(value);
+  }
+  return value;
+};
+
+/** Structural equality of JSON-like values, such as API objects */
+const isEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (
+    typeof a !== "object" ||
+    typeof b !== "object" ||
+    a === null ||
+    b === null ||
+    Array.isArray(a) !== Array.isArray(b)
+  ) {
+    return false;
+  }
+  const keys = Object.keys(a);
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every(
+      (key) =>
+        Object.hasOwn(b, key) &&
+        isEqual(a[key as keyof typeof a], b[key as keyof typeof b]),
+    )
+  );
+};
+
+const snapshotOf = <T extends object>(
+  value: T,
+  previous: Snapshot<T> | null | undefined,
+) => {
+  let snapshot = snapshots.get(value) as Snapshot<T> | undefined;
+  if (!snapshot) {
+    snapshot = deepFreeze(structuredClone(value)) as Snapshot<T>;
+    snapshots.set(value, snapshot);
+  }
+  // Objects fetched again are often unchanged; they keep the previous snapshot
+  return previous && previous !== snapshot && isEqual(previous, snapshot)
+    ? previous
+    : snapshot;
+};
+
+const sameItems = (a: readonly unknown[], b: readonly unknown[]) =>
+  a.length === b.length && a.every((item, index) => item === b[index]);
+
+/**
+ * Keeps a snapshot of cached values. Listens to the cache only while it has subscribers;
+ * without subscribers, the snapshot is updated when it's read.
+ */
+class CacheStore<T> implements Store<T> {
+  private _snapshot: T;
+  private _listeners = new Set<(snapshot: T) => void>();
+  private _unlisten: (() => void) | null = null;
+
+  constructor(
+    /** Returns the next snapshot, or the previous one if nothing changed */
+    private _read: (previous: T | undefined) => T,
+    private _listen: (onChange: () => void) => () => void,
+  ) {
+    this._snapshot = _read(undefined);
+  }
+
+  get = () => {
+    if (!this._unlisten) this._refresh();
+    return this._snapshot;
+  };
+
+  subscribe = (listener: (snapshot: T) => void) => {
+    this._listeners.add(listener);
+    if (!this._unlisten) {
+      this._refresh();
+      this._unlisten = this._listen(() => {
+        if (!this._refresh()) return;
+        for (const each of [...this._listeners]) each(this._snapshot);
+      });
+    }
+    return () => {
+      if (!this._listeners.delete(listener) || this._listeners.size) return;
+      this._unlisten?.();
+      this._unlisten = null;
+    };
+  };
+
+  /** Returns true if the snapshot changed */
+  private _refresh() {
+    const snapshot = this._read(this._snapshot);
+    if (snapshot === this._snapshot) return false;
+    this._snapshot = snapshot;
+    return true;
+  }
+}
+
+/** Listens to the cache events of an object type that pass the filter */
+const listenTo =
+  <T>(
+    ctx: Context,
+    object: ObjectType,
+    filter: (id: string, value: T) => boolean,
+  ) =>
+  (onChange: () => void) => {
+    const emitter = ctx.cache.emitter<T>(object);
+    const listener = (id: string, value: T) => {
+      if (filter(id, value)) onChange();
+    };
+    const events = ["cacheInserted", "updated", "cacheRemoved"] as const;
+    for (const event of events) emitter.on(event, listener);
+    return () => {
+      for (const event of events) emitter.off(event, listener);
+    };
+  };
+
+/** Observes a cached object by id. The snapshot is null while the object isn't in the cache. */
+export const observeObject = <T extends object>(
+  ctx: Context,
+  object: ObjectType,
+  id: string,
+): Store<Snapshot<T> | null> =>
+  new CacheStore(
+    (previous) => {
+      const value = ctx.cache.get<T>(object, id);
+      return value ? snapshotOf(value, previous) : null;
+    },
+    listenTo(ctx, object, (changedId) => changedId === id),
+  );
+
+/** Observes an assistant. The snapshot is null until the assistant is loaded. */
+export const observeAssistant = (ctx: Context, id: string) =>
+  observeObject<OpenAI.Beta.Assistant>(ctx, "assistant", id);
+
+/** Observes a run, e.g. its status while it's polled or streamed */
+export const observeRun = (ctx: Context, run: Run) =>
+  observeObject<OpenAI.Beta.Threads.Run>(ctx, "run", run.id);
+
+/**
+ * Observes the cached messages of a thread, oldest first.
+ * Messages reach the cache when they're created, listed, loaded or streamed.
+ */
+export const observeThreadMessages = (
+  ctx: Context,
+  thread: Thread,
+): Store<readonly Snapshot<OpenAI.Beta.Threads.ThreadMessage>[]> =>
+  new CacheStore(
+    (previous) => {
+      const byId = new Map(previous?.map((message) => [message.id, message]));
+      const messages = ctx.cache
+        .values<OpenAI.Beta.Threads.ThreadMessage>("message")
+        .filter((message) => message.thread_id === thread.id)
+        .sort((a, b) => a.created_at - b.created_at || a.id.localeCompare(b.id))
+        .map((message) => snapshotOf(message, byId.get(message.id)));
+      return previous && sameItems(messages, previous)
+        ? previous
+        : Object.freeze(messages);
+    },
+    listenTo<OpenAI.Beta.Threads.ThreadMessage>(
+      ctx,
+      "message",
+      (_, message) => message.thread_id === thread.id,
+    ),
+  );
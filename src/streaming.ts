@@ -0,0 +1,206 @@
+import { APIError, OpenAI } from "openai";
+
+type ThreadMessage = OpenAI.Beta.Threads.Messages.ThreadMessage;
+type TextContent = OpenAI.Beta.Threads.Messages.MessageContentText;
+type Annotation = TextContent["text"]["annotations"][number];
+
+export interface ServerSentEvent {
+  event: string | null;
+  data: string;
+}
+
+/** Incremental change to a message's content, sent with `thread.message.delta` events */
+export interface MessageDelta {
+  id: string;
+  object: "thread.message.delta";
+  delta: {
+    role?: ThreadMessage["role"];
+    content?: MessageContentDelta[];
+    file_ids?: string[];
+  };
+}
+
+export type MessageContentDelta =
+  | {
+      index: number;
+      type: "text";
+      text?: {
+        value?: string;
+        annotations?: (Partial<Annotation> & { index: number })[];
+      };
+    }
+  | {
+      index: number;
+      type: "image_file";
+      image_file?: { file_id?: string };
+    };
+
+/** Incremental change to a run step's tool calls, sent with `thread.run.step.delta` events */
+export interface RunStepDelta {
+  id: string;
+  object: "thread.run.step.delta";
+  delta: {
+    step_details?:
+      | { type: "message_creation"; message_creation?: { message_id?: string } }
+      | { type: "tool_calls"; tool_calls?: ToolCallDelta[] };
+  };
+}
+
+export interface ToolCallDelta {
+  index: number;
+  id?: string;
+  type: "code_interpreter" | "retrieval" | "function";
+  code_interpreter?: {
+    input?: string;
+    outputs?: Record<string, unknown>[];
+  };
+  retrieval?: Record<string, never>;
+  function?: { name?: string; arguments?: string; output?: string | null };
+}
+
+type RunEventName =
+  | "created"
+  | "queued"
+  | "in_progress"
+  | "requires_action"
+  | "completed"
+  | "failed"
+  | "cancelling"
+  | "cancelled"
+  | "expired";
+type StepEventName =
+  | "created"
+  | "in_progress"
+  | "completed"
+  | "failed"
+  | "cancelled"
+  | "expired";
+type MessageEventName = "created" | "in_progress" | "completed" | "incomplete";
+
+/** Events sent by the API when a run is created with `stream: true` */
+export type AssistantStreamEvent =
+  | { event: "thread.created"; data: OpenAI.Beta.Thread }
+  | { event: `thread.run.${RunEventName}`; data: OpenAI.Beta.Threads.Run }
+  | {
+      event: `thread.run.step.${StepEventName}`;
+      data: OpenAI.Beta.Threads.Runs.RunStep;
+    }
+  | { event: "thread.run.step.delta"; data: RunStepDelta }
+  | { event: `thread.message.${MessageEventName}`; data: ThreadMessage }
+  | { event: "thread.message.delta"; data: MessageDelta };
+
+/**
+ * Decodes a server-sent event stream into events.
+ * @param body Response body, either a web ReadableStream or a Node.js stream
+ */
+export async function* parseServerSentEvents(
+  body: AsyncIterable<Uint8Array | string>,
+): AsyncGenerator<ServerSentEvent> {
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let event: string | null = null;
+  let data: string[] = [];
+
+  const flushLine = function* (line: string) {
+    if (line === "") {
+      if (data.length) yield { event, data: data.join("\n") };
+      event = null;
+      data = [];
+      return;
+    }
+    if (line.startsWith(":")) return;
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? "" : line.slice(colon + 1);
+    if (value.startsWith(" ")) value = value.slice(1);
+    if (field === "event") event = value;
+    else if (field === "data") data.push(value);
+  };
+
+  for await (const chunk of body) {
+    buffer +=
+      typeof chunk === "string"
+        ? chunk
+        : decoder.decode(chunk, { stream: true });
+    const lines = buffer.split(/\r\n|\r|\n/);
+    buffer = lines.pop()!;
+    for (const line of lines) yield* flushLine(line);
+  }
+  buffer += decoder.decode();
+  if (buffer) yield* flushLine(buffer);
+  yield* flushLine("");
+}
+
+/**
+ * Parses the assistant events of a streaming response. Ends at the `done` event.
+ * @throws APIError if the stream sends an `error` event
+ */
+export async function* streamAssistantEvents(response: {
+  body: unknown;
+}): AsyncGenerator<AssistantStreamEvent> {
+  if (!response.body) {
+    throw new Error("Attempted to stream a response with no body");
+  }
+  const body = response.body as AsyncIterable<Uint8Array | string>;
+  for await (const sse of parseServerSentEvents(body)) {
+    if (sse.event === "done" || sse.data === "[DONE]") return;
+    const data = JSON.parse(sse.data);
+    if (sse.event === "error") {
+      throw new APIError(undefined, data?.error ?? data, undefined, undefined);
+    }
+    if (sse.event) yield { event: sse.event, data } as AssistantStreamEvent;
+  }
+}
+
+/**
+ * Returns a copy of the message with the delta applied. Text is appended and annotations are merged.
+ */
+export const applyMessageDelta = (
+  message: ThreadMessage,
+  delta: MessageDelta,
+): ThreadMessage => {
+  const content = [...message.content];
+  for (const part of delta.delta.content ?? []) {
+    const existing = content[part.index];
+    if (part.type === "text") {
+      const text =
+        existing?.type === "text"
+          ? existing.text
+          : { value: "", annotations: [] };
+      const annotations = [...text.annotations];
+      for (const { index, ...annotation } of part.text?.annotations ?? []) {
+        annotations[index] = {
+          ...annotations[index],
+          ...annotation,
+        } as Annotation;
+      }
+      content[part.index] = {
+        type: "text",
+        text: { value: text.value + (part.text?.value ?? ""), annotations },
+      };
+    } else {
+      content[part.index] = {
+        type: "image_file",
+        image_file: {
+          file_id:
+            part.image_file?.file_id ??
+            (existing?.type === "image_file"
+              ? existing.image_file.file_id
+              : ""),
+        },
+      };
+    }
+  }
+  return {
+    ...message,
+    content,
+    role: delta.delta.role ?? message.role,
+    file_ids: delta.delta.file_ids ?? message.file_ids,
+  };
+};
+
+/** Returns the text appended by a message delta */
+export const messageDeltaText = (delta: MessageDelta) =>
+  (delta.delta.content ?? [])
+    .map((part) => (part.type === "text" ? part.text?.value ?? "" : ""))
+    .join("");
@@ -0,0 +1,291 @@
+import { OpenAI } from "openai";
+
+import { Assistant, Context } from "./index.js";
+import { Message } from "./message.js";
+import { PollingOptions } from "./polling.js";
+import { Run } from "./run.js";
+import { JSONSchema, validateSchema } from "./schema.js";
+import type { Thread } from "./thread.js";
+import {
+  FunctionToolCall,
+  ToolCallError,
+  ToolOutput,
+  ToolRegistry,
+} from "./tools.js";
+
+/** Zod-like validator. `parse` returns the typed value, or throws if the value is invalid. */
+export interface ObjectValidator<T> {
+  parse(value: unknown): T;
+}
+
+/** A JSON schema, or a validator such as a Zod schema */
+export type OutputSchema<T> = JSONSchema | ObjectValidator<T>;
+
+export interface RunForObjectOptions {
+  /** Name of the function the assistant calls with the result. Defaults to "submit_result". */
+  name?: string;
+  description?: string;
+  /** JSON schema of the function parameters, if `schema` is a validator. Defaults to any object. */
+  parameters?: JSONSchema;
+  /** How many times an invalid result is sent back to the assistant. Defaults to 2. */
+  maxRetries?: number;
+  /** Overrides the Context's polling options for the runs */
+  polling?: PollingOptions;
+}
+
+export interface ObjectRunResult<T> {
+  object: T;
+  /** The run that produced the object */
+  run: Run;
+  /** All runs, including the ones that produced invalid results */
+  runs: Run[];
+  /** The message the object was parsed from, or else the last assistant message of the run, if any */
+  message: Message | null;
+  /** The function call that carried the object, or null if it was parsed from a message */
+  toolCall: FunctionToolCall | null;
+  /** Number of results checked, including the valid one */
+  attempts: number;
+}
+
+/** Thrown when the assistant didn't produce a valid result within the retries */
+export class StructuredOutputError extends Error {
+  constructor(
+    message: string,
+    /** Validation errors of the last result */
+    public readonly errors: string[],
+    public readonly runs: Run[],
+  ) {
+    super(message);
+    this.name = "StructuredOutputError";
+  }
+}
+
+type Checked<T> = { ok: true; value: T } | { ok: false; errors: string[] };
+
+const isValidator = <T>(
+  schema: OutputSchema<T>,
+): schema is ObjectValidator<T> =>
+  typeof (schema as Partial<ObjectValidator<T>>).parse === "function";
+
+const checker =
+  <T>(schema: OutputSchema<T>) =>
+  (value: unknown): Checked<T> => {
+    if (isValidator(schema)) {
+      try {
+        return { ok: true, value: schema.parse(value) };
+      } catch (err) {
+        return {
+          ok: false,
+          errors: [err instanceof Error ? err.message : String(err)],
+        };
+      }
+    }
+    const errors = validateSchema(schema, value);
+    if (errors.length) {
+      return {
+        ok: false,
+        errors: errors.map(({ path, message }) => `${path}: ${message}`),
+      };
+    }
+    return { ok: true, value: value as T };
+  };
+
+/** Parses JSON, also when it's wrapped in a Markdown code block */
+const parseJson = (text: string): Checked<unknown> => {
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/.exec(text);
+  try {
+    return { ok: true, value: JSON.parse((fenced?.[1] ?? text).trim()) };
+  } catch {
+    return { ok: false, errors: ["expected valid JSON"] };
+  }
+};
+
+/** Resolves with the tool calls of the run's next required action, or null when it has finished */
+const nextAction = (run: Run) =>
+  new Promise<FunctionToolCall[] | null>((resolve, reject) => {
+    const onAction = (action: OpenAI.Beta.Threads.Run["required_action"]) => {
+      off();
+      resolve(action?.submit_tool_outputs.tool_calls ?? []);
+    };
+    const onFinished = (err: unknown) => {
+      off();
+      if (err) reject(err);
+      else resolve(null);
+    };
+    const off = () => {
+      run.off("actionRequired", onAction);
+      run.off("finished", onFinished);
+    };
+    run.on("actionRequired", onAction);
+    run.on("finished", onFinished);
+  });
+
+/** Returns the last assistant message created by the run */
+const lastReply = async (run: Run, options: OpenAI.RequestOptions) => {
+  for await (const message of await run.thread.messages(options)) {
+    if (message.wrappedValue.created_at < run.wrappedValue.created_at) break;
+    if (
+      message.role === "assistant" &&
+      message.wrappedValue.run_id === run.id
+    ) {
+      return message;
+    }
+  }
+  return null;
+};
+
+/**
+ * Runs the thread until the assistant produces a result that matches the schema.
+ * The run is limited to a single function, which the assistant is made to call with the result.
+ * Invalid results are answered with the validation errors, so the assistant can correct them in the same run.
+ * If the run completes with a message instead, the message is parsed as JSON, and the thread is re-prompted if it's invalid.
+ * Once a valid result was received, the run is cancelled if the assistant calls the function again.
+ * @throws StructuredOutputError if there's no valid result after `maxRetries` retries
+ */
+export const runForObject = async <T>(
+  ctx: Context,
+  thread: Thread,
+  assistant: Assistant,
+  schema: OutputSchema<T>,
+  objectOptions: RunForObjectOptions = {},
+  options: OpenAI.RequestOptions = {},
+): Promise<ObjectRunResult<T>> => {
+  const {
+    name = "submit_result",
+    description = "Submits the result. Call it once with the complete result.",
+    maxRetries = 2,
+    polling,
+  } = objectOptions;
+  const parameters = isValidator(schema)
+    ? objectOptions.parameters ?? { type: "object" }
+    : schema;
+  const check = checker(schema);
+  const runs: Run[] = [];
+  let attempts = 0;
+  let errors: string[] = [];
+  const giveUp = () =>
+    new StructuredOutputError(
+      `No valid result after ${attempts} attempts: ${errors.join("; ")}`,
+      errors,
+      runs,
+    );
+
+  for (;;) {
+    const run = await Run.create(
+      ctx,
+      thread,
+      {
+        assistant,
+        tools: [
+          { type: "function", function: { name, description, parameters } },
+        ],
+        // tool_choice isn't typed by this version of the openai library
+        ...({
+          tool_choice: { type: "function", function: { name } },
+        } as object),
+        // Nothing is dispatched automatically; the calls are answered below
+        toolRegistry: new ToolRegistry(),
+        polling,
+      },
+      options,
+    );
+    runs.push(run);
+
+    let result: { value: T; toolCall: FunctionToolCall } | null = null;
+    for (
+      let calls = await nextAction(run);
+      calls;
+      calls = await nextAction(run)
+    ) {
+      if (result) {
+        // The function is forced, so the assistant may keep calling it
+        await run.cancel(options);
+        continue;
+      }
+      const outputs: ToolOutput[] = [];
+      for (const toolCall of calls) {
+        let output: string;
+        if (result) {
+          output = "A result was already received.";
+        } else if (toolCall.function.name !== name) {
+          output = new ToolCallError(
+            "unknown_tool",
+            `No tool registered as ${toolCall.function.name}`,
+          ).toOutput();
+        } else {
+          attempts++;
+          const parsed = parseJson(toolCall.function.arguments);
+          const checked = parsed.ok ? check(parsed.value) : parsed;
+          if (checked.ok) {
+            result = { value: checked.value, toolCall };
+            output = "Result received.";
+          } else {
+            errors = checked.errors;
+            output = new ToolCallError(
+              "validation_failed",
+              `Arguments for ${name} do not match its schema`,
+              errors,
+            ).toOutput();
+          }
+        }
+        outputs.push({ tool_call_id: toolCall.id, output });
+      }
+      if (!result && attempts > maxRetries) {
+        await run.cancel(options);
+        await run.waitUntilFinished();
+        throw giveUp();
+      }
+      await run.submitToolOutputs({ tool_outputs: outputs }, options);
+    }
+
+    const message = await lastReply(run, options);
+    if (result) {
+      return {
+        object: result.value,
+        run,
+        runs,
+        message,
+        toolCall: result.toolCall,
+        attempts,
+      };
+    }
+    if (run.status !== "completed") {
+      const error = run.wrappedValue.last_error;
+      throw new Error(
+        `Run id ${run.id} ended with status ${run.status}${
+          error ? `: ${error.message}` : ""
+        }`,
+      );
+    }
+
+    // The assistant replied with a message instead of calling the function
+    attempts++;
+    const parsed = message
+      ? parseJson(message.text)
+      : { ok: false as const, errors: [`expected a call to ${name}`] };
+    const checked = parsed.ok ? check(parsed.value) : parsed;
+    if (checked.ok) {
+      return {
+        object: checked.value,
+        run,
+        runs,
+        message,
+        toolCall: null,
+        attempts,
+      };
+    }
+    errors = checked.errors;
+    if (attempts > maxRetries) throw giveUp();
+    await Message.create(
+      ctx,
+      thread,
+      {
+        role: "user",
+        content: `The result doesn't match the schema:\n${errors
+          .map((error) => `- ${error}`)
+          .join("\n")}\nCall ${name} with the corrected result.`,
+      },
+      options,
+    );
+  }
+};
@@ -0,0 +1,263 @@
+import type { webcrypto } from "node:crypto";
+
+import { OpenAI } from "openai";
+
+import type { Clock } from "./clock.js";
+import type { RequestMiddleware } from "./requests.js";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/** Structured logger. Adapt pino, winston or similar to it. */
+export interface Logger {
+  debug(message: string, fields?: Record<string, unknown>): void;
+  info(message: string, fields?: Record<string, unknown>): void;
+  warn(message: string, fields?: Record<string, unknown>): void;
+  error(message: string, fields?: Record<string, unknown>): void;
+}
+
+const levels: LogLevel[] = ["debug", "info", "warn", "error"];
+
+/** Logs to the console, from `level` up. Defaults to warnings and errors. */
+export const consoleLogger = (level: LogLevel = "warn"): Logger => {
+  const min = levels.indexOf(level);
+  const log =
+    (at: LogLevel, write: (...data: unknown[]) => void) =>
+    (message: string, fields?: Record<string, unknown>) => {
+      if (levels.indexOf(at) < min) return;
+      if (fields) write(message, fields);
+      else write(message);
+    };
+  return {
+    debug: log("debug", console.debug),
+    info: log("info", console.info),
+    warn: log("warn", console.warn),
+    error: log("error", console.error),
+  };
+};
+
+export const noopLogger: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
+
+export type AttributeValue = string | number | boolean;
+export type Attributes = Record<string, AttributeValue | null | undefined>;
+
+export interface SpanEvent {
+  name: string;
+  /** Milliseconds since the epoch, on the Context's clock */
+  time: number;
+  attributes: Attributes;
+}
+
+/** A finished span, as passed to the exporter. Ids are hex strings in the OpenTelemetry format. */
+export interface SpanData {
+  name: string;
+  traceId: string;
+  spanId: string;
+  parentSpanId: string | null;
+  startTime: number;
+  endTime: number;
+  attributes: Attributes;
+  events: SpanEvent[];
+  status: "ok" | "error";
+  /** Message of the error that ended the span */
+  error: string | null;
+}
+
+export interface Span {
+  readonly name: string;
+  readonly traceId: string;
+  readonly spanId: string;
+  setAttributes(attributes: Attributes): void;
+  addEvent(name: string, attributes?: Attributes): void;
+  /** Ends the span and exports it. Pass the error if the operation failed. Later calls are ignored. */
+  end(err?: unknown): void;
+}
+
+export interface MetricPoint {
+  name: string;
+  /** Counters are summed; histograms record each value, e.g. a duration */
+  kind: "counter" | "histogram";
+  value: number;
+  attributes: Attributes;
+  time: number;
+}
+
+/** Receives finished spans and metric points, e.g. to forward them to OpenTelemetry */
+export interface TelemetryExporter {
+  exportSpan(span: SpanData): void;
+  exportMetric(metric: MetricPoint): void;
+}
+
+export const noopExporter: TelemetryExporter = {
+  exportSpan: () => {},
+  exportMetric: () => {},
+};
+
+/** Keeps everything in memory, e.g. for tests */
+export class InMemoryExporter implements TelemetryExporter {
+  spans: SpanData[] = [];
+  metrics: MetricPoint[] = [];
+
+  exportSpan(span: SpanData) {
+    this.spans.push(span);
+  }
+
+  exportMetric(metric: MetricPoint) {
+    this.metrics.push(metric);
+  }
+
+  /** Sums up the values of a metric, optionally only the points with the attributes */
+  sum(name: string, attributes: Attributes = {}) {
+    return this.metrics
+      .filter(
+        (metric) =>
+          metric.name === name &&
+          Object.entries(attributes).every(
+            ([key, value]) => metric.attributes[key] === value,
+          ),
+      )
+      .reduce((sum, metric) => sum + metric.value, 0);
+  }
+
+  clear() {
+    this.spans = [];
+    this.metrics = [];
+  }
+}
+
+// Web Crypto is a global in browsers and Node 19+; @types/node only types it in node:crypto
+const { crypto } = globalThis as unknown as { crypto: webcrypto.Crypto };
+
+const hexId = (bytes: number) =>
+  Array.from(crypto.getRandomValues(new Uint8Array(bytes)), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
+
+const errorMessage = (err: unknown) =>
+  err instanceof Error ? err.message : String(err);
+
+class RecordingSpan implements Span {
+  readonly traceId: string;
+  readonly spanId = hexId(8);
+  private _startTime: number;
+  private _attributes: Attributes;
+  private _events: SpanEvent[] = [];
+  private _ended = false;
+
+  constructor(
+    private _telemetry: Telemetry,
+    readonly name: string,
+    attributes: Attributes,
+    private _parent: Span | null,
+  ) {
+    this.traceId = _parent?.traceId ?? hexId(16);
+    this._startTime = _telemetry.now();
+    this._attributes = { ...attributes };
+  }
+
+  setAttributes(attributes: Attributes) {
+    Object.assign(this._attributes, attributes);
+  }
+
+  addEvent(name: string, attributes: Attributes = {}) {
+    this._events.push({ name, time: this._telemetry.now(), attributes });
+  }
+
+  end(err?: unknown) {
+    if (this._ended) return;
+    this._ended = true;
+    this._telemetry.exporter.exportSpan({
+      name: this.name,
+      traceId: this.traceId,
+      spanId: this.spanId,
+      parentSpanId: this._parent?.spanId ?? null,
+      startTime: this._startTime,
+      endTime: this._telemetry.now(),
+      attributes: this._attributes,
+      events: this._events,
+      status: err === undefined ? "ok" : "error",
+      error: err === undefined ? null : errorMessage(err),
+    });
+  }
+}
+
+/**
+ * Creates spans and metric points and hands them to the exporter.
+ * Spans cover every API request and the lifecycle of each run.
+ */
+export class Telemetry {
+  constructor(
+    private _clock: Clock,
+    public exporter: TelemetryExporter = noopExporter,
+  ) {}
+
+  now() {
+    return this._clock.now();
+  }
+
+  startSpan(name: string, attributes: Attributes = {}, parent?: Span): Span {
+    return new RecordingSpan(this, name, attributes, parent ?? null);
+  }
+
+  /** Adds to a counter */
+  count(name: string, value = 1, attributes: Attributes = {}) {
+    this.exporter.exportMetric({
+      name,
+      kind: "counter",
+      value,
+      attributes,
+      time: this.now(),
+    });
+  }
+
+  /** Records a value of a histogram */
+  record(name: string, value: number, attributes: Attributes = {}) {
+    this.exporter.exportMetric({
+      name,
+      kind: "histogram",
+      value,
+      attributes,
+      time: this.now(),
+    });
+  }
+}
+
+/**
+ * Wraps every API request in a span, and records its latency in the `openai.request.duration` histogram.
+ * Added by the Context as the outermost middleware, so retries are part of the span.
+ */
+export const tracing =
+  (telemetry: Telemetry): RequestMiddleware =>
+  async (request, next) => {
+    const { object, operation } = request;
+    const span = telemetry.startSpan(`openai.${object}.${operation}`, {
+      object,
+      operation,
+    });
+    const start = telemetry.now();
+    const done = (err?: unknown) => {
+      span.setAttributes({
+        attempts: request.attempt + 1,
+        "http.status_code":
+          err instanceof OpenAI.APIError ? err.status : undefined,
+      });
+      span.end(err);
+      telemetry.record("openai.request.duration", telemetry.now() - start, {
+        object,
+        operation,
+        outcome: err === undefined ? "ok" : "error",
+      });
+    };
+    try {
+      const result = await next();
+      done();
+      return result;
+    } catch (err) {
+      done(err);
+      throw err;
+    }
+  };
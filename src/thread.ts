@@ -1,8 +1,23 @@
 import { OpenAI } from "openai";
 
 import { Assistant, Context } from "./index.js";
-import { Message } from "./message.js";
+import { Message, MessageCreateParams } from "./message.js";
+import { PollingOptions } from "./polling.js";
 import { Run, RunCreateParams } from "./run.js";
+import { streamAssistantEvents } from "./streaming.js";
+import {
+  OutputSchema,
+  runForObject,
+  RunForObjectOptions,
+} from "./structured.js";
+import { ToolRegistry } from "./tools.js";
+import {
+  exportThread,
+  importTranscript,
+  Transcript,
+  TranscriptImportOptions,
+} from "./transcript.js";
+import { metadataTags } from "./usage.js";
 import { StatefulObject } from "./utils.js";
 
 export interface ThreadEvents {}
@@ -24,6 +39,14 @@ export class Thread extends StatefulObject<
   get metadata() {
     return this.wrappedValue.metadata;
   }
+  /** Id of the active run, as tracked by the Context's thread queue, or null */
+  get activeRunId() {
+    return this._ctx.threadQueue.activeRunId(this.id);
+  }
+  /** Number of messages and runs waiting for the active run */
+  get pending() {
+    return this._ctx.threadQueue.pending(this.id);
+  }
 
   /** Constructs a new Thread object by fetching by id or returning from cache if already present. */
   static async load(ctx: Context, id: string, options?: OpenAI.RequestOptions) {
@@ -38,28 +61,53 @@ export class Thread extends StatefulObject<
     params: OpenAI.Beta.ThreadCreateParams,
     options: OpenAI.RequestOptions = {},
   ) {
-    const thread = await ctx.client.beta.threads.create(
-      params,
-      ctx._opts(options),
+    const thread = await ctx.requests.send(
+      { object: this.object, operation: "create" },
+      () => ctx.client.beta.threads.create(params, ctx._opts(options)),
     );
     ctx.cache.set(this.object, thread.id, thread);
     ctx.cache._emit("created", this.object, thread.id, thread);
     return new Thread(ctx, thread.id);
   }
 
-  /** Creates a Thread and runs it (creates a Run also). */
+  /** Creates a Thread and runs it (creates a Run also). With `stream: true`, the Run is updated from the event stream. */
   static async createAndRun(
     ctx: Context,
     params: ThreadCreateAndRunParams,
     options: OpenAI.RequestOptions = {},
   ) {
-    const { assistant, ...rest } = params;
+    const { assistant, toolRegistry, polling, stream, ...rest } = params;
     const runParams = { ...rest, assistant_id: assistant.id };
+    ctx.usage.assertWithinBudget({
+      assistantId: assistant.id,
+      tags: metadataTags(rest.metadata),
+    });
+
+    if (stream) {
+      const response = await ctx.requests.send(
+        { object: Run.object, operation: "createAndRun" },
+        () =>
+          ctx.client.beta.threads.createAndRun(
+            { ...runParams, stream } as OpenAI.Beta.ThreadCreateAndRunParams,
+            ctx._opts(options),
+          ),
+        true,
+      );
+      const run = await Run._fromStream(
+        ctx,
+        streamAssistantEvents(response),
+        null,
+        toolRegistry,
+        options,
+      );
+      run._started();
+      return run;
+    }
 
     // Create the run and thread
-    const _run = await ctx.client.beta.threads.createAndRun(
-      runParams,
-      ctx._opts(options),
+    const _run = await ctx.requests.send(
+      { object: Run.object, operation: "createAndRun" },
+      () => ctx.client.beta.threads.createAndRun(runParams, ctx._opts(options)),
     );
     ctx.cache.set(Run.object, _run.id, _run);
     const run = new Run(
@@ -67,6 +115,9 @@ export class Thread extends StatefulObject<
       await Thread.load(ctx, _run.thread_id, options),
       _run.id,
     );
+    run.toolRegistry = toolRegistry ?? null;
+    run.pollingOptions = polling ?? {};
+    run._started();
     run.beginPolling();
 
     // Emit the created events
@@ -92,32 +143,122 @@ export class Thread extends StatefulObject<
     params: OpenAI.Beta.ThreadUpdateParams,
     options: OpenAI.RequestOptions = {},
   ) {
-    const updated = await this._ctx.client.beta.threads.update(
-      this.wrappedValue.id,
-      params,
-      this._ctx._opts(options),
+    const updated = await this._ctx.requests.send(
+      { object: this.object, operation: "update" },
+      () =>
+        this._ctx.client.beta.threads.update(
+          this.wrappedValue.id,
+          params,
+          this._ctx._opts(options),
+        ),
     );
     this._cache.set(this.object, updated.id, updated);
     return this;
   }
 
-  /* Creates a new message and a new run which will auto-poll for status changes. Returns a tuple. */
+  /**
+   * Creates a new message and a new run which will auto-poll for status changes. Returns a tuple.
+   * Both wait for the thread's active run together, unless `runParams.onActiveRun` says otherwise.
+   */
   async createMessageAndRun(
-    msgParams: OpenAI.Beta.Threads.MessageCreateParams,
+    msgParams: MessageCreateParams,
     runParams: RunCreateParams,
     options: OpenAI.RequestOptions = {},
   ) {
-    const message = await Message.create(this._ctx, this, msgParams, options);
-    const run = await Run.create(this._ctx, this, runParams, options);
-    return [message, run] satisfies [Message, Run];
+    const { onActiveRun, ...messageParams } = msgParams;
+    const { onActiveRun: runOnActiveRun, ...params } = runParams;
+    return await this._ctx.threadQueue.schedule(
+      this.id,
+      async () => {
+        const message = await Message._create(
+          this._ctx,
+          this,
+          messageParams,
+          options,
+        );
+        const run = await Run._create(this._ctx, this, params, options);
+        return [message, run] satisfies [Message, Run];
+      },
+      runOnActiveRun ?? onActiveRun,
+      options,
+    );
+  }
+
+  /**
+   * Runs the thread and resolves to a result that matches the schema, instead of a text reply.
+   * The assistant is made to call a function with the result. Invalid results are sent back with the errors,
+   * up to `maxRetries` times. The result keeps the runs and message for auditing.
+   * @param schema A JSON schema, or a Zod-like validator with a `parse` method
+   */
+  async runForObject<T = unknown>(
+    assistant: Assistant,
+    schema: OutputSchema<T>,
+    objectOptions?: RunForObjectOptions,
+    options?: OpenAI.RequestOptions,
+  ) {
+    return await runForObject(
+      this._ctx,
+      this,
+      assistant,
+      schema,
+      objectOptions,
+      options,
+    );
+  }
+
+  /** Returns a list of this thread's messages, newest first unless `query.order` is "asc". */
+  async messages(
+    options?: OpenAI.RequestOptions,
+    query?: OpenAI.Beta.Threads.MessageListParams,
+  ) {
+    return await Message.list(this._ctx, this, options, query);
+  }
+
+  /** Returns a list of this thread's runs, newest first unless `query.order` is "asc". */
+  async runs(
+    options?: OpenAI.RequestOptions,
+    query?: OpenAI.Beta.Threads.RunListParams,
+  ) {
+    return await Run.list(this._ctx, this, options, query);
+  }
+
+  /**
+   * Exports every message, run and step of this thread, with the referenced files resolved.
+   * Serialize the transcript with formatTranscript() as JSON, JSONL or Markdown.
+   */
+  async export(options?: OpenAI.RequestOptions) {
+    return await exportThread(this._ctx, this, options);
   }
 
-  async messages(options: OpenAI.RequestOptions = {}) {
-    return await Message.list(this._ctx, this, options);
+  /**
+   * Recreates a thread from a transcript, e.g. in another project or organization.
+   * Messages are created in order with their roles and metadata. Runs and steps can't be recreated.
+   * @param transcript A transcript, or one serialized as JSON or JSONL
+   * @param assistant Assistant messages are tagged with this assistant's id in their metadata
+   */
+  static async import(
+    ctx: Context,
+    transcript: Transcript | string,
+    assistant?: Assistant,
+    importOptions: Omit<TranscriptImportOptions, "assistant"> = {},
+    options?: OpenAI.RequestOptions,
+  ) {
+    return await importTranscript(
+      ctx,
+      transcript,
+      { ...importOptions, assistant },
+      options,
+    );
   }
 }
 
 export interface ThreadCreateAndRunParams
   extends Omit<OpenAI.Beta.ThreadCreateAndRunParams, "assistant_id"> {
   assistant: Assistant;
+  /** Overrides the Context's tool registry for the created run */
+  toolRegistry?: ToolRegistry;
+  /** Overrides the Context's polling options for the created run */
+  polling?: PollingOptions;
+  /** Receive updates from the server-sent event stream instead of polling */
+  stream?: boolean;
 }
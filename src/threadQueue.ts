@@ -0,0 +1,207 @@
+import { OpenAI } from "openai";
+import { TypedEmitter } from "tiny-typed-emitter";
+
+import type { Context } from "./index.js";
+import { Run, RunStatus } from "./run.js";
+import { Thread } from "./thread.js";
+
+/**
+ * What a new message or run does while its thread has an active run:
+ * - `wait`: waits until the active run has finished
+ * - `cancel`: cancels the active run, then waits until it's cancelled
+ * - `fail`: throws a ThreadBusyError
+ */
+export type ActiveRunPolicy = "wait" | "cancel" | "fail";
+
+const finishedStatuses: RunStatus[] = [
+  "cancelled",
+  "expired",
+  "completed",
+  "failed",
+];
+
+export interface ThreadQueueEvents {
+  /** A run became the active run of a thread */
+  locked: (threadId: string, runId: string) => void;
+  /** The active run of a thread has finished */
+  unlocked: (threadId: string, runId: string) => void;
+  /** An operation was queued. `pending` is the number of queued operations of the thread, including this one. */
+  queued: (threadId: string, pending: number) => void;
+  /** A queued operation has started. `pending` operations are still queued. */
+  dequeued: (threadId: string, pending: number) => void;
+  /** The active run was cancelled for a queued operation */
+  cancelled: (threadId: string, runId: string) => void;
+}
+
+/** Thrown with the `fail` policy when the thread has an active run or queued operations */
+export class ThreadBusyError extends Error {
+  constructor(
+    public readonly threadId: string,
+    /** The active run, or null if only operations are queued */
+    public readonly runId: string | null,
+  ) {
+    super(
+      runId
+        ? `Thread ${threadId} has an active run ${runId}`
+        : `Thread ${threadId} has queued operations`,
+    );
+    this.name = "ThreadBusyError";
+  }
+}
+
+/**
+ * Tracks the active run of each thread through the cache, so it knows about runs started from any code path.
+ * Messages and runs are created one at a time per thread, once the thread has no active run.
+ */
+export class ThreadQueue extends TypedEmitter<ThreadQueueEvents> {
+  private _active = new Map<string, string>();
+  /** Runs started by the Context, which are polled until they finish */
+  private _runs = new Map<string, Run>();
+  private _pending = new Map<string, number>();
+  private _tails = new Map<string, Promise<void>>();
+
+  constructor(
+    private _ctx: Context,
+    /** Default policy for new messages and runs */
+    public policy: ActiveRunPolicy = "wait",
+  ) {
+    super();
+    const emitter = _ctx.cache.emitter<OpenAI.Beta.Threads.Run>(Run.object);
+    const onRun = (id: string, run: OpenAI.Beta.Threads.Run) =>
+      this._update(id, run);
+    emitter.on("cacheInserted", onRun);
+    emitter.on("updated", onRun);
+  }
+
+  /** Id of the thread's active run, or null */
+  activeRunId(threadId: string) {
+    return this._active.get(threadId) ?? null;
+  }
+
+  /** The Run that polls or streams an active run for this Context, or null if the Context doesn't own the run */
+  run(runId: string) {
+    return this._runs.get(runId) ?? null;
+  }
+
+  /** Number of operations of the thread waiting for the active run */
+  pending(threadId: string) {
+    return this._pending.get(threadId) ?? 0;
+  }
+
+  /**
+   * Runs the operation once the thread has no active run. Operations of a thread run one at a time, in order.
+   * Don't schedule an operation from a tool handler of the thread's active run: it would wait for its own run.
+   * @throws ThreadBusyError with the `fail` policy, if the thread is busy
+   */
+  async schedule<T>(
+    threadId: string,
+    task: () => Promise<T>,
+    policy: ActiveRunPolicy = this.policy,
+    options: OpenAI.RequestOptions = {},
+  ) {
+    if (policy === "fail") {
+      const runId = this.activeRunId(threadId);
+      if (runId || this.pending(threadId)) {
+        throw new ThreadBusyError(threadId, runId);
+      }
+    }
+    const queued = this.pending(threadId) + 1;
+    this._pending.set(threadId, queued);
+    this.emit("queued", threadId, queued);
+
+    const previous = this._tails.get(threadId) ?? Promise.resolve();
+    const result = previous.then(async () => {
+      try {
+        await this._whenIdle(threadId, policy, options);
+      } finally {
+        const pending = this.pending(threadId) - 1;
+        if (pending) this._pending.set(threadId, pending);
+        else this._pending.delete(threadId);
+        this.emit("dequeued", threadId, pending);
+      }
+      return await task();
+    });
+    // A failed operation doesn't stop the following ones
+    const tail = result.then(
+      () => {},
+      () => {},
+    );
+    this._tails.set(threadId, tail);
+    void tail.then(() => {
+      if (this._tails.get(threadId) === tail) this._tails.delete(threadId);
+    });
+    return await result;
+  }
+
+  /** Called by a Run once it has been created or resumed, or polls or streams on behalf of the Context */
+  _track(run: Run) {
+    if (this._active.get(run.thread.id) === run.id) {
+      this._runs.set(run.id, run);
+    }
+  }
+
+  private _update(runId: string, run: OpenAI.Beta.Threads.Run) {
+    const threadId = run.thread_id;
+    const active = this._active.get(threadId);
+    if (!finishedStatuses.includes(run.status)) {
+      if (active === runId) return;
+      this._active.set(threadId, runId);
+      this.emit("locked", threadId, runId);
+    } else if (active === runId) {
+      this._active.delete(threadId);
+      this._runs.delete(runId);
+      this.emit("unlocked", threadId, runId);
+    }
+  }
+
+  private async _whenIdle(
+    threadId: string,
+    policy: ActiveRunPolicy,
+    options: OpenAI.RequestOptions,
+  ) {
+    for (
+      let runId = this._active.get(threadId);
+      runId;
+      runId = this._active.get(threadId)
+    ) {
+      if (policy === "fail") throw new ThreadBusyError(threadId, runId);
+      let onUnlocked: ThreadQueueEvents["unlocked"] = () => {};
+      const unlocked = new Promise<void>((resolve) => {
+        onUnlocked = (_, unlockedRunId) => {
+          if (unlockedRunId === runId) resolve();
+        };
+        this.on("unlocked", onUnlocked);
+      });
+      let watched: Run | null = null;
+      try {
+        let run = this._runs.get(runId);
+        if (!run) {
+          // Nothing polls a run that wasn't started by this Context. It's only watched: its owner handles the tool calls.
+          // The polls update the cache, which unlocks the thread; if polling fails, the thread stays locked.
+          run = watched = new Run(
+            this._ctx,
+            new Thread(this._ctx, threadId),
+            runId,
+          );
+          run.once("finished", (err) => {
+            if (err) {
+              this._ctx.logger.warn(
+                `Stopped watching Run id ${runId}, which locks Thread id ${threadId}`,
+                { runId, threadId, error: err },
+              );
+            }
+          });
+          run.beginPolling(options, { readOnly: true });
+        }
+        if (policy === "cancel") {
+          await run.cancel(options);
+          this.emit("cancelled", threadId, runId);
+        }
+        await unlocked;
+      } finally {
+        watched?.endPolling();
+        this.off("unlocked", onUnlocked);
+      }
+    }
+  }
+}
@@ -0,0 +1,232 @@
+import { OpenAI } from "openai";
+
+import { Clock, systemClock } from "./clock.js";
+import type { Run } from "./run.js";
+import { JSONSchema, validateSchema } from "./schema.js";
+
+const DEFAULT_TOOL_TIMEOUT_MS = 1000 * 30; // 30 seconds
+
+export type FunctionToolCall =
+  OpenAI.Beta.Threads.Runs.RequiredActionFunctionToolCall;
+export type ToolOutput =
+  OpenAI.Beta.Threads.Runs.RunSubmitToolOutputsParams.ToolOutput;
+export type FunctionTool =
+  OpenAI.Beta.Assistants.AssistantCreateParams.AssistantToolsFunction;
+
+export interface ToolCallContext {
+  /** The raw tool call from the run's required_action */
+  toolCall: FunctionToolCall;
+  /** The Run that requested the tool call, if dispatched by a Run */
+  run: Run | null;
+  /** Aborted when the call times out */
+  signal: AbortSignal;
+}
+
+export interface Tool<Args = any> {
+  /** Function name, as exposed to the assistant */
+  name: string;
+  description?: string;
+  /** JSON schema for the function arguments. Arguments are validated against it before calling the handler. */
+  parameters: JSONSchema;
+  /** Called with the parsed arguments. Non-string results are JSON-stringified. */
+  handler: (args: Args, context: ToolCallContext) => unknown;
+  /** Overrides the registry's default timeout for this tool */
+  timeoutMs?: number;
+}
+
+export interface ToolRegistryOptions {
+  /** Default per-call timeout in milliseconds. Defaults to 30 seconds. */
+  timeoutMs?: number;
+}
+
+export type ToolErrorType =
+  | "unknown_tool"
+  | "invalid_arguments"
+  | "validation_failed"
+  | "timeout"
+  | "handler_error";
+
+/** Error produced while dispatching a tool call. Submitted to the run as a structured output. */
+export class ToolCallError extends Error {
+  constructor(
+    public readonly type: ToolErrorType,
+    message: string,
+    public readonly details?: unknown,
+  ) {
+    super(message);
+    this.name = "ToolCallError";
+  }
+
+  toOutput() {
+    return JSON.stringify({
+      error: { type: this.type, message: this.message, details: this.details },
+    });
+  }
+}
+
+/**
+ * Registry of function tools and their handlers.
+ * Used to answer a Run's `requires_action` automatically, and to produce the `tools` array for assistants.
+ */
+export class ToolRegistry {
+  private _tools = new Map<string, Tool>();
+
+  constructor(private _options: ToolRegistryOptions = {}) {}
+
+  /** Registers a tool. Replaces any existing tool with the same name. */
+  register<Args = any>(tool: Tool<Args>) {
+    this._tools.set(tool.name, tool as Tool);
+    return this;
+  }
+
+  /** Removes a tool by name. Returns true if it was registered. */
+  unregister(name: string) {
+    return this._tools.delete(name);
+  }
+
+  get(name: string) {
+    return this._tools.get(name);
+  }
+
+  has(name: string) {
+    return this._tools.has(name);
+  }
+
+  get size() {
+    return this._tools.size;
+  }
+
+  /**
+   * Returns the function tool definitions for `Assistant.create` / `Assistant.update`.
+   */
+  definitions(): FunctionTool[] {
+    return [...this._tools.values()].map((tool) => ({
+      type: "function",
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters,
+      },
+    }));
+  }
+
+  /**
+   * Returns the tools with this registry's function tools appended.
+   * Functions with the same name as a registered tool are replaced by its definition, so names stay unique.
+   */
+  mergeDefinitions<T extends { type: string; function?: { name: string } }>(
+    tools: T[] = [],
+  ) {
+    const definitions = this.definitions();
+    const names = new Set(definitions.map((tool) => tool.function.name));
+    return [
+      ...tools.filter(
+        (tool) => tool.type !== "function" || !names.has(tool.function!.name),
+      ),
+      ...definitions,
+    ];
+  }
+
+  /**
+   * Returns true if every tool call can be handled by this registry.
+   * All outputs must be submitted in a single request, so a partially handled action can't be dispatched.
+   */
+  canDispatch(toolCalls: FunctionToolCall[]) {
+    return (
+      toolCalls.length > 0 &&
+      toolCalls.every(
+        (call) => call.type === "function" && this.has(call.function.name),
+      )
+    );
+  }
+
+  /**
+   * Calls the handlers for all tool calls in parallel.
+   * Errors are never thrown; they are converted into structured error outputs instead.
+   * @param clock Times the handlers out. Runs pass their Context's clock.
+   * @returns One output per tool call, in the same order.
+   */
+  async dispatch(
+    toolCalls: FunctionToolCall[],
+    run: Run | null = null,
+    clock: Clock = systemClock,
+  ): Promise<ToolOutput[]> {
+    return await Promise.all(
+      toolCalls.map(async (toolCall) => {
+        let output: string;
+        try {
+          output = await this._call(toolCall, run, clock);
+        } catch (err) {
+          const error =
+            err instanceof ToolCallError
+              ? err
+              : new ToolCallError(
+                  "handler_error",
+                  err instanceof Error ? err.message : String(err),
+                );
+          output = error.toOutput();
+        }
+        return { tool_call_id: toolCall.id, output };
+      }),
+    );
+  }
+
+  private async _call(
+    toolCall: FunctionToolCall,
+    run: Run | null,
+    clock: Clock,
+  ) {
+    const { name } = toolCall.function;
+    const tool = this._tools.get(name);
+    if (!tool) {
+      throw new ToolCallError("unknown_tool", `No tool registered as ${name}`);
+    }
+
+    let args: unknown;
+    try {
+      args = JSON.parse(toolCall.function.arguments || "{}");
+    } catch (err) {
+      throw new ToolCallError(
+        "invalid_arguments",
+        `Arguments for ${name} are not valid JSON`,
+      );
+    }
+    const errors = validateSchema(tool.parameters, args);
+    if (errors.length) {
+      throw new ToolCallError(
+        "validation_failed",
+        `Arguments for ${name} do not match its schema`,
+        errors,
+      );
+    }
+
+    const timeoutMs =
+      tool.timeoutMs ?? this._options.timeoutMs ?? DEFAULT_TOOL_TIMEOUT_MS;
+    const controller = new AbortController();
+    let timeout: unknown;
+    const timedOut = new Promise<never>((_, reject) => {
+      timeout = clock.setTimeout(() => {
+        reject(
+          new ToolCallError(
+            "timeout",
+            `Tool ${name} timed out after ${timeoutMs}ms`,
+          ),
+        );
+        controller.abort();
+      }, timeoutMs);
+    });
+    try {
+      const result = await Promise.race([
+        Promise.resolve(
+          tool.handler(args, { toolCall, run, signal: controller.signal }),
+        ),
+        timedOut,
+      ]);
+      return typeof result === "string"
+        ? result
+        : JSON.stringify(result ?? null);
+    } finally {
+      clock.clearTimeout(timeout);
+    }
+  }
+}
@@ -0,0 +1,432 @@
+import { OpenAI } from "openai";
+
+import { File } from "./file.js";
+import { Assistant, Context } from "./index.js";
+import { Message } from "./message.js";
+import { replaceTextRanges } from "./render.js";
+import { Run } from "./run.js";
+import { Thread } from "./thread.js";
+import { assistantsV2Request } from "./vectorStore.js";
+
+type ThreadMessage = OpenAI.Beta.Threads.Messages.ThreadMessage;
+type TextContent = OpenAI.Beta.Threads.Messages.MessageContentText;
+
+/** Version of the transcript format. Bumped on breaking changes; parseTranscript() rejects other versions. */
+export const TRANSCRIPT_VERSION = 1;
+
+export type TranscriptFormat = "json" | "jsonl" | "markdown";
+
+/** A file reference. Name and size are null if the file couldn't be loaded, e.g. because it was deleted. */
+export interface TranscriptFile {
+  id: string;
+  filename: string | null;
+  bytes: number | null;
+}
+
+export interface TranscriptAnnotation {
+  type: "file_citation" | "file_path";
+  /** The text in the message that is replaced by the annotation */
+  text: string;
+  startIndex: number;
+  endIndex: number;
+  file: TranscriptFile;
+  /** Quote from the cited file, for file citations */
+  quote?: string;
+}
+
+export type TranscriptContent =
+  | { type: "text"; text: string; annotations: TranscriptAnnotation[] }
+  | { type: "image_file"; file: TranscriptFile };
+
+export interface TranscriptMessage {
+  id: string;
+  role: ThreadMessage["role"];
+  /** ISO 8601 */
+  createdAt: string;
+  assistantId: string | null;
+  runId: string | null;
+  metadata: unknown;
+  content: TranscriptContent[];
+  files: TranscriptFile[];
+}
+
+export interface TranscriptStep {
+  id: string;
+  type: OpenAI.Beta.Threads.Runs.RunStep["type"];
+  status: OpenAI.Beta.Threads.Runs.RunStep["status"];
+  createdAt: string;
+  /** Step details as returned by the API: the created message or the tool calls */
+  details: OpenAI.Beta.Threads.Runs.RunStep["step_details"];
+}
+
+export interface TranscriptRun {
+  id: string;
+  assistantId: string;
+  status: OpenAI.Beta.Threads.Run["status"];
+  model: string;
+  instructions: string;
+  createdAt: string;
+  completedAt: string | null;
+  metadata: unknown;
+  steps: TranscriptStep[];
+}
+
+/** Portable copy of a thread with its messages, runs and steps, oldest first */
+export interface Transcript {
+  version: typeof TRANSCRIPT_VERSION;
+  exportedAt: string;
+  thread: { id: string; createdAt: string; metadata: unknown };
+  messages: TranscriptMessage[];
+  runs: TranscriptRun[];
+}
+
+const isoDate = (seconds: number | null) =>
+  seconds === null ? null : new Date(seconds * 1000).toISOString();
+
+/**
+ * Walks every message page, run and step of a thread and resolves the referenced files.
+ * Use Thread.export() instead.
+ */
+export const exportThread = async (
+  ctx: Context,
+  thread: Thread,
+  options: OpenAI.RequestOptions = {},
+): Promise<Transcript> => {
+  await thread.load(options);
+  const query = { order: "asc", limit: 100 } as const;
+  const messages = (
+    await (await Message.list(ctx, thread, options, query)).toArray()
+  ).map((message) => message.wrappedValue);
+  const runs = await (await Run.list(ctx, thread, options, query)).toArray();
+
+  const fileIds = new Set<string>();
+  for (const message of messages) {
+    message.file_ids.forEach((id) => fileIds.add(id));
+    for (const part of message.content) {
+      if (part.type === "image_file") fileIds.add(part.image_file.file_id);
+      else part.text.annotations.forEach((a) => fileIds.add(annotationFile(a)));
+    }
+  }
+  const files = new Map<string, TranscriptFile>();
+  await Promise.all(
+    [...fileIds].map(async (id) => {
+      try {
+        const file = await File.load(ctx, id, options);
+        files.set(id, { id, filename: file.filename, bytes: file.bytes });
+      } catch {
+        files.set(id, { id, filename: null, bytes: null });
+      }
+    }),
+  );
+  const file = (id: string) => files.get(id)!;
+
+  return {
+    version: TRANSCRIPT_VERSION,
+    exportedAt: new Date().toISOString(),
+    thread: {
+      id: thread.id,
+      createdAt: isoDate(thread.wrappedValue.created_at)!,
+      metadata: thread.metadata,
+    },
+    messages: messages.map((message) => ({
+      id: message.id,
+      role: message.role,
+      createdAt: isoDate(message.created_at)!,
+      assistantId: message.assistant_id,
+      runId: message.run_id,
+      metadata: message.metadata,
+      content: message.content.map((part): TranscriptContent => {
+        if (part.type === "image_file") {
+          return { type: "image_file", file: file(part.image_file.file_id) };
+        }
+        return {
+          type: "text",
+          text: part.text.value,
+          annotations: part.text.annotations.map((annotation) => ({
+            type: annotation.type,
+            text: annotation.text,
+            startIndex: annotation.start_index,
+            endIndex: annotation.end_index,
+            file: file(annotationFile(annotation)),
+            ...(annotation.type === "file_citation"
+              ? { quote: annotation.file_citation.quote }
+              : {}),
+          })),
+        };
+      }),
+      files: message.file_ids.map(file),
+    })),
+    runs: await Promise.all(
+      runs.map(async (run): Promise<TranscriptRun> => {
+        const value = run.wrappedValue;
+        const steps = await (await run.listSteps(options, query)).toArray();
+        return {
+          id: value.id,
+          assistantId: value.assistant_id,
+          status: value.status,
+          model: value.model,
+          instructions: value.instructions,
+          createdAt: isoDate(value.created_at)!,
+          completedAt: isoDate(value.completed_at),
+          metadata: value.metadata,
+          steps: steps.map(({ wrappedValue: step }) => ({
+            id: step.id,
+            type: step.type,
+            status: step.status,
+            createdAt: isoDate(step.created_at)!,
+            details: step.step_details,
+          })),
+        };
+      }),
+    ),
+  };
+};
+
+const annotationFile = (
+  annotation: TextContent["text"]["annotations"][number],
+) =>
+  annotation.type === "file_citation"
+    ? annotation.file_citation.file_id
+    : annotation.file_path.file_id;
+
+const fileLabel = (file: TranscriptFile) =>
+  file.filename ? `${file.filename} (${file.id})` : file.id;
+
+const toMarkdown = (transcript: Transcript) => {
+  const lines = [
+    `# Thread ${transcript.thread.id}`,
+    "",
+    `Created ${transcript.thread.createdAt}, exported ${transcript.exportedAt} (transcript v${transcript.version})`,
+  ];
+  let footnote = 0;
+  for (const message of transcript.messages) {
+    const role = message.role === "user" ? "User" : "Assistant";
+    lines.push("", `## ${role} · ${message.createdAt}`, "");
+    const notes: string[] = [];
+    for (const part of message.content) {
+      if (part.type === "image_file") {
+        lines.push(`![${fileLabel(part.file)}](${part.file.id})`, "");
+        continue;
+      }
+      const annotations = [...part.annotations]
+        .sort((a, b) => a.startIndex - b.startIndex)
+        .map((annotation) => ({ ...annotation, ref: ++footnote }));
+      const text = replaceTextRanges(
+        part.text,
+        annotations.map(({ startIndex, endIndex, ref }) => ({
+          start: startIndex,
+          end: endIndex,
+          text: `[^${ref}]`,
+        })),
+      );
+      for (const annotation of annotations) {
+        const quote = annotation.quote ? ` "${annotation.quote}"` : "";
+        notes.push(
+          `[^${annotation.ref}]: ${fileLabel(annotation.file)}${quote}`,
+        );
+      }
+      lines.push(text, "");
+    }
+    if (message.files.length) {
+      lines.push(`Files: ${message.files.map(fileLabel).join(", ")}`, "");
+    }
+    lines.push(...notes);
+  }
+  if (transcript.runs.length) {
+    lines.push("", "## Runs", "");
+    for (const run of transcript.runs) {
+      lines.push(
+        `- ${run.id}: ${run.status}, assistant ${run.assistantId}, ${run.model}, ${run.steps.length} steps`,
+      );
+    }
+  }
+  return (
+    lines
+      .join("\n")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim() + "\n"
+  );
+};
+
+/**
+ * Serializes a transcript.
+ * JSONL has one record per line: the thread (with the version), then each message, then each run.
+ * Markdown is meant for reading and can't be imported.
+ */
+export const formatTranscript = (
+  transcript: Transcript,
+  format: TranscriptFormat = "json",
+) => {
+  switch (format) {
+    case "json":
+      return JSON.stringify(transcript, null, 2);
+    case "jsonl": {
+      const { messages, runs, ...header } = transcript;
+      return [
+        { type: "thread", ...header },
+        ...messages.map((message) => ({ type: "message", ...message })),
+        ...runs.map((run) => ({ type: "run", ...run })),
+      ]
+        .map((record) => JSON.stringify(record))
+        .join("\n");
+    }
+    case "markdown":
+      return toMarkdown(transcript);
+    default:
+      throw new Error(`Invalid transcript format ${format as string}`);
+  }
+};
+
+const parseJsonLines = (text: string): Transcript => {
+  const records = text
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line) as { type: string });
+  const [header, ...rest] = records;
+  if (header?.type !== "thread")
+    throw new Error("Transcript JSONL must start with a thread record");
+  const strip = (record: { type?: string }) => {
+    const copy = { ...record };
+    delete copy.type;
+    return copy;
+  };
+  return {
+    ...(strip(header) as Omit<Transcript, "messages" | "runs">),
+    messages: rest
+      .filter((record) => record.type === "message")
+      .map((record) => strip(record) as TranscriptMessage),
+    runs: rest
+      .filter((record) => record.type === "run")
+      .map((record) => strip(record) as TranscriptRun),
+  };
+};
+
+/**
+ * Parses a transcript serialized as JSON or JSONL.
+ * @throws If the transcript has an unsupported version
+ */
+export const parseTranscript = (text: string): Transcript => {
+  let transcript: Transcript & { type?: string };
+  try {
+    transcript = JSON.parse(text) as Transcript;
+  } catch {
+    transcript = parseJsonLines(text);
+  }
+  // A JSONL transcript of an empty thread is a single line
+  if (transcript.type === "thread") transcript = parseJsonLines(text);
+  if (transcript.version !== TRANSCRIPT_VERSION) {
+    throw new Error(
+      `Unsupported transcript version ${String(transcript.version)}`,
+    );
+  }
+  return transcript;
+};
+
+export interface TranscriptImportOptions {
+  /** Assistant messages are tagged with this assistant's id in their metadata */
+  assistant?: Assistant;
+  /** Attach the files referenced by messages. Only useful in the same organization; defaults to false. */
+  keepFiles?: boolean;
+}
+
+/** Body of a message created with v2 of the Assistants API, which the pinned openai package doesn't type */
+interface AssistantsV2MessageCreateParams {
+  role: "assistant";
+  content: string;
+  /** Replaces v1's `file_ids` */
+  attachments?: {
+    file_id: string;
+    tools: { type: "file_search" | "code_interpreter" }[];
+  }[];
+  metadata?: unknown;
+}
+
+/** Creates an assistant message, which only v2 of the Assistants API allows */
+const createAssistantMessage = async (
+  ctx: Context,
+  thread: Thread,
+  params: AssistantsV2MessageCreateParams,
+  options: OpenAI.RequestOptions,
+) => {
+  const message = await ctx.requests.send(
+    { object: Message.object, operation: "create" },
+    () =>
+      assistantsV2Request<ThreadMessage>(
+        ctx,
+        "post",
+        `/threads/${thread.id}/messages`,
+        options,
+        { body: params },
+      ),
+  );
+  ctx.cache.set(Message.object, message.id, message);
+  ctx.cache._emit("created", Message.object, message.id, message);
+  return new Message(ctx, thread, message.id);
+};
+
+/**
+ * Recreates a thread from a transcript. Use Thread.import() instead.
+ */
+export const importTranscript = async (
+  ctx: Context,
+  transcript: Transcript | string,
+  importOptions: TranscriptImportOptions = {},
+  options: OpenAI.RequestOptions = {},
+) => {
+  const { assistant, keepFiles = false } = importOptions;
+  const parsed =
+    typeof transcript === "string" ? parseTranscript(transcript) : transcript;
+  const thread = await Thread.create(
+    ctx,
+    { metadata: parsed.thread.metadata },
+    options,
+  );
+  // Messages are created one by one to keep their order
+  for (const message of parsed.messages) {
+    const metadata = { ...(message.metadata as Record<string, unknown>) };
+    if (
+      assistant &&
+      message.role === "assistant" &&
+      Object.keys(metadata).length < 16
+    ) {
+      metadata.assistant_id = assistant.id;
+    }
+    const content = message.content
+      .map((part) =>
+        part.type === "text" ? part.text : `[image: ${fileLabel(part.file)}]`,
+      )
+      .join("\n\n");
+    const fileIds = keepFiles ? message.files.map((file) => file.id) : [];
+    if (message.role === "user") {
+      await Message.create(
+        ctx,
+        thread,
+        {
+          role: "user",
+          content,
+          file_ids: fileIds.length ? fileIds : undefined,
+          metadata,
+        },
+        options,
+      );
+    } else {
+      await createAssistantMessage(
+        ctx,
+        thread,
+        {
+          role: "assistant",
+          content,
+          attachments: fileIds.length
+            ? fileIds.map((id) => ({
+                file_id: id,
+                tools: [{ type: "file_search" }],
+              }))
+            : undefined,
+          metadata,
+        },
+        options,
+      );
+    }
+  }
+  return thread;
+};
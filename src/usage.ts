@@ -0,0 +1,335 @@
+import { OpenAI } from "openai";
+import { TypedEmitter } from "tiny-typed-emitter";
+
+import type { Run } from "./run.js";
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/** Price of a model in USD per million tokens */
+export interface ModelPrice {
+  prompt: number;
+  completion: number;
+}
+
+/**
+ * Prices by model. A model without an exact entry uses the longest entry it starts with,
+ * e.g. "gpt-4-turbo" also prices "gpt-4-turbo-2024-04-09".
+ */
+export type PriceTable = Record<string, ModelPrice>;
+
+/** Usage of a run that reached a terminal status */
+export interface UsageRecord extends TokenUsage {
+  runId: string;
+  threadId: string;
+  assistantId: string;
+  model: string;
+  status: OpenAI.Beta.Threads.Run["status"];
+  /** String values of the run's metadata */
+  tags: Record<string, string>;
+  /** Estimated cost in USD, or null if the model isn't in the price table */
+  cost: number | null;
+  /** Time of recording (ms) on the Context's clock */
+  recordedAt: number;
+}
+
+export interface UsageTotals extends TokenUsage {
+  runs: number;
+  /** Estimated cost in USD of the runs with a known price */
+  cost: number;
+}
+
+/** Selects runs by assistant, thread and metadata tags. An empty scope selects all runs. */
+export interface UsageScope {
+  assistantId?: string;
+  threadId?: string;
+  /** Every tag must match */
+  tags?: Record<string, string>;
+}
+
+export interface UsageBudget {
+  /** Identifies the budget in events and errors */
+  name: string;
+  /** Runs counted towards the budget. Defaults to all runs. */
+  scope?: UsageScope;
+  maxTokens?: number;
+  /** Maximum estimated cost in USD */
+  maxCost?: number;
+  /**
+   * What happens once the usage reaches a limit. With "refuse", Run.create() throws a BudgetExceededError for runs in scope.
+   * "cancel" also cancels the active runs in scope. Defaults to "refuse".
+   */
+  action?: "refuse" | "cancel";
+}
+
+export interface UsageTrackerOptions {
+  prices?: PriceTable;
+  budgets?: UsageBudget[];
+}
+
+export interface UsageTrackerEvents {
+  recorded: (record: UsageRecord) => void;
+  /** Emitted once when a budget's limit is reached */
+  budgetExceeded: (budget: UsageBudget, totals: UsageTotals) => void;
+  /** A run was cancelled by a budget with the "cancel" action */
+  runCancelled: (run: Run, budget: UsageBudget) => void;
+}
+
+/** Thrown by Run.create() when a budget of the run's scope is exhausted */
+export class BudgetExceededError extends Error {
+  constructor(
+    public readonly budget: UsageBudget,
+    public readonly totals: UsageTotals,
+  ) {
+    super(`Usage budget ${budget.name} is exceeded`);
+    this.name = "BudgetExceededError";
+  }
+}
+
+interface RawUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+/** Reads the usage of a run. Older API versions don't report it, so it may be null. */
+export const runUsage = (run: OpenAI.Beta.Threads.Run): TokenUsage | null => {
+  const usage = (run as { usage?: RawUsage | null }).usage;
+  if (!usage) return null;
+  const promptTokens = usage.prompt_tokens ?? 0;
+  const completionTokens = usage.completion_tokens ?? 0;
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: usage.total_tokens ?? promptTokens + completionTokens,
+  };
+};
+
+/** Returns the string values of metadata as tags */
+export const metadataTags = (metadata: unknown) => {
+  const tags: Record<string, string> = {};
+  if (typeof metadata !== "object" || metadata === null) return tags;
+  for (const [key, value] of Object.entries(metadata)) {
+    if (typeof value === "string") tags[key] = value;
+  }
+  return tags;
+};
+
+interface Scoped {
+  assistantId: string;
+  /** Unknown for runs that create their thread */
+  threadId?: string;
+  tags: Record<string, string>;
+}
+
+const inScope = (scope: UsageScope = {}, item: Scoped) =>
+  (scope.assistantId === undefined || scope.assistantId === item.assistantId) &&
+  (scope.threadId === undefined || scope.threadId === item.threadId) &&
+  Object.entries(scope.tags ?? {}).every(
+    ([key, value]) => item.tags[key] === value,
+  );
+
+const emptyTotals = (): UsageTotals => ({
+  runs: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  totalTokens: 0,
+  cost: 0,
+});
+
+const addRecord = (totals: UsageTotals, record: UsageRecord) => {
+  totals.runs++;
+  totals.promptTokens += record.promptTokens;
+  totals.completionTokens += record.completionTokens;
+  totals.totalTokens += record.totalTokens;
+  totals.cost += record.cost ?? 0;
+};
+
+const isExhausted = (budget: UsageBudget, totals: UsageTotals) =>
+  (budget.maxTokens !== undefined && totals.totalTokens >= budget.maxTokens) ||
+  (budget.maxCost !== undefined && totals.cost >= budget.maxCost);
+
+/**
+ * Records the token usage of runs when they reach a terminal status, and aggregates it.
+ * Records are kept in memory until reset().
+ */
+export class UsageTracker extends TypedEmitter<UsageTrackerEvents> {
+  prices: PriceTable;
+  private _budgets = new Map<string, UsageBudget>();
+  private _records: UsageRecord[] = [];
+  private _recorded = new Set<string>();
+  /** Runs that haven't finished, with their scope when they started */
+  private _active = new Map<Run, Scoped>();
+  private _exceeded = new Set<string>();
+
+  constructor(
+    private _now: () => number,
+    options: UsageTrackerOptions = {},
+  ) {
+    super();
+    this.prices = options.prices ?? {};
+    for (const budget of options.budgets ?? []) {
+      this._budgets.set(budget.name, budget);
+    }
+  }
+
+  /** Usage of every recorded run, in the order they finished */
+  get records(): readonly UsageRecord[] {
+    return this._records;
+  }
+
+  get budgets() {
+    return [...this._budgets.values()];
+  }
+
+  /** Adds a budget, or replaces the budget with the same name */
+  setBudget(budget: UsageBudget) {
+    this._budgets.set(budget.name, budget);
+    this._exceeded.delete(budget.name);
+    this._checkBudget(budget);
+    return this;
+  }
+
+  removeBudget(name: string) {
+    this._exceeded.delete(name);
+    return this._budgets.delete(name);
+  }
+
+  /** Estimates the cost in USD. Returns null if the model isn't in the price table. */
+  cost(model: string, usage: TokenUsage) {
+    let price = this.prices[model];
+    if (!price) {
+      const prefix = Object.keys(this.prices)
+        .filter((key) => model.startsWith(key))
+        .sort((a, b) => b.length - a.length)[0];
+      price = prefix !== undefined ? this.prices[prefix] : undefined;
+    }
+    if (!price) return null;
+    return (
+      (usage.promptTokens * price.prompt +
+        usage.completionTokens * price.completion) /
+      1_000_000
+    );
+  }
+
+  /** Sums up the usage of the runs in scope */
+  totals(scope: UsageScope = {}) {
+    const totals = emptyTotals();
+    for (const record of this._records) {
+      if (inScope(scope, record)) addRecord(totals, record);
+    }
+    return totals;
+  }
+
+  byAssistant() {
+    return this._group((record) => record.assistantId);
+  }
+
+  byThread() {
+    return this._group((record) => record.threadId);
+  }
+
+  byRun() {
+    return this._group((record) => record.runId);
+  }
+
+  /** Groups the usage by the value of a metadata tag. Runs without the tag are left out. */
+  byTag(key: string) {
+    return this._group((record) => record.tags[key]);
+  }
+
+  /**
+   * Throws if a budget that applies to the run is exhausted.
+   * @throws BudgetExceededError
+   */
+  assertWithinBudget(run: {
+    assistantId: string;
+    threadId?: string;
+    tags: Record<string, string>;
+  }) {
+    for (const budget of this._budgets.values()) {
+      if (!inScope(budget.scope, run)) continue;
+      const totals = this.totals(budget.scope);
+      if (isExhausted(budget, totals)) {
+        throw new BudgetExceededError(budget, totals);
+      }
+    }
+  }
+
+  /** Forgets all records. Budgets start over. */
+  reset() {
+    this._records = [];
+    this._recorded.clear();
+    this._exceeded.clear();
+  }
+
+  /** Called by Run.create() to track the run until it has finished, however it ends */
+  _track(run: Run) {
+    const value = run.wrappedValue;
+    this._active.set(run, {
+      assistantId: value.assistant_id,
+      threadId: value.thread_id,
+      tags: metadataTags(value.metadata),
+    });
+    run.once("finished", () => this._active.delete(run));
+  }
+
+  /** Called by a Run when it has reached a terminal status. Records it once. */
+  _record(run: Run) {
+    this._active.delete(run);
+    const value = run.wrappedValue;
+    const usage = runUsage(value);
+    if (!usage || this._recorded.has(run.id)) return;
+    this._recorded.add(run.id);
+    const record: UsageRecord = {
+      ...usage,
+      runId: run.id,
+      threadId: value.thread_id,
+      assistantId: value.assistant_id,
+      model: value.model,
+      status: value.status,
+      tags: metadataTags(value.metadata),
+      cost: this.cost(value.model, usage),
+      recordedAt: this._now(),
+    };
+    this._records.push(record);
+    this.emit("recorded", record);
+    for (const budget of this._budgets.values()) {
+      if (inScope(budget.scope, record)) this._checkBudget(budget);
+    }
+  }
+
+  private _group(keyOf: (record: UsageRecord) => string | undefined) {
+    const groups = new Map<string, UsageTotals>();
+    for (const record of this._records) {
+      const key = keyOf(record);
+      if (key === undefined) continue;
+      let totals = groups.get(key);
+      if (!totals) groups.set(key, (totals = emptyTotals()));
+      addRecord(totals, record);
+    }
+    return groups;
+  }
+
+  private _checkBudget(budget: UsageBudget) {
+    if (this._exceeded.has(budget.name)) return;
+    const totals = this.totals(budget.scope);
+    if (!isExhausted(budget, totals)) return;
+    this._exceeded.add(budget.name);
+    this.emit("budgetExceeded", budget, totals);
+    if (budget.action !== "cancel") return;
+    // The scopes were kept when the runs started, since their values may have been evicted from the cache since
+    for (const [run, scoped] of this._active) {
+      if (!inScope(budget.scope, scoped)) continue;
+      this._active.delete(run);
+      run.cancel().then(
+        () => this.emit("runCancelled", run, budget),
+        // The run may have finished in the meantime
+        () => {},
+      );
+    }
+  }
+}
@@ -1,12 +1,12 @@
 import { OpenAI } from "openai";
-import { CursorPage, CursorPageParams } from "openai/pagination.mjs";
+import { CursorPage, CursorPageParams, Page } from "openai/pagination.mjs";
 import {
   DefaultListener,
   ListenerSignature,
   TypedEmitter,
 } from "tiny-typed-emitter";
 
-import { CacheItemEvents, ObjectType } from "./cache.js";
+import { CacheItemEvents, FetchId, ObjectType } from "./cache.js";
 import { Context } from "./index.js";
 
 export interface StatefulObjectEvents<T> {
@@ -38,12 +38,20 @@ export class StatefulObject<
     const val = this._ctx.cache.get<Wrapped>(this.object, this._id);
     if (!val) {
       throw new Error(
-        "Attempted to access wrapped value of a stateful object that has not been loaded. " +
-          "Do you need to call load()? Was the ID invalid?",
+        `Attempted to access wrapped value of ${this.toString()}, which has not been loaded or was evicted from the cache. ` +
+          "Do you need to call load() or getValue()? Was the ID invalid?",
       );
     }
     return val;
   }
+
+  /**
+   * Returns the wrapped value, loading it again if it's not in the cache (e.g. because it was evicted or expired).
+   */
+  public async getValue(options?: OpenAI.RequestOptions): Promise<Wrapped> {
+    await this.load(options);
+    return this.wrappedValue;
+  }
   protected get _cache() {
     return this._ctx.cache;
   }
@@ -55,7 +63,7 @@ export class StatefulObject<
    * Fetches the object into the cache. Does not overwrite the value in the cache if already exists.
    */
   public async load(options?: OpenAI.RequestOptions) {
-    await this._ctx.cache.getOrFetch(this.object, this._id, options);
+    await this._ctx.cache.getOrFetch(this.object, this._fetchId(), options);
     this._subscribe();
   }
 
@@ -63,7 +71,13 @@ export class StatefulObject<
    * Fetches the object into the cache. Overwrites the value in the cache if already exists.
    */
   public async fetch(options?: OpenAI.RequestOptions) {
-    await this._ctx.cache.fetch(this.object, this._id, options);
+    await this._ctx.cache.fetch(this.object, this._fetchId(), options);
+    this._subscribe();
+  }
+
+  /** Id passed to the cache to fetch this object. Objects that belong to a thread override this. */
+  protected _fetchId(): FetchId {
+    return this._id;
   }
 
   /** Re-emit events from the cache that pertain to this object */
@@ -112,9 +126,17 @@ export class StatefulObject<
   }
 }
 
-export interface WrappedPage<T> {
+/** Called with each item and its index across pages. May return a promise. */
+export type PageItemCallback<T, R> = (item: T, index: number) => R | Promise<R>;
+
+/**
+ * Page of wrapped objects. Iterating it with `for await` yields the items of this page and every following page.
+ * The helpers fetch the following pages only as far as needed.
+ */
+export interface WrappedPage<T> extends AsyncIterable<T> {
   data: T[];
   getNextPage: () => Promise<WrappedPage<T>>;
+  /** Yields this page, then every following page */
   iterPages: () => AsyncGenerator<WrappedPage<T>>;
   hasNextPage(): boolean;
   nextPageInfo():
@@ -122,12 +144,18 @@ export interface WrappedPage<T> {
     | { params: Record<string, unknown> | null }
     | null;
   nextPageParams(): Partial<CursorPageParams> | null;
+  /** Returns the items of this page and the following pages, up to `limit` items */
+  toArray(options?: { limit?: number }): Promise<T[]>;
+  /** Returns the first item matching the predicate, or undefined */
+  find(predicate: PageItemCallback<T, unknown>): Promise<T | undefined>;
+  filter(predicate: PageItemCallback<T, unknown>): Promise<T[]>;
+  map<U>(callback: PageItemCallback<T, U>): Promise<U[]>;
 }
 
 /**
  * Facade on top of the page object that wraps results in StatefulObjects
  * @param ctx
- * @param page openai cursor page
+ * @param page openai cursor page, or a page of a list endpoint that isn't paginated
  * @param initializer factory function to create the wrapped object
  */
 export const createWrappedPage = <
@@ -135,28 +163,68 @@ export const createWrappedPage = <
   Inner extends { id: string },
 >(
   ctx: Context,
-  page: CursorPage<Inner>,
+  page: CursorPage<Inner> | Page<Inner>,
   initializer: (ctx: Context, id: string) => Wrapped,
-): WrappedPage<Wrapped> => ({
-  data: page.data.map((item) => {
-    const value = initializer(ctx, item.id);
-    ctx.cache.set(value.object, item.id, item);
-    return value;
-  }),
-  getNextPage() {
-    return page
-      .getNextPage()
-      .then((page) => createWrappedPage(ctx, page, initializer));
-  },
-  hasNextPage: page.hasNextPage,
-  async *iterPages() {
-    yield await page
-      .iterPages()
-      .next()
-      .then((page) =>
-        createWrappedPage(ctx, page.value as CursorPage<Inner>, initializer),
-      );
-  },
-  nextPageInfo: page.nextPageInfo,
-  nextPageParams: page.nextPageParams,
-});
+): WrappedPage<Wrapped> => {
+  const wrapped: WrappedPage<Wrapped> = {
+    data: page.data.map((item) => {
+      const value = initializer(ctx, item.id);
+      ctx.cache.set(value.object, item.id, item);
+      return value;
+    }),
+    getNextPage() {
+      return page
+        .getNextPage()
+        .then((page) => createWrappedPage(ctx, page, initializer));
+    },
+    hasNextPage: () => page.hasNextPage(),
+    async *iterPages() {
+      let current = wrapped;
+      yield current;
+      while (current.hasNextPage()) {
+        current = await current.getNextPage();
+        yield current;
+      }
+    },
+    nextPageInfo: () => page.nextPageInfo(),
+    nextPageParams: () => page.nextPageParams(),
+    async *[Symbol.asyncIterator]() {
+      for await (const page of wrapped.iterPages()) {
+        yield* page.data;
+      }
+    },
+    async toArray({ limit = Infinity } = {}) {
+      const items: Wrapped[] = [];
+      if (limit <= 0) return items;
+      for await (const item of wrapped) {
+        items.push(item);
+        if (items.length >= limit) break;
+      }
+      return items;
+    },
+    async find(predicate) {
+      let index = 0;
+      for await (const item of wrapped) {
+        if (await predicate(item, index++)) return item;
+      }
+      return undefined;
+    },
+    async filter(predicate) {
+      const items: Wrapped[] = [];
+      let index = 0;
+      for await (const item of wrapped) {
+        if (await predicate(item, index++)) items.push(item);
+      }
+      return items;
+    },
+    async map(callback) {
+      const results = [];
+      let index = 0;
+      for await (const item of wrapped) {
+        results.push(await callback(item, index++));
+      }
+      return results;
+    },
+  };
+  return wrapped;
+};
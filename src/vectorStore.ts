@@ -0,0 +1,713 @@
+import { OpenAI } from "openai";
+import { CursorPage, CursorPageParams } from "openai/pagination.mjs";
+
+import { File, FileSource } from "./file.js";
+import { Context } from "./index.js";
+import {
+  defaultPollingOptions,
+  PollingOptions,
+  pollLoop,
+  PollOutcome,
+} from "./polling.js";
+import { createWrappedPage, StatefulObject } from "./utils.js";
+
+/**
+ * Vector stores are only available in version 2 of the Assistants API, which the pinned openai package doesn't type.
+ * Their requests are sent with the raw client methods and this header.
+ */
+export const assistantsV2Header = { "OpenAI-Beta": "assistants=v2" };
+
+/** Adds the Assistants v2 beta header to request options */
+export const withAssistantsV2 = <T extends OpenAI.RequestOptions>(
+  options: T,
+): T => ({
+  ...options,
+  headers: { ...assistantsV2Header, ...options.headers },
+});
+
+type RawBody = NonNullable<OpenAI.RequestOptions["body"]>;
+
+/**
+ * Sends a request to the Assistants v2 API with the raw client methods.
+ * @param init Body or query of the request; they aren't typed by the pinned openai package
+ */
+export const assistantsV2Request = <T>(
+  ctx: Context,
+  method: "get" | "post" | "delete",
+  path: string,
+  options: OpenAI.RequestOptions = {},
+  init: { body?: object; query?: object } = {},
+) =>
+  ctx.client[method]<RawBody, T>(
+    path,
+    withAssistantsV2({
+      ...ctx._opts(options),
+      body: init.body as RawBody | undefined,
+      query: init.query as RawBody | undefined,
+    }),
+  );
+
+export interface FileCounts {
+  in_progress: number;
+  completed: number;
+  failed: number;
+  cancelled: number;
+  total: number;
+}
+
+export interface ExpiresAfter {
+  anchor: "last_active_at";
+  days: number;
+}
+
+export type ChunkingStrategy =
+  | { type: "auto" }
+  | {
+      type: "static";
+      static: { max_chunk_size_tokens: number; chunk_overlap_tokens: number };
+    };
+
+/** A vector store as returned by the API */
+export interface OpenAIVectorStore {
+  id: string;
+  object: "vector_store";
+  created_at: number;
+  name: string;
+  usage_bytes: number;
+  file_counts: FileCounts;
+  status: "expired" | "in_progress" | "completed";
+  expires_after?: ExpiresAfter | null;
+  expires_at: number | null;
+  last_active_at: number | null;
+  metadata: unknown;
+}
+
+/** A file attached to a vector store, as returned by the API */
+export interface OpenAIVectorStoreFile {
+  id: string;
+  object: "vector_store.file";
+  created_at: number;
+  vector_store_id: string;
+  usage_bytes: number;
+  status: "in_progress" | "completed" | "cancelled" | "failed";
+  last_error: { code: string; message: string } | null;
+  chunking_strategy?: ChunkingStrategy;
+  attributes?: Record<string, string | number | boolean> | null;
+}
+
+/** A batch of files added to a vector store, as returned by the API */
+export interface OpenAIVectorStoreFileBatch {
+  id: string;
+  object: "vector_store.files_batch";
+  created_at: number;
+  vector_store_id: string;
+  status: "in_progress" | "completed" | "cancelled" | "failed";
+  file_counts: FileCounts;
+}
+
+export interface VectorStoreDeleted {
+  id: string;
+  object: "vector_store.deleted" | "vector_store.file.deleted";
+  deleted: boolean;
+}
+
+export interface VectorStoreCreateParams {
+  name?: string;
+  file_ids?: string[];
+  expires_after?: ExpiresAfter;
+  chunking_strategy?: ChunkingStrategy;
+  metadata?: unknown;
+}
+
+export interface VectorStoreUpdateParams {
+  name?: string | null;
+  expires_after?: ExpiresAfter | null;
+  metadata?: unknown;
+}
+
+export interface VectorStoreFileCreateParams {
+  file_id: string;
+  chunking_strategy?: ChunkingStrategy;
+  attributes?: Record<string, string | number | boolean>;
+}
+
+export interface VectorStoreFileUpdateParams {
+  attributes: Record<string, string | number | boolean> | null;
+}
+
+export interface VectorStoreFileBatchCreateParams {
+  file_ids: string[];
+  chunking_strategy?: ChunkingStrategy;
+  /** Overrides the polling options of the Context for this batch */
+  polling?: PollingOptions;
+}
+
+export interface VectorStoreFileBatchUploadParams
+  extends Omit<VectorStoreFileBatchCreateParams, "file_ids"> {
+  /** Files to upload with purpose 'assistants' before creating the batch */
+  files: FileSource[];
+  /** Already uploaded files to add to the batch */
+  file_ids?: string[];
+}
+
+export interface VectorStoreEvents {}
+
+export class VectorStore extends StatefulObject<
+  VectorStore,
+  OpenAIVectorStore,
+  VectorStoreEvents
+> {
+  constructor(ctx: Context, id: string) {
+    super(ctx, VectorStore.object, id);
+  }
+
+  static readonly object = "vector_store";
+  readonly object = VectorStore.object;
+
+  get name() {
+    return this.wrappedValue.name;
+  }
+  get status() {
+    return this.wrappedValue.status;
+  }
+  get usageBytes() {
+    return this.wrappedValue.usage_bytes;
+  }
+  get fileCounts() {
+    return this.wrappedValue.file_counts;
+  }
+  get createdAt() {
+    return new Date(this.wrappedValue.created_at * 1000);
+  }
+  get expiresAt() {
+    const expiresAt = this.wrappedValue.expires_at;
+    return expiresAt === null ? null : new Date(expiresAt * 1000);
+  }
+  get metadata() {
+    return this.wrappedValue.metadata;
+  }
+
+  /** Creates a vector store */
+  static async create(
+    ctx: Context,
+    params: VectorStoreCreateParams = {},
+    options: OpenAI.RequestOptions = {},
+  ) {
+    const vectorStore = await ctx.requests.send(
+      { object: this.object, operation: "create" },
+      () =>
+        assistantsV2Request<OpenAIVectorStore>(
+          ctx,
+          "post",
+          "/vector_stores",
+          options,
+          { body: params },
+        ),
+    );
+    ctx.cache.set(this.object, vectorStore.id, vectorStore);
+    ctx.cache._emit("created", this.object, vectorStore.id, vectorStore);
+    return new VectorStore(ctx, vectorStore.id);
+  }
+
+  /** Constructs a new VectorStore object by fetching by id or returning from cache if already present. */
+  static async load(ctx: Context, id: string, options?: OpenAI.RequestOptions) {
+    const vectorStore = new VectorStore(ctx, id);
+    await vectorStore.load(options);
+    return vectorStore;
+  }
+
+  /**
+   * Returns a list of vector stores.
+   */
+  static async list(ctx: Context, options: OpenAI.RequestOptions = {}) {
+    const page = await ctx.requests.send(
+      { object: this.object, operation: "list" },
+      () =>
+        ctx.client.getAPIList(
+          "/vector_stores",
+          CursorPage<OpenAIVectorStore>,
+          withAssistantsV2(ctx._opts(options)),
+        ),
+    );
+    return createWrappedPage(ctx, page, (ctx, id) => new VectorStore(ctx, id));
+  }
+
+  /** Modifies this vector store */
+  async update(
+    params: VectorStoreUpdateParams,
+    options: OpenAI.RequestOptions = {},
+  ) {
+    const vectorStore = await this._ctx.requests.send(
+      { object: this.object, operation: "update" },
+      () =>
+        assistantsV2Request<OpenAIVectorStore>(
+          this._ctx,
+          "post",
+          `/vector_stores/${this.id}`,
+          options,
+          { body: params },
+        ),
+    );
+    this._cache.set(this.object, vectorStore.id, vectorStore);
+    return this;
+  }
+
+  /**
+   * Deletes this vector store. The files themselves aren't deleted.
+   */
+  async delete(options: OpenAI.RequestOptions = {}) {
+    const deleted = await this._ctx.requests.send(
+      { object: this.object, operation: "delete" },
+      () =>
+        assistantsV2Request<VectorStoreDeleted>(
+          this._ctx,
+          "delete",
+          `/vector_stores/${this.id}`,
+          options,
+        ),
+    );
+    if (deleted.deleted) {
+      this._cache._emit("deleted", this.object, this.id);
+      this._cache.remove(this.object, this.id);
+    }
+    return deleted;
+  }
+
+  /** Attaches an uploaded file to this vector store */
+  async createFile(
+    params: VectorStoreFileCreateParams,
+    options?: OpenAI.RequestOptions,
+  ) {
+    return await VectorStoreFile.create(this._ctx, this, params, options);
+  }
+
+  /** Returns a list of files in this vector store */
+  async listFiles(options?: OpenAI.RequestOptions) {
+    return await VectorStoreFile.list(this._ctx, this, options);
+  }
+
+  /** Uploads files, adds them to this vector store in a batch and polls the batch until it has finished */
+  async uploadAndPoll(
+    params: VectorStoreFileBatchUploadParams,
+    options?: OpenAI.RequestOptions,
+  ) {
+    return await VectorStoreFileBatch.uploadAndPoll(
+      this._ctx,
+      this,
+      params,
+      options,
+    );
+  }
+}
+
+export interface VectorStoreFileEvents {}
+
+export class VectorStoreFile extends StatefulObject<
+  VectorStoreFile,
+  OpenAIVectorStoreFile,
+  VectorStoreFileEvents
+> {
+  constructor(
+    ctx: Context,
+    public vectorStore: VectorStore,
+    id: string,
+  ) {
+    super(ctx, VectorStoreFile.object, id);
+  }
+
+  protected _fetchId() {
+    return { vectorStoreId: this.vectorStore.id, id: this.id };
+  }
+
+  static readonly object = "vector_store_file";
+  readonly object = VectorStoreFile.object;
+
+  get status() {
+    return this.wrappedValue.status;
+  }
+  get usageBytes() {
+    return this.wrappedValue.usage_bytes;
+  }
+  get lastError() {
+    return this.wrappedValue.last_error;
+  }
+  get createdAt() {
+    return new Date(this.wrappedValue.created_at * 1000);
+  }
+  get attributes() {
+    return this.wrappedValue.attributes ?? null;
+  }
+
+  /** Attaches an uploaded file to a vector store */
+  static async create(
+    ctx: Context,
+    vectorStore: VectorStore,
+    params: VectorStoreFileCreateParams,
+    options: OpenAI.RequestOptions = {},
+  ) {
+    const file = await ctx.requests.send(
+      { object: this.object, operation: "create" },
+      () =>
+        assistantsV2Request<OpenAIVectorStoreFile>(
+          ctx,
+          "post",
+          `/vector_stores/${vectorStore.id}/files`,
+          options,
+          { body: params },
+        ),
+    );
+    ctx.cache.set(this.object, file.id, file);
+    ctx.cache._emit("created", this.object, file.id, file);
+    return new VectorStoreFile(ctx, vectorStore, file.id);
+  }
+
+  /** Constructs a new VectorStoreFile object by fetching by id or returning from cache if already present. */
+  static async load(
+    ctx: Context,
+    vectorStore: VectorStore,
+    id: string,
+    options?: OpenAI.RequestOptions,
+  ) {
+    const file = new VectorStoreFile(ctx, vectorStore, id);
+    await file.load(options);
+    return file;
+  }
+
+  /**
+   * Returns a list of files in a vector store.
+   */
+  static async list(
+    ctx: Context,
+    vectorStore: VectorStore,
+    options: OpenAI.RequestOptions = {},
+  ) {
+    const page = await ctx.requests.send(
+      { object: this.object, operation: "list" },
+      () =>
+        ctx.client.getAPIList(
+          `/vector_stores/${vectorStore.id}/files`,
+          CursorPage<OpenAIVectorStoreFile>,
+          withAssistantsV2(ctx._opts(options)),
+        ),
+    );
+    return createWrappedPage(
+      ctx,
+      page,
+      (ctx, id) => new VectorStoreFile(ctx, vectorStore, id),
+    );
+  }
+
+  /** Modifies the attributes of this file */
+  async update(
+    params: VectorStoreFileUpdateParams,
+    options: OpenAI.RequestOptions = {},
+  ) {
+    const file = await this._ctx.requests.send(
+      { object: this.object, operation: "update" },
+      () =>
+        assistantsV2Request<OpenAIVectorStoreFile>(
+          this._ctx,
+          "post",
+          `/vector_stores/${this.vectorStore.id}/files/${this.id}`,
+          options,
+          { body: params },
+        ),
+    );
+    this._cache.set(this.object, file.id, file);
+    return this;
+  }
+
+  /**
+   * Removes this file from the vector store. The file itself isn't deleted.
+   */
+  async delete(options: OpenAI.RequestOptions = {}) {
+    const deleted = await this._ctx.requests.send(
+      { object: this.object, operation: "delete" },
+      () =>
+        assistantsV2Request<VectorStoreDeleted>(
+          this._ctx,
+          "delete",
+          `/vector_stores/${this.vectorStore.id}/files/${this.id}`,
+          options,
+        ),
+    );
+    if (deleted.deleted) {
+      this._cache._emit("deleted", this.object, this.id);
+      this._cache.remove(this.object, this.id);
+    }
+    return deleted;
+  }
+}
+
+type BatchStatus = OpenAIVectorStoreFileBatch["status"];
+
+export interface VectorStoreFileBatchEvents {
+  statusChanged: (status: BatchStatus) => void;
+  /** Emitted when the file counts change while polling */
+  progress: (fileCounts: FileCounts) => void;
+  finished: (err: unknown, status: BatchStatus | null) => void;
+}
+
+const batchExitStatuses: BatchStatus[] = ["completed", "cancelled", "failed"];
+
+export class VectorStoreFileBatch extends StatefulObject<
+  VectorStoreFileBatch,
+  OpenAIVectorStoreFileBatch,
+  VectorStoreFileBatchEvents
+> {
+  private _pollTimer: unknown = null;
+  private _pollToken: symbol | null = null;
+  private _removeAbortListener = () => {};
+  /** Polling options for this batch. Override the options of the Context. */
+  pollingOptions: PollingOptions = {};
+
+  constructor(
+    ctx: Context,
+    public vectorStore: VectorStore,
+    id: string,
+  ) {
+    super(ctx, VectorStoreFileBatch.object, id);
+  }
+
+  protected _fetchId() {
+    return { vectorStoreId: this.vectorStore.id, id: this.id };
+  }
+
+  static readonly object = "vector_store_file_batch";
+  readonly object = VectorStoreFileBatch.object;
+
+  get status() {
+    return this.wrappedValue.status;
+  }
+  get fileCounts() {
+    return this.wrappedValue.file_counts;
+  }
+  get createdAt() {
+    return new Date(this.wrappedValue.created_at * 1000);
+  }
+
+  /**
+   * Adds uploaded files to a vector store. The batch will auto-poll until it has finished.
+   */
+  static async create(
+    ctx: Context,
+    vectorStore: VectorStore,
+    params: VectorStoreFileBatchCreateParams,
+    options: OpenAI.RequestOptions = {},
+  ) {
+    const { polling, ...body } = params;
+    const batch = await ctx.requests.send(
+      { object: this.object, operation: "create" },
+      () =>
+        assistantsV2Request<OpenAIVectorStoreFileBatch>(
+          ctx,
+          "post",
+          `/vector_stores/${vectorStore.id}/file_batches`,
+          options,
+          { body: body },
+        ),
+    );
+    ctx.cache.set(this.object, batch.id, batch);
+    ctx.cache._emit("created", this.object, batch.id, batch);
+    const created = new VectorStoreFileBatch(ctx, vectorStore, batch.id);
+    created.pollingOptions = polling ?? {};
+    created.beginPolling(options);
+    return created;
+  }
+
+  /**
+   * Uploads files with purpose 'assistants', then adds them and any already uploaded files to a vector store.
+   * The batch will auto-poll until it has finished; use waitUntilFinished() or the progress event to follow it.
+   */
+  static async uploadAndPoll(
+    ctx: Context,
+    vectorStore: VectorStore,
+    params: VectorStoreFileBatchUploadParams,
+    options: OpenAI.RequestOptions = {},
+  ) {
+    const { files, file_ids = [], ...rest } = params;
+    const uploaded = await Promise.all(
+      files.map((file) => File.upload(ctx, file, {}, options)),
+    );
+    return await VectorStoreFileBatch.create(
+      ctx,
+      vectorStore,
+      { ...rest, file_ids: [...file_ids, ...uploaded.map((file) => file.id)] },
+      options,
+    );
+  }
+
+  /** Constructs a new VectorStoreFileBatch object by fetching by id or returning from cache if already present. */
+  static async load(
+    ctx: Context,
+    vectorStore: VectorStore,
+    id: string,
+    options?: OpenAI.RequestOptions,
+  ) {
+    const batch = new VectorStoreFileBatch(ctx, vectorStore, id);
+    await batch.load(options);
+    return batch;
+  }
+
+  /**
+   * Returns a list of files in this batch.
+   */
+  async listFiles(
+    query: CursorPageParams = {},
+    options: OpenAI.RequestOptions = {},
+  ) {
+    const vectorStore = this.vectorStore;
+    const page = await this._ctx.requests.send(
+      { object: VectorStoreFile.object, operation: "list" },
+      () =>
+        this._ctx.client.getAPIList(
+          `/vector_stores/${vectorStore.id}/file_batches/${this.id}/files`,
+          CursorPage<OpenAIVectorStoreFile>,
+          withAssistantsV2({
+            ...this._ctx._opts(options),
+            query: query as RawBody,
+          }),
+        ),
+    );
+    return createWrappedPage(
+      this._ctx,
+      page,
+      (ctx, id) => new VectorStoreFile(ctx, vectorStore, id),
+    );
+  }
+
+  /** Cancels this batch. Batches can't be modified or deleted. */
+  async cancel(options: OpenAI.RequestOptions = {}) {
+    const batch = await this._ctx.requests.send(
+      { object: this.object, operation: "cancel" },
+      () =>
+        assistantsV2Request<OpenAIVectorStoreFileBatch>(
+          this._ctx,
+          "post",
+          `/vector_stores/${this.vectorStore.id}/file_batches/${this.id}/cancel`,
+          options,
+        ),
+    );
+    this._cache.set(this.object, batch.id, batch);
+    return this;
+  }
+
+  /**
+   * Waits until this batch emits a finished event, then returns the status.
+   * Returns immediately if the cached batch already has a terminal status.
+   */
+  async waitUntilFinished() {
+    const cached = this._cache.get<OpenAIVectorStoreFileBatch>(
+      this.object,
+      this.id,
+    );
+    if (cached && batchExitStatuses.includes(cached.status)) {
+      return cached.status;
+    }
+    if (!this.polling) {
+      this.beginPolling();
+    }
+    return new Promise<BatchStatus>((resolve, reject) => {
+      this.once("finished", (err, status) => {
+        if (err) reject(err);
+        else resolve(status!);
+      });
+    });
+  }
+
+  /**
+   * Polls the batch until it has finished. Emits statusChanged and progress events.
+   * Transient errors are retried; other errors end polling with a finished event.
+   * @param options Request options for each poll
+   * @param polling Overrides the polling options of this batch and the Context
+   */
+  beginPolling(
+    options: OpenAI.RequestOptions = {},
+    polling: PollingOptions = {},
+  ) {
+    this.endPolling();
+
+    const config = {
+      ...defaultPollingOptions,
+      ...this._ctx.pollingOptions,
+      ...this.pollingOptions,
+      ...polling,
+    };
+    const token = Symbol("poll");
+    let previous = this._cache.get<OpenAIVectorStoreFileBatch>(
+      this.object,
+      this.id,
+    );
+
+    const onPolled = async (
+      batch: OpenAIVectorStoreFileBatch,
+    ): Promise<PollOutcome> => {
+      let outcome: PollOutcome = "unchanged";
+      if (batch.status !== previous?.status) {
+        outcome = "changed";
+        this.emit("statusChanged", batch.status);
+      }
+      if (
+        JSON.stringify(batch.file_counts) !==
+        JSON.stringify(previous?.file_counts)
+      ) {
+        outcome = "changed";
+        this.emit("progress", batch.file_counts);
+      }
+      previous = batch;
+
+      if (batchExitStatuses.includes(batch.status)) {
+        this.endPolling();
+        try {
+          await this.vectorStore.fetch(options);
+        } catch (err) {
+          this.emit("finished", err, null);
+          return "done";
+        }
+        this.emit("finished", null, batch.status);
+        return "done";
+      }
+      return outcome;
+    };
+
+    this._pollToken = token;
+    this._removeAbortListener = pollLoop({
+      clock: this._ctx.clock,
+      logger: this._ctx.logger,
+      config,
+      label: `VectorStoreFileBatch id ${this.id}`,
+      fields: { batchId: this.id },
+      isCurrent: () => this._pollToken === token,
+      fetch: (delay) =>
+        new Promise<OpenAIVectorStoreFileBatch>((resolve, reject) => {
+          this._pollTimer = this._ctx.clock.setTimeout(() => {
+            this._ctx.cache
+              .fetch<OpenAIVectorStoreFileBatch>(
+                this.object,
+                this._fetchId(),
+                options,
+              )
+              .then(resolve, reject);
+          }, delay);
+        }),
+      onPolled,
+      end: () => this.endPolling(),
+      fail: (err) => this.emit("finished", err, null),
+      cancel: () => this.cancel(options),
+    });
+  }
+
+  /** Stops polling. Doesn't emit a finished event. */
+  endPolling() {
+    this._ctx.clock.clearTimeout(this._pollTimer);
+    this._pollTimer = null;
+    this._pollToken = null;
+    this._removeAbortListener();
+    this._removeAbortListener = () => {};
+  }
+
+  /** True while the batch is being polled */
+  get polling() {
+    return this._pollToken !== null;
+  }
+}